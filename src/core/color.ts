@@ -0,0 +1,168 @@
+/**
+ * Color Utilities
+ *
+ * Theme colors are stored as bare HSL triples (e.g. `'222 47% 5%'`) so they
+ * can be composed as `hsl(var(--ds-bg) / 0.5)`. These helpers parse and
+ * format that representation.
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Parsed HSL color (h: 0-360, s/l: 0-100)
+ */
+export interface HSLColor {
+  h: number;
+  s: number;
+  l: number;
+}
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+const HSL_TRIPLE_PATTERN = /^\s*(-?\d+(?:\.\d+)?)(?:deg)?\s+(-?\d+(?:\.\d+)?)%\s+(-?\d+(?:\.\d+)?)%\s*$/;
+
+/**
+ * Parse an HSL triple string (`'255 70% 62%'`).
+ * Returns null if the string is not an HSL triple. Values are not clamped.
+ */
+export function parseHSL(value: string): HSLColor | null {
+  const match = HSL_TRIPLE_PATTERN.exec(value);
+  if (!match) return null;
+  return {
+    h: parseFloat(match[1]),
+    s: parseFloat(match[2]),
+    l: parseFloat(match[3]),
+  };
+}
+
+const HEX_PATTERN = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Parse an HSL triple or a hex color (`#7c5cff`, `#fff`)
+ */
+export function parseColor(value: string): HSLColor | null {
+  const hsl = parseHSL(value);
+  if (hsl) return hsl;
+
+  const match = HEX_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const hex = match[1].length === 3
+    ? match[1].split('').map(c => c + c).join('')
+    : match[1];
+  return rgbToHsl([
+    parseInt(hex.slice(0, 2), 16),
+    parseInt(hex.slice(2, 4), 16),
+    parseInt(hex.slice(4, 6), 16),
+  ]);
+}
+
+/**
+ * Format an HSL color back to a triple string, rounding to one decimal
+ */
+export function formatHSL(color: HSLColor): string {
+  const round = (v: number) => Math.round(v * 10) / 10;
+  const h = round(((color.h % 360) + 360) % 360) % 360;
+  return `${h} ${round(color.s)}% ${round(color.l)}%`;
+}
+
+// =============================================================================
+// CONVERSION
+// =============================================================================
+
+/**
+ * Convert HSL to unrounded sRGB channels (0-1)
+ */
+function hslToUnitRgb(color: HSLColor): [number, number, number] {
+  const h = (((color.h % 360) + 360) % 360) / 360;
+  const s = Math.max(0, Math.min(100, color.s)) / 100;
+  const l = Math.max(0, Math.min(100, color.l)) / 100;
+
+  if (s === 0) {
+    return [l, l, l];
+  }
+
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hueToChannel = (t: number) => {
+    let x = t;
+    if (x < 0) x += 1;
+    if (x > 1) x -= 1;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+
+  return [hueToChannel(h + 1 / 3), hueToChannel(h), hueToChannel(h - 1 / 3)];
+}
+
+/**
+ * Convert HSL to sRGB channels (0-255)
+ */
+export function hslToRgb(color: HSLColor): [number, number, number] {
+  const [r, g, b] = hslToUnitRgb(color);
+  return [Math.round(r * 255), Math.round(g * 255), Math.round(b * 255)];
+}
+
+/**
+ * Convert sRGB channels (0-255) to HSL
+ */
+export function rgbToHsl([r, g, b]: [number, number, number]): HSLColor {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+
+  if (max === min) {
+    return { h: 0, s: 0, l: l * 100 };
+  }
+
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  let h: number;
+  if (max === rn) h = (gn - bn) / d + (gn < bn ? 6 : 0);
+  else if (max === gn) h = (bn - rn) / d + 2;
+  else h = (rn - gn) / d + 4;
+
+  return { h: h * 60, s: s * 100, l: l * 100 };
+}
+
+// =============================================================================
+// WCAG CONTRAST
+// =============================================================================
+
+/**
+ * WCAG 2.x relative luminance of an HSL color
+ */
+export function relativeLuminance(color: HSLColor): number {
+  const [r, g, b] = hslToUnitRgb(color).map((c) => {
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG 2.x contrast ratio between two colors (1-21)
+ */
+export function contrastRatio(a: HSLColor, b: HSLColor): number {
+  const la = relativeLuminance(a);
+  const lb = relativeLuminance(b);
+  const [lighter, darker] = la > lb ? [la, lb] : [lb, la];
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Pick white or a near-black tint of the background, whichever reads better
+ */
+export function pickReadableForeground(background: HSLColor): HSLColor {
+  const white = { h: 0, s: 0, l: 100 };
+  const dark = { h: background.h, s: Math.min(background.s, 30), l: 10 };
+  return contrastRatio(white, background) >= contrastRatio(dark, background) ? white : dark;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  auditThemeContrast,
+  measureTokenContrast,
+  repairThemeContrast,
+  applyTokenAdjustments,
+  DEFAULT_CONTRAST_PAIRS,
+} from './contrast';
+import { parseHSL } from './color';
+import { chronicleDark, opsCalm, hospitalityWarm } from '../themes';
+
+const failuresOf = (theme: Parameters<typeof auditThemeContrast>[0]) =>
+  Object.fromEntries(auditThemeContrast(theme).failures.map(failure => [`${failure.foreground}/${failure.background}`, failure.ratio]));
+
+describe('auditThemeContrast', () => {
+  it('measures every default pair of a built-in theme', () => {
+    const report = auditThemeContrast(chronicleDark);
+    expect(report.results).toHaveLength(DEFAULT_CONTRAST_PAIRS.length);
+    expect(report.skipped).toEqual([]);
+    expect(report.standard).toBe('WCAG-AA');
+  });
+
+  it('reports the known Ops Calm failures', () => {
+    const failures = failuresOf(opsCalm);
+    expect(failures['accentFg/accent']).toBe(3.05);
+    expect(failures['warning/bg']).toBe(2.92);
+    expect(failures['textMuted/surface2']).toBe(4.48);
+    expect(Object.keys(failures)).toHaveLength(10);
+  });
+
+  it('reports the known Chronicle Dark and Hospitality Warm failures', () => {
+    expect(Object.keys(failuresOf(chronicleDark))).toEqual(['danger/bg', 'danger/surface', 'danger/dangerMuted']);
+    expect(failuresOf(hospitalityWarm)['accentFg/accent']).toBe(2.33);
+  });
+
+  it('marks failures as below their required ratio', () => {
+    const report = auditThemeContrast(opsCalm);
+    expect(report.passed).toBe(false);
+    expect(report.failures.every(failure => !failure.passes && failure.ratio < failure.required)).toBe(true);
+  });
+
+  it('applies the large-text threshold to large pairs', () => {
+    const report = auditThemeContrast(opsCalm, {
+      pairs: [{ foreground: 'accentFg', background: 'accent', largeText: true }],
+    });
+    expect(report.results[0].required).toBe(3);
+    expect(report.passed).toBe(true);
+  });
+
+  it('evaluates against WCAG-AAA when asked', () => {
+    const report = auditThemeContrast(chronicleDark, { standard: 'WCAG-AAA' });
+    expect(report.results.every(result => result.required === (result.largeText ? 4.5 : 7))).toBe(true);
+  });
+
+  it('skips tokens that are not HSL triples', () => {
+    const report = auditThemeContrast({ ...opsCalm, tokens: { ...opsCalm.tokens, accent: 'var(--brand)' } });
+    expect(report.skipped).toEqual(['accent']);
+    expect(report.passed).toBe(false);
+  });
+});
+
+describe('measureTokenContrast', () => {
+  it('is symmetric and null for unparseable tokens', () => {
+    const ratio = measureTokenContrast(opsCalm.tokens, 'text', 'bg');
+    expect(ratio).toBeGreaterThan(4.5);
+    expect(measureTokenContrast(opsCalm.tokens, 'bg', 'text')).toBe(ratio);
+    expect(measureTokenContrast({ ...opsCalm.tokens, bg: 'white' }, 'text', 'bg')).toBeNull();
+  });
+});
+
+describe('repairThemeContrast', () => {
+  it.each([chronicleDark, opsCalm, hospitalityWarm].map(theme => [theme.name, theme] as const))('repairs %s completely', (_, theme) => {
+    const result = repairThemeContrast(theme);
+    expect(result.unresolved).toEqual([]);
+    expect(result.report.passed).toBe(true);
+    expect(auditThemeContrast(result.definition).passed).toBe(true);
+  });
+
+  it('moves only the lightness of failing foreground tokens', () => {
+    const { adjustments } = repairThemeContrast(opsCalm);
+    expect(adjustments.map(adjustment => adjustment.token)).toEqual(['textMuted', 'accentFg', 'success', 'warning', 'danger']);
+
+    for (const adjustment of adjustments) {
+      const from = parseHSL(adjustment.from)!;
+      const to = parseHSL(adjustment.to)!;
+      expect(to.h).toBe(from.h);
+      expect(to.s).toBe(from.s);
+      expect(adjustment.lightnessDelta).not.toBe(0);
+    }
+  });
+
+  it('fixes every pair a token takes part in together', () => {
+    const warning = repairThemeContrast(opsCalm).adjustments.find(adjustment => adjustment.token === 'warning');
+    expect(warning?.fixes).toEqual(['warning/bg', 'warning/surface', 'warning/warningMuted']);
+  });
+
+  it('leaves tokens outside the adjustable set as unresolved', () => {
+    const result = repairThemeContrast(opsCalm, { adjustable: ['textMuted'] });
+    expect(result.adjustments.map(adjustment => adjustment.token)).toEqual(['textMuted']);
+    expect(result.unresolved.map(failure => failure.foreground)).not.toContain('textMuted');
+    expect(result.unresolved.length).toBeGreaterThan(0);
+  });
+
+  it('applies a chosen subset of adjustments', () => {
+    const { adjustments } = repairThemeContrast(opsCalm);
+    const accentFg = adjustments.filter(adjustment => adjustment.token === 'accentFg');
+    const patched = applyTokenAdjustments(opsCalm, accentFg);
+    expect(patched.tokens.accentFg).toBe(accentFg[0].to);
+    expect(patched.tokens.warning).toBe(opsCalm.tokens.warning);
+    expect(opsCalm.tokens.accentFg).toBe(accentFg[0].from);
+  });
+});
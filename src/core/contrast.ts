@@ -0,0 +1,333 @@
+/**
+ * Contrast Audit & Repair
+ *
+ * Checks the legibility of a theme's color tokens against WCAG 2.x.
+ * Every result is an `A11yCheck` (see the Visual MCP contract) extended
+ * with the measured ratio, so reports can be dropped straight into a
+ * verification checklist. Failing pairs can be repaired by nudging the
+ * lightness of foreground tokens.
+ */
+
+import type { ThemeTokens } from './types';
+import type { A11yCheck, A11yStandard } from '../mcp/contract';
+import { parseHSL, formatHSL, contrastRatio } from './color';
+import type { HSLColor } from './color';
+import { toThemeKey } from './css';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Color token keys of a theme
+ */
+export type ColorTokenKey = {
+  [K in keyof ThemeTokens]: ThemeTokens[K] extends string ? K : never;
+}[keyof ThemeTokens];
+
+/**
+ * Foreground/background pair to audit
+ */
+export interface ContrastPair {
+  foreground: ColorTokenKey;
+  background: ColorTokenKey;
+  /** Large text (>= 18pt, or 14pt bold) has lower thresholds */
+  largeText?: boolean;
+}
+
+/**
+ * Audit result for one pair
+ */
+export interface ContrastCheckResult extends A11yCheck {
+  type: 'contrast';
+  foreground: ColorTokenKey;
+  background: ColorTokenKey;
+  largeText: boolean;
+  /** Measured contrast ratio, rounded to two decimals */
+  ratio: number;
+  /** Minimum ratio required by `standard` */
+  required: number;
+  /** Passes WCAG AA */
+  aa: boolean;
+  /** Passes WCAG AAA */
+  aaa: boolean;
+  /** Passes the requested standard */
+  passes: boolean;
+}
+
+/**
+ * Complete audit report
+ */
+export interface ContrastAuditReport {
+  theme: string;
+  standard: A11yStandard;
+  results: ContrastCheckResult[];
+  failures: ContrastCheckResult[];
+  /** Tokens that could not be parsed as HSL triples */
+  skipped: ColorTokenKey[];
+  passed: boolean;
+}
+
+/**
+ * Audit options
+ */
+export interface ContrastAuditOptions {
+  /** Standard to evaluate `passes` against (default: WCAG-AA) */
+  standard?: A11yStandard;
+  /** Pairs to audit (default: DEFAULT_CONTRAST_PAIRS) */
+  pairs?: ContrastPair[];
+}
+
+/**
+ * A proposed change to a single color token
+ */
+export interface TokenAdjustment {
+  token: ColorTokenKey;
+  from: string;
+  to: string;
+  /** Lightness change in percentage points (negative = darker) */
+  lightnessDelta: number;
+  /** Pairs this adjustment fixes, as `foreground/background` */
+  fixes: string[];
+}
+
+/**
+ * Result of a contrast repair
+ */
+export interface ContrastRepairResult<T extends { name: string; tokens: ThemeTokens }> {
+  /** Copy of the input with every adjustment applied */
+  definition: T;
+  /** Per-token diff, so each change can be accepted or rejected */
+  adjustments: TokenAdjustment[];
+  /** Failing pairs that could not be repaired */
+  unresolved: ContrastCheckResult[];
+  /** Audit of the patched definition */
+  report: ContrastAuditReport;
+}
+
+/**
+ * Repair options
+ */
+export interface ContrastRepairOptions extends ContrastAuditOptions {
+  /** Foreground tokens the repair may move (default: REPAIRABLE_TOKENS) */
+  adjustable?: ColorTokenKey[];
+  /** Lightness search step in percentage points (default: 0.5) */
+  step?: number;
+}
+
+// =============================================================================
+// THRESHOLDS & PAIRS
+// =============================================================================
+
+/**
+ * Minimum contrast ratios per standard
+ */
+export const CONTRAST_THRESHOLDS: Record<A11yStandard, { normal: number; large: number }> = {
+  'WCAG-AA': { normal: 4.5, large: 3 },
+  'WCAG-AAA': { normal: 7, large: 4.5 },
+};
+
+/**
+ * Foreground tokens the repair is allowed to move by default
+ */
+export const REPAIRABLE_TOKENS: ColorTokenKey[] = ['textMuted', 'accentFg', 'success', 'warning', 'danger'];
+
+const SURFACES: ColorTokenKey[] = ['bg', 'surface', 'surface2', 'surfaceInset'];
+
+/**
+ * Foreground/background pairs that appear in the built-in recipes
+ */
+export const DEFAULT_CONTRAST_PAIRS: ContrastPair[] = [
+  ...SURFACES.map(background => ({ foreground: 'text' as const, background })),
+  { foreground: 'text', background: 'accentMuted' },
+  ...SURFACES.map(background => ({ foreground: 'textMuted' as const, background })),
+  { foreground: 'accentFg', background: 'accent' },
+  ...(['success', 'warning', 'danger'] as const).flatMap(status => [
+    { foreground: status, background: 'bg' as const },
+    { foreground: status, background: 'surface' as const },
+    { foreground: status, background: `${status}Muted` as const },
+  ]),
+];
+
+// =============================================================================
+// AUDIT
+// =============================================================================
+
+/**
+ * Measure the contrast of a single token pair. Returns null if either
+ * token is not an HSL triple.
+ */
+export function measureTokenContrast(
+  tokens: ThemeTokens,
+  foreground: ColorTokenKey,
+  background: ColorTokenKey
+): number | null {
+  const fg = parseHSL(tokens[foreground]);
+  const bg = parseHSL(tokens[background]);
+  if (!fg || !bg) return null;
+  return contrastRatio(fg, bg);
+}
+
+/**
+ * Audit a theme's color tokens for WCAG 2.x contrast.
+ *
+ * @example
+ * ```ts
+ * const report = auditThemeContrast(normalizeThemePack(chronicleDark));
+ * report.failures.forEach(f =>
+ *   console.warn(`${f.foreground} on ${f.background}: ${f.ratio}:1`)
+ * );
+ * ```
+ */
+export function auditThemeContrast(
+  theme: { name: string; tokens: ThemeTokens },
+  options: ContrastAuditOptions = {}
+): ContrastAuditReport {
+  const { standard = 'WCAG-AA', pairs = DEFAULT_CONTRAST_PAIRS } = options;
+  const selector = `[data-theme="${toThemeKey(theme.name)}"]`;
+  const results: ContrastCheckResult[] = [];
+  const skipped = new Set<ColorTokenKey>();
+
+  for (const pair of pairs) {
+    const ratio = measureTokenContrast(theme.tokens, pair.foreground, pair.background);
+    if (ratio === null) {
+      if (!parseHSL(theme.tokens[pair.foreground])) skipped.add(pair.foreground);
+      if (!parseHSL(theme.tokens[pair.background])) skipped.add(pair.background);
+      continue;
+    }
+
+    const largeText = pair.largeText ?? false;
+    const size = largeText ? 'large' : 'normal';
+    const required = CONTRAST_THRESHOLDS[standard][size];
+
+    results.push({
+      type: 'contrast',
+      selector,
+      standard,
+      foreground: pair.foreground,
+      background: pair.background,
+      largeText,
+      ratio: Math.round(ratio * 100) / 100,
+      required,
+      aa: ratio >= CONTRAST_THRESHOLDS['WCAG-AA'][size],
+      aaa: ratio >= CONTRAST_THRESHOLDS['WCAG-AAA'][size],
+      passes: ratio >= required,
+    });
+  }
+
+  const failures = results.filter(result => !result.passes);
+
+  return {
+    theme: theme.name,
+    standard,
+    results,
+    failures,
+    skipped: Array.from(skipped),
+    passed: failures.length === 0 && skipped.size === 0,
+  };
+}
+
+// =============================================================================
+// REPAIR
+// =============================================================================
+
+/**
+ * Find the smallest lightness shift that makes `color` reach each
+ * background's required ratio. Hue and saturation are preserved.
+ */
+function findMinimalLightness(
+  color: HSLColor,
+  backgrounds: { color: HSLColor; required: number }[],
+  step: number
+): HSLColor | null {
+  const satisfies = (candidate: HSLColor) =>
+    backgrounds.every(bg => contrastRatio(candidate, bg.color) >= bg.required);
+
+  for (let delta = step; delta <= 100; delta += step) {
+    for (const direction of [-1, 1]) {
+      const l = color.l + direction * delta;
+      if (l < 0 || l > 100) continue;
+      const candidate = { ...color, l };
+      if (satisfies(candidate)) return candidate;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Apply a subset of adjustments to a theme definition
+ */
+export function applyTokenAdjustments<T extends { tokens: ThemeTokens }>(
+  definition: T,
+  adjustments: TokenAdjustment[]
+): T {
+  const tokens = { ...definition.tokens };
+  for (const adjustment of adjustments) {
+    tokens[adjustment.token] = adjustment.to;
+  }
+  return { ...definition, tokens };
+}
+
+/**
+ * Propose minimally-adjusted tokens for pairs that fail contrast.
+ *
+ * Only the lightness of adjustable foreground tokens is moved; every pair a
+ * token takes part in is considered together, so fixing `success` on `bg`
+ * does not break `success` on `successMuted`.
+ *
+ * @example
+ * ```ts
+ * const { definition, adjustments } = repairThemeContrast(myTheme, { standard: 'WCAG-AA' });
+ * // adjustments: [{ token: 'textMuted', from: '215 20% 58%', to: '215 20% 63%', lightnessDelta: 5, ... }]
+ * ```
+ */
+export function repairThemeContrast<T extends { name: string; tokens: ThemeTokens }>(
+  theme: T,
+  options: ContrastRepairOptions = {}
+): ContrastRepairResult<T> {
+  const { adjustable = REPAIRABLE_TOKENS, step = 0.5, ...auditOptions } = options;
+  const pairs = auditOptions.pairs ?? DEFAULT_CONTRAST_PAIRS;
+  const initial = auditThemeContrast(theme, auditOptions);
+  const adjustments: TokenAdjustment[] = [];
+
+  const failingTokens = new Set(
+    initial.failures
+      .map(failure => failure.foreground)
+      .filter(token => adjustable.includes(token))
+  );
+
+  for (const token of failingTokens) {
+    const color = parseHSL(theme.tokens[token]);
+    if (!color) continue;
+
+    const tokenResults = initial.results.filter(result => result.foreground === token);
+    const backgrounds = tokenResults.flatMap((result) => {
+      const bg = parseHSL(theme.tokens[result.background]);
+      return bg ? [{ color: bg, required: result.required }] : [];
+    });
+
+    const repaired = findMinimalLightness(color, backgrounds, step);
+    if (!repaired) continue;
+
+    adjustments.push({
+      token,
+      from: theme.tokens[token],
+      to: formatHSL(repaired),
+      lightnessDelta: Math.round((repaired.l - color.l) * 10) / 10,
+      fixes: tokenResults
+        .filter(result => !result.passes)
+        .map(result => `${result.foreground}/${result.background}`),
+    });
+  }
+
+  const definition = applyTokenAdjustments(theme, adjustments);
+  const report = auditThemeContrast(definition, { ...auditOptions, pairs });
+
+  return {
+    definition,
+    adjustments,
+    unresolved: report.failures,
+    report,
+  };
+}
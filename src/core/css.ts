@@ -0,0 +1,251 @@
+/**
+ * Theme CSS Emission
+ *
+ * Pure functions that turn a theme pack into CSS custom properties.
+ * Used by `ThemeEngine.applyTheme` in the browser and by servers that
+ * need to inline the theme in `<head>` before hydration.
+ */
+
+import type { ThemePack, ThemeMode, PageContext } from './types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * CSS variable name -> value
+ */
+export type ThemeCSSVariables = Record<string, string>;
+
+/**
+ * HTML attributes that identify the active theme on the root element
+ */
+export interface ThemeAttributes {
+  'data-theme': string;
+  'data-theme-mode': ThemeMode;
+  'data-context': PageContext;
+  /** Tailwind dark-mode class (only present for dark themes) */
+  class?: string;
+}
+
+/**
+ * Options for CSS string generation
+ */
+export interface ThemeCSSOptions {
+  /**
+   * Selector the variables are scoped to.
+   * Defaults to `[data-theme="..."][data-context="..."]`.
+   */
+  selector?: string;
+  /** Also emit the variables on `:root` so the first paint is themed */
+  includeRoot?: boolean;
+  /** Emit the declarations without whitespace */
+  minify?: boolean;
+}
+
+/**
+ * Options for compiling a multi-theme stylesheet
+ */
+export interface ThemeStylesheetOptions {
+  /** Contexts to emit a block for (default: product and marketing) */
+  contexts?: PageContext[];
+  /** Theme (name or key) whose variables are also emitted on `:root` */
+  defaultTheme?: string;
+  /** Context used for the `:root` fallback block */
+  defaultContext?: PageContext;
+  /** Emit the stylesheet without whitespace */
+  minify?: boolean;
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Convert a theme name to its registry key / `data-theme` value
+ */
+export function toThemeKey(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Convert camelCase to kebab-case
+ */
+function toKebabCase(value: string): string {
+  return value.replace(/([A-Z])/g, '-$1').toLowerCase();
+}
+
+// =============================================================================
+// VARIABLE MAP
+// =============================================================================
+
+/**
+ * Build the complete `--ds-*` variable map for a theme pack
+ */
+export function getThemeVariables(theme: ThemePack): ThemeCSSVariables {
+  const { tokens } = theme;
+  const vars: ThemeCSSVariables = {
+    // Core colors (HSL values)
+    '--ds-bg': tokens.bg,
+    '--ds-surface': tokens.surface,
+    '--ds-surface-2': tokens.surface2,
+    '--ds-surface-inset': tokens.surfaceInset,
+    '--ds-border': tokens.border,
+    '--ds-border-subtle': tokens.borderSubtle,
+    '--ds-text': tokens.text,
+    '--ds-text-muted': tokens.textMuted,
+    '--ds-accent': tokens.accent,
+    '--ds-accent-foreground': tokens.accentFg,
+    '--ds-accent-muted': tokens.accentMuted,
+    '--ds-accent-secondary': tokens.accentSecondary,
+    '--ds-ring': tokens.ring,
+
+    // Semantic colors
+    '--ds-success': tokens.success,
+    '--ds-success-muted': tokens.successMuted,
+    '--ds-warning': tokens.warning,
+    '--ds-warning-muted': tokens.warningMuted,
+    '--ds-danger': tokens.danger,
+    '--ds-danger-muted': tokens.dangerMuted,
+
+    // Shadows
+    '--ds-shadow-surface': tokens.shadowSurface,
+    '--ds-shadow-popover': tokens.shadowPopover,
+    '--ds-shadow-glow': tokens.shadowGlow,
+
+    // Radii
+    '--ds-radius-surface': tokens.radiusSurface,
+    '--ds-radius-control': tokens.radiusControl,
+  };
+
+  // Type scale
+  Object.entries(tokens.typeScale).forEach(([key, value]) => {
+    vars[`--ds-type-${key}-size`] = value.fontSize;
+    vars[`--ds-type-${key}-weight`] = value.fontWeight;
+    vars[`--ds-type-${key}-tracking`] = value.letterSpacing;
+    vars[`--ds-type-${key}-leading`] = value.lineHeight;
+    if (value.textTransform) {
+      vars[`--ds-type-${key}-transform`] = value.textTransform;
+    }
+  });
+
+  // Density
+  Object.entries(tokens.density).forEach(([key, value]) => {
+    vars[`--ds-density-${toKebabCase(key)}`] = value;
+  });
+
+  return vars;
+}
+
+/**
+ * Build the attribute map to put on `<html>` (or any themed root)
+ */
+export function getThemeAttributes(theme: ThemePack, context: PageContext = 'product'): ThemeAttributes {
+  const attributes: ThemeAttributes = {
+    'data-theme': toThemeKey(theme.name),
+    'data-theme-mode': theme.mode,
+    'data-context': context,
+  };
+
+  if (theme.mode === 'dark') {
+    attributes.class = 'dark';
+  }
+
+  return attributes;
+}
+
+// =============================================================================
+// CSS STRING
+// =============================================================================
+
+/**
+ * Get the attribute selector matching a theme + context
+ */
+export function getThemeSelector(theme: ThemePack, context: PageContext = 'product'): string {
+  return `[data-theme="${toThemeKey(theme.name)}"][data-context="${context}"]`;
+}
+
+/**
+ * Serialize a declaration map into a CSS rule block
+ */
+export function variablesToCSS(selector: string, declarations: ThemeCSSVariables, minify = false): string {
+  const entries = Object.entries(declarations);
+  if (minify) {
+    return `${selector}{${entries.map(([key, value]) => `${key}:${value}`).join(';')}}`;
+  }
+  const body = entries.map(([key, value]) => `  ${key}: ${value};`).join('\n');
+  return `${selector} {\n${body}\n}`;
+}
+
+/**
+ * Generate a complete CSS string for a theme pack in a given context.
+ *
+ * @example
+ * ```ts
+ * const css = generateThemeCSS(theme, 'marketing', { includeRoot: true });
+ * const attrs = getThemeAttributes(theme, 'marketing');
+ * // <html {...attrs}><head><style>{css}</style></head>...
+ * ```
+ */
+export function generateThemeCSS(
+  theme: ThemePack,
+  context: PageContext = 'product',
+  options: ThemeCSSOptions = {}
+): string {
+  const { includeRoot = false, minify = false } = options;
+  const selector = options.selector ?? getThemeSelector(theme, context);
+  const fullSelector = includeRoot ? `:root, ${selector}` : selector;
+
+  const declarations: ThemeCSSVariables = {
+    'color-scheme': theme.mode,
+    ...getThemeVariables(theme),
+  };
+
+  return variablesToCSS(minify ? fullSelector.replace(/,\s+/g, ',') : fullSelector, declarations, minify);
+}
+
+// =============================================================================
+// STYLESHEET COMPILER
+// =============================================================================
+
+/**
+ * Compile one stylesheet containing every theme × context as scoped
+ * selector blocks. Switching themes at runtime then only requires
+ * changing the `data-theme` / `data-context` attributes.
+ *
+ * @example
+ * ```ts
+ * const css = compileThemeStylesheet(
+ *   [chronicleDark, hospitalityWarm, opsCalm].map(normalizeThemePack),
+ *   { defaultTheme: 'chronicle-dark' }
+ * );
+ * writeFileSync('public/themes.css', css);
+ * ```
+ */
+export function compileThemeStylesheet(
+  themes: ThemePack[],
+  options: ThemeStylesheetOptions = {}
+): string {
+  const {
+    contexts = ['product', 'marketing'],
+    defaultContext = 'product',
+    minify = false,
+  } = options;
+  const blocks: string[] = [];
+
+  if (options.defaultTheme) {
+    const defaultKey = toThemeKey(options.defaultTheme);
+    const fallback = themes.find(theme => toThemeKey(theme.name) === defaultKey);
+    if (fallback) {
+      blocks.push(generateThemeCSS(fallback, defaultContext, { selector: ':root', minify }));
+    }
+  }
+
+  for (const theme of themes) {
+    for (const context of contexts) {
+      blocks.push(generateThemeCSS(theme, context, { minify }));
+    }
+  }
+
+  return blocks.join(minify ? '' : '\n\n');
+}
@@ -18,7 +18,21 @@ import type {
   MotionRecipes,
   ContextRecipes,
   LegacyRecipes,
+  ThemeInput,
+  ThemeExtension,
+  PartialProductRecipes,
+  PartialMarketingRecipes,
+  DeepPartial,
 } from './types';
+import { getThemeVariables, getThemeAttributes, toThemeKey, compileThemeStylesheet, generateThemeCSS } from './css';
+import type { ThemeStylesheetOptions } from './css';
+import { validateThemeDefinition, ThemeValidationError } from './validation';
+import { deriveThemeVariant, getThemeFamily, getOppositeMode } from './variants';
+import type { ThemeVariantOptions } from './variants';
+import { resolveThemeDefinition } from './inheritance';
+import { deepMerge, toContextRecipes } from './merge';
+import { transitionCSSVariables, getMotionTransition, DEFAULT_TRANSITION_TIMING } from './transition';
+import type { CSSTransitionOptions, CSSTransitionHandle } from './transition';
 
 // =============================================================================
 // DEFAULT RECIPES
@@ -150,7 +164,7 @@ function getMarketingNarrativeRecipes(mode: ThemeMode) {
       layers: [
         {
           type: 'grid' as const,
-          opacity: isDark ? 0.03 : 0.02,
+          opacity: isDark ? 0.06 : 0.04,
           color: isDark ? 'accent' : 'border',
           scale: 1,
           animate: 'none' as const,
@@ -158,7 +172,7 @@ function getMarketingNarrativeRecipes(mode: ThemeMode) {
         },
         {
           type: 'glowField' as const,
-          opacity: isDark ? 0.15 : 0.08,
+          opacity: isDark ? 0.3 : 0.16,
           color: 'accent',
           blur: 120,
           scale: 1.5,
@@ -167,21 +181,23 @@ function getMarketingNarrativeRecipes(mode: ThemeMode) {
         },
         {
           type: 'noise' as const,
-          opacity: isDark ? 0.02 : 0.015,
+          opacity: isDark ? 0.04 : 0.03,
           color: 'text',
           scale: 1,
           animate: 'none' as const,
           zIndex: 2,
         },
       ],
-      intensity: 1,
+      // Layer opacities are at full strength; half intensity leaves the
+      // abstraction tuner room to raise them
+      intensity: 0.5,
       audienceOverrides: {
         'hotel-owner': [
-          { type: 'glowField' as const, opacity: isDark ? 0.18 : 0.1, color: 'accent' },
+          { type: 'glowField' as const, opacity: isDark ? 0.36 : 0.2, color: 'accent' },
         ],
         'developer': [
-          { type: 'grid' as const, opacity: isDark ? 0.05 : 0.03 },
-          { type: 'signalPaths' as const, opacity: isDark ? 0.08 : 0.04, color: 'accent' },
+          { type: 'grid' as const, opacity: isDark ? 0.1 : 0.06 },
+          { type: 'signalPaths' as const, opacity: isDark ? 0.16 : 0.08, color: 'accent' },
         ],
       },
     },
@@ -260,26 +276,28 @@ function getMarketingNarrativeRecipes(mode: ThemeMode) {
 // =============================================================================
 
 /**
- * Transform legacy theme packs to new structure
+ * Transform theme definitions and legacy theme packs to the new structure.
+ *
+ * Recipes may be flat product recipes (legacy) or `{ product, marketing }`
+ * overrides. Either part is deep-merged onto the defaults, and marketing
+ * defaults are derived from the product recipes.
  */
-export function normalizeThemePack(raw: Partial<ThemePack> & { name: string; mode: ThemeMode; tokens: ThemeTokens }): ThemePack {
-  // If already has product/marketing structure, use as-is
-  if (raw.recipes && 'product' in raw.recipes && 'marketing' in raw.recipes) {
-    return raw as ThemePack;
-  }
-
-  // Legacy format: wrap existing recipes as product, generate marketing defaults
-  const productRecipes = raw.recipes as Omit<ProductRecipes, 'media' | 'motion'>;
+export function normalizeThemePack(raw: ThemeInput): ThemePack {
+  const overrides = toContextRecipes<PartialProductRecipes, PartialMarketingRecipes>(raw.recipes);
+  const productRecipes = (overrides.product ?? {}) as Omit<ProductRecipes, 'media' | 'motion'>;
   const mode = raw.mode;
 
   // Build complete product recipes with media/motion
-  const fullProductRecipes: ProductRecipes = {
-    ...productRecipes,
-    media: getProductMediaRecipes(mode),
-    motion: getProductMotionRecipes(),
-  };
+  const fullProductRecipes = deepMerge<ProductRecipes>(
+    {
+      ...productRecipes,
+      media: getProductMediaRecipes(mode),
+      motion: getProductMotionRecipes(),
+    },
+    overrides.product as DeepPartial<ProductRecipes>
+  );
 
-  const marketingRecipes: MarketingRecipes = {
+  const marketingDefaults: MarketingRecipes = {
     AppShell: {
       ...productRecipes.AppShell,
       backgroundTreatment: productRecipes.AppShell?.backgroundTreatment === 'chronicle' ? 'chronicle' : 'none',
@@ -348,8 +366,12 @@ export function normalizeThemePack(raw: Partial<ThemePack> & { name: string; mod
     ...getMarketingNarrativeRecipes(mode),
   };
 
+  // Theme-specific marketing overrides (hero, motifs, signature blocks, ...)
+  const marketingRecipes = deepMerge<MarketingRecipes>(marketingDefaults, overrides.marketing);
+
   return {
     name: raw.name,
+    ...(raw.family ? { family: raw.family } : {}),
     mode: raw.mode,
     tokens: raw.tokens,
     recipes: {
@@ -359,6 +381,65 @@ export function normalizeThemePack(raw: Partial<ThemePack> & { name: string; mod
   };
 }
 
+// =============================================================================
+// SCOPED THEMING
+// =============================================================================
+
+/**
+ * Element or shadow root a theme can be applied to
+ */
+export type ThemeScopeTarget = HTMLElement | ShadowRoot;
+
+/**
+ * Theme and context applied to a scope
+ */
+export interface ThemeScopeState {
+  theme: ThemePack;
+  context: PageContext;
+}
+
+const SCOPE_STYLE_ATTRIBUTE = 'data-taste-theme';
+
+function isShadowRoot(target: ThemeScopeTarget): target is ShadowRoot {
+  return typeof ShadowRoot !== 'undefined' && target instanceof ShadowRoot;
+}
+
+/**
+ * Write theme attributes, dark class and variables onto an element
+ */
+function writeThemeToElement(element: HTMLElement, theme: ThemePack, context: PageContext): void {
+  // Set theme mode and context
+  const attributes = getThemeAttributes(theme, context);
+  element.setAttribute('data-theme', attributes['data-theme']);
+  element.setAttribute('data-theme-mode', attributes['data-theme-mode']);
+  element.setAttribute('data-context', attributes['data-context']);
+
+  // Apply dark/light class for Tailwind
+  if (theme.mode === 'dark') {
+    element.classList.add('dark');
+  } else {
+    element.classList.remove('dark');
+  }
+
+  // Apply tokens as CSS variables
+  Object.entries(getThemeVariables(theme)).forEach(([key, value]) => {
+    element.style.setProperty(key, value);
+  });
+}
+
+/**
+ * Inject (or update) a `:host` stylesheet carrying the theme variables
+ */
+function writeThemeToShadowRoot(root: ShadowRoot, theme: ThemePack, context: PageContext): void {
+  let style = root.querySelector<HTMLStyleElement>(`style[${SCOPE_STYLE_ATTRIBUTE}]`);
+  if (!style) {
+    style = document.createElement('style');
+    style.setAttribute(SCOPE_STYLE_ATTRIBUTE, '');
+    root.prepend(style);
+  }
+  style.textContent = generateThemeCSS(theme, context, { selector: ':host' });
+}
+
 // =============================================================================
 // THEME ENGINE CLASS
 // =============================================================================
@@ -368,18 +449,114 @@ export function normalizeThemePack(raw: Partial<ThemePack> & { name: string; mod
  */
 export class ThemeEngine {
   private themes: Map<string, ThemePack> = new Map();
+  private definitions: Map<string, ThemeInput | ThemeExtension> = new Map();
   private currentTheme: ThemePack | null = null;
   private currentContext: PageContext = 'product';
+  private scopes: WeakMap<ThemeScopeTarget, ThemeScopeState> = new WeakMap();
+  private transitions: WeakMap<HTMLElement, CSSTransitionHandle> = new WeakMap();
 
   /**
-   * Register a theme pack
+   * Register a theme pack. Definitions with `extends` are merged onto the
+   * registered parent now; re-registering the parent later does not
+   * change already-registered children.
+   *
+   * @throws {ThemeValidationError} if the theme has invalid tokens or recipes
+   * @throws {Error} if `extends` names an unknown theme or forms a cycle
    */
-  registerTheme(raw: Partial<ThemePack> & { name: string; mode: ThemeMode; tokens: ThemeTokens }): void {
-    const normalized = normalizeThemePack(raw);
-    const key = normalized.name.toLowerCase().replace(/\s+/g, '-');
+  registerTheme(raw: ThemeInput | ThemeExtension): void {
+    const normalized = this.resolveTheme(raw);
+    const key = toThemeKey(normalized.name);
+    this.definitions.set(key, raw);
     this.themes.set(key, normalized);
   }
 
+  /**
+   * Resolve, validate and normalize a definition without registering it,
+   * to inspect the fully merged pack an `extends` chain produces
+   *
+   * @throws {ThemeValidationError} if the resolved theme is invalid
+   * @throws {Error} if `extends` names an unknown theme or forms a cycle
+   */
+  resolveTheme(raw: ThemeInput | ThemeExtension): ThemePack {
+    const definition = this.resolveDefinition(raw);
+    const validation = validateThemeDefinition(definition);
+    if (!validation.valid) {
+      throw new ThemeValidationError(raw.name, validation.errors);
+    }
+    return normalizeThemePack(definition);
+  }
+
+  /**
+   * Get the definition a theme was registered with, before `extends`
+   * was resolved
+   */
+  getThemeDefinition(name: string): ThemeInput | ThemeExtension | null {
+    return this.definitions.get(toThemeKey(name)) ?? null;
+  }
+
+  private resolveDefinition(raw: ThemeInput | ThemeExtension): ThemeInput {
+    return resolveThemeDefinition(raw, name => this.definitions.get(toThemeKey(name)));
+  }
+
+  /**
+   * Register a theme together with its derived opposite-mode variant.
+   * Both members share the same family name. An already-registered variant
+   * is kept as-is, so hand-tuned counterparts win over derived ones.
+   *
+   * @returns Registry keys of the dark and light members
+   */
+  registerThemeFamily(
+    raw: ThemeInput | ThemeExtension,
+    options: ThemeVariantOptions = {}
+  ): Record<ThemeMode, string> {
+    const family = options.family ?? getThemeFamily(raw);
+    this.registerTheme({ ...raw, family });
+    const primary = { ...this.resolveDefinition(raw), family };
+
+    const existing = this.getThemeVariant(primary.name, getOppositeMode(primary.mode));
+    const variant = existing ?? deriveThemeVariant(primary, { ...options, family });
+    if (!existing) {
+      this.registerTheme(variant);
+    }
+
+    const keys = { [primary.mode]: toThemeKey(primary.name), [variant.mode]: toThemeKey(variant.name) };
+    return keys as Record<ThemeMode, string>;
+  }
+
+  /**
+   * Find the registered member of a theme's family with the given mode
+   */
+  getThemeVariant(theme: ThemePack | string, mode: ThemeMode): ThemePack | null {
+    const source = typeof theme === 'string' ? this.themes.get(toThemeKey(theme)) : theme;
+    if (!source) return null;
+    if (source.mode === mode) return source;
+
+    const family = getThemeFamily(source);
+    for (const candidate of this.themes.values()) {
+      if (candidate.mode === mode && getThemeFamily(candidate) === family) {
+        return candidate;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Switch the document (or a scope) to the opposite-mode member of the
+   * current theme's family, keeping the current context
+   *
+   * @returns The applied variant, or null if the family has no counterpart
+   */
+  toggleThemeMode(target?: ThemeScopeTarget): ThemePack | null {
+    const state = this.getScopeTheme(target);
+    if (!state) return null;
+
+    const variant = this.getThemeVariant(state.theme, getOppositeMode(state.theme.mode));
+    if (!variant) return null;
+
+    this.applyTheme(variant, state.context, target);
+    return variant;
+  }
+
   /**
    * Get list of available theme names
    */
@@ -387,11 +564,18 @@ export class ThemeEngine {
     return Array.from(this.themes.keys());
   }
 
+  /**
+   * Compile a static stylesheet for every registered theme × context
+   */
+  compileStylesheet(options: ThemeStylesheetOptions = {}): string {
+    return compileThemeStylesheet(Array.from(this.themes.values()), options);
+  }
+
   /**
    * Load a theme pack by name
    */
   loadTheme(name: string): ThemePack | null {
-    const key = name.toLowerCase().replace(/\s+/g, '-');
+    const key = toThemeKey(name);
     const theme = this.themes.get(key);
     if (!theme) {
       console.warn(`Theme "${name}" not found. Available: ${this.getAvailableThemes().join(', ')}`);
@@ -429,86 +613,123 @@ export class ThemeEngine {
   }
 
   /**
-   * Apply a theme pack to the document
+   * Apply a theme pack to the document, or to a scoped element subtree.
+   *
+   * Without a target the theme is written to `document.documentElement` and
+   * becomes the engine's current theme. With a target element the variables
+   * and attributes are written to that element only; with a shadow root they
+   * are injected as a `:host` stylesheet.
    */
-  applyTheme(theme: ThemePack, context: PageContext = 'product'): void {
-    this.currentTheme = theme;
-    this.currentContext = context;
+  applyTheme(theme: ThemePack, context: PageContext = 'product', target?: ThemeScopeTarget): void {
+    const scoped = target !== undefined && !this.isDocumentRoot(target);
 
-    if (typeof document === 'undefined') return;
+    if (scoped) {
+      this.scopes.set(target, { theme, context });
+    } else {
+      this.currentTheme = theme;
+      this.currentContext = context;
+    }
 
-    const root = document.documentElement;
+    if (typeof document === 'undefined') return;
 
-    // Set theme mode and context
-    root.setAttribute('data-theme', theme.name.toLowerCase().replace(/\s+/g, '-'));
-    root.setAttribute('data-theme-mode', theme.mode);
-    root.setAttribute('data-context', context);
+    // A running transition would overwrite the new variables
+    const element = scoped ? target : document.documentElement;
+    if (!isShadowRoot(element)) this.transitions.get(element)?.cancel();
 
-    // Apply dark/light class for Tailwind
-    if (theme.mode === 'dark') {
-      root.classList.add('dark');
+    if (scoped && isShadowRoot(target)) {
+      writeThemeToShadowRoot(target, theme, context);
     } else {
-      root.classList.remove('dark');
+      writeThemeToElement(scoped ? (target as HTMLElement) : document.documentElement, theme, context);
     }
 
-    // Apply color tokens as CSS variables
-    const { tokens } = theme;
-
-    // Core colors (HSL values)
-    root.style.setProperty('--ds-bg', tokens.bg);
-    root.style.setProperty('--ds-surface', tokens.surface);
-    root.style.setProperty('--ds-surface-2', tokens.surface2);
-    root.style.setProperty('--ds-surface-inset', tokens.surfaceInset);
-    root.style.setProperty('--ds-border', tokens.border);
-    root.style.setProperty('--ds-border-subtle', tokens.borderSubtle);
-    root.style.setProperty('--ds-text', tokens.text);
-    root.style.setProperty('--ds-text-muted', tokens.textMuted);
-    root.style.setProperty('--ds-accent', tokens.accent);
-    root.style.setProperty('--ds-accent-foreground', tokens.accentFg);
-    root.style.setProperty('--ds-accent-muted', tokens.accentMuted);
-    root.style.setProperty('--ds-accent-secondary', tokens.accentSecondary);
-    root.style.setProperty('--ds-ring', tokens.ring);
-
-    // Semantic colors
-    root.style.setProperty('--ds-success', tokens.success);
-    root.style.setProperty('--ds-success-muted', tokens.successMuted);
-    root.style.setProperty('--ds-warning', tokens.warning);
-    root.style.setProperty('--ds-warning-muted', tokens.warningMuted);
-    root.style.setProperty('--ds-danger', tokens.danger);
-    root.style.setProperty('--ds-danger-muted', tokens.dangerMuted);
-
-    // Shadows
-    root.style.setProperty('--ds-shadow-surface', tokens.shadowSurface);
-    root.style.setProperty('--ds-shadow-popover', tokens.shadowPopover);
-    root.style.setProperty('--ds-shadow-glow', tokens.shadowGlow);
-
-    // Radii
-    root.style.setProperty('--ds-radius-surface', tokens.radiusSurface);
-    root.style.setProperty('--ds-radius-control', tokens.radiusControl);
-
-    // Type scale
-    Object.entries(tokens.typeScale).forEach(([key, value]) => {
-      root.style.setProperty(`--ds-type-${key}-size`, value.fontSize);
-      root.style.setProperty(`--ds-type-${key}-weight`, value.fontWeight);
-      root.style.setProperty(`--ds-type-${key}-tracking`, value.letterSpacing);
-      root.style.setProperty(`--ds-type-${key}-leading`, value.lineHeight);
-      if (value.textTransform) {
-        root.style.setProperty(`--ds-type-${key}-transform`, value.textTransform);
-      }
-    });
+    // Dispatch event for components that need to react
+    if (scoped) {
+      const eventTarget = isShadowRoot(target) ? target.host : target;
+      eventTarget.dispatchEvent(new CustomEvent('themechange', { detail: { theme, context, target } }));
+    } else if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent('themechange', { detail: { theme, context } }));
+    }
+
+    console.log(`[TasteEngine] Applied: ${theme.name} (${theme.mode} mode, ${context} context${scoped ? ', scoped' : ''})`);
+  }
+
+  /**
+   * Apply a theme, cross-fading the `--ds-*` variables from the theme
+   * currently applied to the target. Timing defaults to the new theme's
+   * `motion.durations.normal` and `easings.default` for the context;
+   * reduced motion, shadow roots and a first application apply instantly.
+   *
+   * @example
+   * ```ts
+   * await themeEngine.transitionTheme(hospitalityWarm, 'marketing').finished;
+   * ```
+   */
+  transitionTheme(
+    theme: ThemePack,
+    context: PageContext = 'product',
+    target?: ThemeScopeTarget,
+    options: CSSTransitionOptions = {}
+  ): CSSTransitionHandle {
+    const previous = this.getScopeTheme(target);
+    this.applyTheme(theme, context, target);
+
+    const element = target === undefined
+      ? (typeof document === 'undefined' ? null : document.documentElement)
+      : isShadowRoot(target) ? null : target as HTMLElement;
+    if (!previous || !element) {
+      return { cancel: () => {}, finished: Promise.resolve() };
+    }
 
-    // Density
-    Object.entries(tokens.density).forEach(([key, value]) => {
-      const kebabKey = key.replace(/([A-Z])/g, '-$1').toLowerCase();
-      root.style.setProperty(`--ds-density-${kebabKey}`, value);
+    const motion = this.getRecipesForContext(theme, context).motion;
+    const timing = motion ? getMotionTransition(motion) : DEFAULT_TRANSITION_TIMING;
+    const handle = transitionCSSVariables(
+      element,
+      getThemeVariables(previous.theme),
+      getThemeVariables(theme),
+      { ...timing, ...options }
+    );
+    this.transitions.set(element, handle);
+    handle.finished.then(() => {
+      if (this.transitions.get(element) === handle) this.transitions.delete(element);
     });
+    return handle;
+  }
 
-    // Dispatch event for components that need to react
-    if (typeof window !== 'undefined') {
-      window.dispatchEvent(new CustomEvent('themechange', { detail: { theme, context } }));
+  /**
+   * Get the theme applied to a scope (falls back to the document theme)
+   */
+  getScopeTheme(target?: ThemeScopeTarget): ThemeScopeState | null {
+    if (target !== undefined && !this.isDocumentRoot(target)) {
+      return this.scopes.get(target) ?? null;
     }
+    return this.currentTheme ? { theme: this.currentTheme, context: this.currentContext } : null;
+  }
+
+  /**
+   * Remove a scoped theme from its target element or shadow root
+   */
+  clearTheme(target: ThemeScopeTarget): void {
+    const state = this.scopes.get(target);
+    this.scopes.delete(target);
+
+    if (!state || typeof document === 'undefined') return;
+
+    if (isShadowRoot(target)) {
+      target.querySelector(`style[${SCOPE_STYLE_ATTRIBUTE}]`)?.remove();
+      return;
+    }
+
+    target.removeAttribute('data-theme');
+    target.removeAttribute('data-theme-mode');
+    target.removeAttribute('data-context');
+    target.classList.remove('dark');
+    Object.keys(getThemeVariables(state.theme)).forEach((key) => {
+      target.style.removeProperty(key);
+    });
+  }
 
-    console.log(`[TasteEngine] Applied: ${theme.name} (${theme.mode} mode, ${context} context)`);
+  private isDocumentRoot(target: ThemeScopeTarget): boolean {
+    return typeof document !== 'undefined' && target === document.documentElement;
   }
 
   /**
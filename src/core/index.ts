@@ -6,3 +6,11 @@
 
 export * from './types';
 export * from './engine';
+export * from './css';
+export * from './validation';
+export * from './color';
+export * from './contrast';
+export * from './variants';
+export * from './merge';
+export * from './inheritance';
+export * from './transition';
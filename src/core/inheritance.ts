@@ -0,0 +1,122 @@
+/**
+ * Theme Inheritance
+ *
+ * Resolves `extends` chains so a client variant can be written as
+ * "like hospitality-warm, but with a different accent and tighter density"
+ * instead of copying the whole theme file.
+ */
+
+import type {
+  ThemeInput,
+  ThemeExtension,
+  ProductRecipes,
+  MarketingRecipes,
+  PartialProductRecipes,
+  PartialMarketingRecipes,
+  ContextRecipeOverrides,
+  DeepPartial,
+} from './types';
+import { deepMerge, toContextRecipes } from './merge';
+import { toThemeKey } from './css';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Looks up the raw definition of a registered theme by name
+ */
+export type ThemeDefinitionLookup = (name: string) => ThemeInput | ThemeExtension | null | undefined;
+
+// =============================================================================
+// MERGING
+// =============================================================================
+
+/**
+ * Check whether a definition inherits from another theme
+ */
+export function isThemeExtension(raw: ThemeInput | ThemeExtension): raw is ThemeExtension {
+  return typeof (raw as ThemeExtension).extends === 'string';
+}
+
+/**
+ * Merge an extension's recipes onto its parent's, context by context.
+ * Flat recipes on either side count as product recipes.
+ */
+function mergeRecipes(
+  base: ThemeInput['recipes'],
+  override: ThemeExtension['recipes']
+): ThemeInput['recipes'] {
+  if (!override) return base;
+
+  const parent = toContextRecipes<PartialProductRecipes, PartialMarketingRecipes>(base);
+  const child = toContextRecipes<DeepPartial<ProductRecipes>, PartialMarketingRecipes>(override);
+
+  return {
+    product: deepMerge<ProductRecipes>((parent.product ?? {}) as ProductRecipes, child.product),
+    ...(parent.marketing || child.marketing
+      ? { marketing: deepMerge<MarketingRecipes>((parent.marketing ?? {}) as MarketingRecipes, child.marketing) }
+      : {}),
+  } as ContextRecipeOverrides;
+}
+
+/**
+ * Merge an extension onto its (already resolved) parent.
+ * The parent's family is not inherited: a client variant is its own theme.
+ */
+export function mergeThemeDefinitions(parent: ThemeInput, extension: ThemeExtension): ThemeInput {
+  const { family: _parentFamily, ...base } = parent;
+
+  return {
+    ...base,
+    name: extension.name,
+    ...(extension.family ? { family: extension.family } : {}),
+    mode: extension.mode ?? parent.mode,
+    tokens: deepMerge(parent.tokens, extension.tokens),
+    recipes: mergeRecipes(parent.recipes, extension.recipes),
+  } as ThemeInput;
+}
+
+// =============================================================================
+// RESOLUTION
+// =============================================================================
+
+function resolveChain(
+  raw: ThemeInput | ThemeExtension,
+  lookup: ThemeDefinitionLookup,
+  chain: string[]
+): ThemeInput {
+  if (!isThemeExtension(raw)) return raw;
+
+  const parentKey = toThemeKey(raw.extends);
+  if (chain.includes(parentKey)) {
+    throw new Error(`Theme inheritance cycle: ${[...chain, parentKey].join(' -> ')}`);
+  }
+
+  const parent = lookup(raw.extends);
+  if (!parent) {
+    throw new Error(`Theme "${raw.name}" extends unknown theme "${raw.extends}"`);
+  }
+
+  return mergeThemeDefinitions(resolveChain(parent, lookup, [...chain, parentKey]), raw);
+}
+
+/**
+ * Resolve a theme's `extends` chain into a complete definition.
+ *
+ * @throws {Error} if a parent is missing or the chain contains a cycle
+ *
+ * @example
+ * ```ts
+ * const resolved = resolveThemeDefinition(
+ *   { name: 'Harbor Suites', extends: 'hospitality-warm', tokens: { accent: '200 70% 40%' } },
+ *   name => registry.get(name)
+ * );
+ * ```
+ */
+export function resolveThemeDefinition(
+  raw: ThemeInput | ThemeExtension,
+  lookup: ThemeDefinitionLookup
+): ThemeInput {
+  return resolveChain(raw, lookup, [toThemeKey(raw.name)]);
+}
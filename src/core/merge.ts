@@ -0,0 +1,66 @@
+/**
+ * Deep Merge
+ *
+ * Merges partial theme data (tokens, type scale, density, recipes) onto a
+ * base. Plain objects merge key by key; arrays and primitives replace.
+ */
+
+import type { DeepPartial } from './types';
+
+// =============================================================================
+// MERGE
+// =============================================================================
+
+/**
+ * Check whether a value is a plain object (not an array, null or class instance)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep-merge `override` onto `base` without mutating either.
+ * `undefined` values in the override are ignored.
+ *
+ * @example
+ * ```ts
+ * deepMerge(
+ *   { DataTable: { density: 'comfortable', zebra: false } },
+ *   { DataTable: { density: 'compact' } }
+ * );
+ * // { DataTable: { density: 'compact', zebra: false } }
+ * ```
+ */
+export function deepMerge<T>(base: T, override: DeepPartial<T> | undefined): T {
+  if (override === undefined) return base;
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override as T;
+  }
+
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    result[key] = key in result ? deepMerge(result[key], value) : value;
+  }
+  return result as T;
+}
+
+// =============================================================================
+// RECIPES
+// =============================================================================
+
+/**
+ * Split theme recipes into per-context parts. Legacy flat recipes are
+ * product recipes; `{ product, marketing }` (complete or partial) is kept.
+ */
+export function toContextRecipes<P, M>(
+  recipes: P | { product?: P; marketing?: M } | undefined
+): { product?: P; marketing?: M } {
+  if (!isPlainObject(recipes)) return {};
+  if ('product' in recipes || 'marketing' in recipes) {
+    return recipes as { product?: P; marketing?: M };
+  }
+  return { product: recipes as P };
+}
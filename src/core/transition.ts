@@ -0,0 +1,271 @@
+/**
+ * Theme Transitions
+ *
+ * Interpolates CSS variable maps (HSL triples, lengths, shadows, durations)
+ * so theme and tuner changes can cross-fade instead of snapping. Timing
+ * comes from the theme's motion recipes; reduced motion skips the animation.
+ */
+
+import type { MotionRecipes } from './types';
+import { parseHSL, formatHSL } from './color';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type EasingFunction = (progress: number) => number;
+
+/**
+ * Duration and easing of a transition
+ */
+export interface TransitionTiming {
+  /** Duration in ms */
+  duration: number;
+  /** CSS easing (`cubic-bezier(...)`, `ease-out`, ...) or function */
+  easing: string | EasingFunction;
+}
+
+/**
+ * Options for animating CSS variables
+ */
+export interface CSSTransitionOptions extends Partial<TransitionTiming> {
+  /** Skip the animation (default: the `prefers-reduced-motion` setting) */
+  reducedMotion?: boolean;
+}
+
+/**
+ * A running transition
+ */
+export interface CSSTransitionHandle {
+  /** Stop and jump to the final values */
+  cancel(): void;
+  /** Resolves when the final values are written */
+  finished: Promise<void>;
+}
+
+/**
+ * Used when no motion recipe is available
+ */
+export const DEFAULT_TRANSITION_TIMING: TransitionTiming = {
+  duration: 200,
+  easing: 'cubic-bezier(0.4, 0, 0.2, 1)',
+};
+
+// =============================================================================
+// EASING
+// =============================================================================
+
+const NAMED_EASINGS: Record<string, [number, number, number, number]> = {
+  ease: [0.25, 0.1, 0.25, 1],
+  'ease-in': [0.42, 0, 1, 1],
+  'ease-out': [0, 0, 0.58, 1],
+  'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+function cubicBezier(x1: number, y1: number, x2: number, y2: number): EasingFunction {
+  const sample = (a: number, b: number, t: number) => 3 * a * t * (1 - t) ** 2 + 3 * b * t ** 2 * (1 - t) + t ** 3;
+
+  return (progress: number) => {
+    if (progress <= 0) return 0;
+    if (progress >= 1) return 1;
+
+    // Solve x(t) = progress by bisection, then evaluate y(t)
+    let low = 0;
+    let high = 1;
+    let t = progress;
+    for (let i = 0; i < 30; i++) {
+      const x = sample(x1, x2, t);
+      if (Math.abs(x - progress) < 1e-5) break;
+      if (x < progress) low = t;
+      else high = t;
+      t = (low + high) / 2;
+    }
+    return sample(y1, y2, t);
+  };
+}
+
+/**
+ * Parse a CSS easing. Unsupported values (e.g. `steps()`) fall back to linear.
+ */
+export function parseEasing(value: string): EasingFunction {
+  const trimmed = value.trim();
+  const named = NAMED_EASINGS[trimmed];
+  if (named) return cubicBezier(...named);
+
+  const match = /^cubic-bezier\(\s*([^,]+),\s*([^,]+),\s*([^,]+),\s*([^)]+)\)$/.exec(trimmed);
+  if (match) {
+    const [x1, y1, x2, y2] = match.slice(1).map(parseFloat);
+    if ([x1, y1, x2, y2].every(Number.isFinite)) return cubicBezier(x1, y1, x2, y2);
+  }
+
+  return progress => Math.max(0, Math.min(1, progress));
+}
+
+/**
+ * Timing for a context's transitions: `durations.normal` with `easings.default`
+ */
+export function getMotionTransition(motion: MotionRecipes): TransitionTiming {
+  return { duration: motion.durations.normal, easing: motion.easings.default };
+}
+
+// =============================================================================
+// INTERPOLATION
+// =============================================================================
+
+const NUMBER_PATTERN = /-?\d*\.?\d+(?:e[-+]?\d+)?/gi;
+
+function lerp(a: number, b: number, progress: number): number {
+  return a + (b - a) * progress;
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+/**
+ * Interpolate two CSS values.
+ * HSL triples take the shortest hue path; values with the same shape
+ * (lengths, shadows, durations) interpolate every number; anything else
+ * switches at the midpoint.
+ */
+export function interpolateCSSValue(from: string, to: string, progress: number): string {
+  if (from === to) return to;
+
+  const fromHSL = parseHSL(from);
+  const toHSL = parseHSL(to);
+  if (fromHSL && toHSL) {
+    const delta = ((((toHSL.h - fromHSL.h) % 360) + 540) % 360) - 180;
+    return formatHSL({
+      h: fromHSL.h + delta * progress,
+      s: lerp(fromHSL.s, toHSL.s, progress),
+      l: lerp(fromHSL.l, toHSL.l, progress),
+    });
+  }
+
+  const fromNumbers = from.match(NUMBER_PATTERN) ?? [];
+  const toNumbers = to.match(NUMBER_PATTERN) ?? [];
+  const sameShape = fromNumbers.length > 0
+    && fromNumbers.length === toNumbers.length
+    && from.replace(NUMBER_PATTERN, '#') === to.replace(NUMBER_PATTERN, '#');
+  if (sameShape) {
+    let index = 0;
+    return to.replace(NUMBER_PATTERN, () => {
+      const value = lerp(parseFloat(fromNumbers[index]), parseFloat(toNumbers[index]), progress);
+      index++;
+      return formatNumber(value);
+    });
+  }
+
+  return progress < 0.5 ? from : to;
+}
+
+/**
+ * Interpolate two variable maps. Variables missing on one side switch at
+ * the midpoint.
+ */
+export function interpolateCSSVariables(
+  from: Record<string, string>,
+  to: Record<string, string>,
+  progress: number
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    const start = from[key];
+    const end = to[key];
+    if (start !== undefined && end !== undefined) {
+      result[key] = interpolateCSSValue(start, end, progress);
+    } else if (progress < 0.5 ? start !== undefined : end !== undefined) {
+      result[key] = (progress < 0.5 ? start : end) as string;
+    }
+  }
+  return result;
+}
+
+// =============================================================================
+// ANIMATION
+// =============================================================================
+
+function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined'
+    && typeof window.matchMedia === 'function'
+    && window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+}
+
+function writeVariables(element: HTMLElement, values: Record<string, string>, previous: Record<string, string>): void {
+  for (const key of Object.keys(previous)) {
+    if (!(key in values)) element.style.removeProperty(key);
+  }
+  for (const [key, value] of Object.entries(values)) {
+    element.style.setProperty(key, value);
+  }
+}
+
+/**
+ * Animate CSS variables on an element from one map to another.
+ * Without `requestAnimationFrame`, with reduced motion or a zero duration
+ * the final values are written immediately.
+ *
+ * @example
+ * ```ts
+ * const handle = transitionCSSVariables(document.documentElement, before, after, {
+ *   duration: 300,
+ *   easing: 'cubic-bezier(0.4, 0, 0.2, 1)',
+ * });
+ * await handle.finished;
+ * ```
+ */
+export function transitionCSSVariables(
+  element: HTMLElement,
+  from: Record<string, string>,
+  to: Record<string, string>,
+  options: CSSTransitionOptions = {}
+): CSSTransitionHandle {
+  const {
+    duration = DEFAULT_TRANSITION_TIMING.duration,
+    easing = DEFAULT_TRANSITION_TIMING.easing,
+    reducedMotion = prefersReducedMotion(),
+  } = options;
+
+  let resolve: () => void = () => {};
+  const finished = new Promise<void>(done => { resolve = done; });
+  let frame: number | null = null;
+  let current = from;
+
+  const finish = () => {
+    if (frame !== null) cancelAnimationFrame(frame);
+    frame = null;
+    writeVariables(element, to, current);
+    current = to;
+    resolve();
+  };
+
+  if (reducedMotion || duration <= 0 || typeof requestAnimationFrame !== 'function') {
+    finish();
+    return { cancel: () => {}, finished };
+  }
+
+  const ease = typeof easing === 'function' ? easing : parseEasing(easing);
+  writeVariables(element, from, {});
+  let start: number | null = null;
+
+  const step = (time: number) => {
+    start ??= time;
+    const progress = Math.min(1, (time - start) / duration);
+    if (progress >= 1) {
+      finish();
+      return;
+    }
+    const values = interpolateCSSVariables(from, to, ease(progress));
+    writeVariables(element, values, current);
+    current = values;
+    frame = requestAnimationFrame(step);
+  };
+  frame = requestAnimationFrame(step);
+
+  return {
+    cancel: () => {
+      if (frame !== null) finish();
+    },
+    finished,
+  };
+}
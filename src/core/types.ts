@@ -201,6 +201,7 @@ export interface MotifLayer {
 
 export interface MotifsRecipe {
   layers: MotifLayer[];
+  /** Multiplier for layer opacities, 0-1 */
   intensity: number;
   audienceOverrides?: {
     'hotel-owner'?: Partial<MotifLayer>[];
@@ -462,11 +463,22 @@ export type LegacyRecipes = ProductRecipes;
  */
 export interface ThemePack {
   name: string;
+  /** Family shared by the dark and light variants of a theme */
+  family?: string;
   mode: ThemeMode;
   tokens: ThemeTokens;
   recipes: ThemeRecipes | LegacyRecipes;
 }
 
+/**
+ * Recursively optional version of T (arrays are replaced, not merged)
+ */
+export type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
+
 /**
  * Partial product recipes for theme definitions
  * Allows themes to define only the recipes they want to override
@@ -475,13 +487,56 @@ export type PartialProductRecipes = Partial<Omit<ProductRecipes, 'Surface'>> & {
   Surface?: Partial<ProductRecipes['Surface']>;
 };
 
+/**
+ * Partial marketing recipes for theme definitions
+ * Deep-merged onto the defaults derived from the product recipes
+ */
+export type PartialMarketingRecipes = DeepPartial<MarketingRecipes>;
+
+/**
+ * Per-context recipe overrides for theme definitions
+ */
+export interface ContextRecipeOverrides {
+  product?: PartialProductRecipes;
+  marketing?: PartialMarketingRecipes;
+}
+
 /**
  * Theme definition input - allows partial recipes
  * The engine will merge with defaults to create a complete ThemePack
  */
 export interface ThemeDefinition {
   name: string;
+  /** Family shared by the dark and light variants of a theme */
+  family?: string;
   mode: ThemeMode;
   tokens: ThemeTokens;
-  recipes?: PartialProductRecipes;
+  /** Flat product recipes (legacy), or per-context overrides */
+  recipes?: PartialProductRecipes | ContextRecipeOverrides;
 }
+
+/**
+ * Theme definition that inherits from a registered theme.
+ * Tokens, type scale, density and recipes are deep-merged onto the parent;
+ * mode defaults to the parent's mode.
+ */
+export interface ThemeExtension {
+  name: string;
+  /** Name of the registered theme to inherit from */
+  extends: string;
+  family?: string;
+  mode?: ThemeMode;
+  tokens?: DeepPartial<ThemeTokens>;
+  recipes?: DeepPartial<ProductRecipes> | {
+    product?: DeepPartial<ProductRecipes>;
+    marketing?: PartialMarketingRecipes;
+  };
+}
+
+/**
+ * Anything the engine accepts for registration: a theme definition with
+ * partial recipes, or a (possibly legacy) theme pack
+ */
+export type ThemeInput =
+  | ThemeDefinition
+  | (Partial<ThemePack> & { name: string; mode: ThemeMode; tokens: ThemeTokens });
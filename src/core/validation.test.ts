@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { validateThemeDefinition, isCSSLength, isBoxShadow, ThemeValidationError } from './validation';
+import { ThemeEngine } from './engine';
+import { chronicleDark, opsCalm, hospitalityWarm } from '../themes';
+
+const BUILT_IN_THEMES = [chronicleDark, opsCalm, hospitalityWarm];
+
+describe('validateThemeDefinition', () => {
+  it.each(BUILT_IN_THEMES.map(theme => [theme.name, theme] as const))('accepts %s', (_, theme) => {
+    const result = validateThemeDefinition(theme);
+    expect(result.errors).toEqual([]);
+    expect(result.warnings).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a non-object', () => {
+    const result = validateThemeDefinition('chronicle-dark');
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].path).toBe('');
+  });
+
+  it('addresses issues by dotted path', () => {
+    const result = validateThemeDefinition({
+      ...opsCalm,
+      mode: 'dim',
+      tokens: { ...opsCalm.tokens, bg: 'not-a-color' },
+    });
+    const paths = result.errors.map(error => error.path);
+    expect(result.valid).toBe(false);
+    expect(paths).toContain('mode');
+    expect(paths).toContain('tokens.bg');
+  });
+
+  it('rejects an empty name', () => {
+    const result = validateThemeDefinition({ ...opsCalm, name: '  ' });
+    expect(result.errors.map(error => error.path)).toContain('name');
+  });
+});
+
+describe('value checks', () => {
+  it('recognises CSS lengths', () => {
+    expect(['12px', '-0.02em', '0', '1.5rem', '100%'].every(isCSSLength)).toBe(true);
+    expect(['12', 'px', '1.5 rem', 'auto'].some(isCSSLength)).toBe(false);
+  });
+
+  it('recognises box shadows', () => {
+    expect(isBoxShadow('0 2px 8px rgba(0, 0, 0, 0.3)')).toBe(true);
+    expect(isBoxShadow('none')).toBe(true);
+    expect(isBoxShadow('big')).toBe(false);
+  });
+});
+
+describe('ThemeEngine.registerTheme', () => {
+  it('throws ThemeValidationError for an invalid theme', () => {
+    const engine = new ThemeEngine();
+    const invalid = { ...opsCalm, name: 'Broken', tokens: { ...opsCalm.tokens, accent: '#zzz' } };
+    expect(() => engine.registerTheme(invalid)).toThrow(ThemeValidationError);
+    expect(engine.getAvailableThemes()).not.toContain('broken');
+  });
+});
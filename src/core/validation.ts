@@ -0,0 +1,474 @@
+/**
+ * Theme Validation
+ *
+ * Structural checks for theme definitions before they are registered.
+ * Every issue is addressed by a dotted path (e.g. `tokens.typeScale.h1.fontSize`)
+ * so tooling can point at the offending field.
+ */
+
+import { parseHSL } from './color';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ThemeValidationSeverity = 'error' | 'warning';
+
+/**
+ * Single validation issue
+ */
+export interface ThemeValidationIssue {
+  /** Dotted path to the offending field */
+  path: string;
+  /** Human-readable description */
+  message: string;
+  /** Errors block registration, warnings do not */
+  severity: ThemeValidationSeverity;
+  /** The value that was found */
+  value?: unknown;
+}
+
+/**
+ * Validation result
+ */
+export interface ThemeValidationResult {
+  valid: boolean;
+  errors: ThemeValidationIssue[];
+  warnings: ThemeValidationIssue[];
+}
+
+/**
+ * Thrown by `ThemeEngine.registerTheme` when a theme fails validation
+ */
+export class ThemeValidationError extends Error {
+  readonly issues: ThemeValidationIssue[];
+
+  constructor(themeName: string, issues: ThemeValidationIssue[]) {
+    const summary = issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+    super(`Theme "${themeName}" is invalid:\n${summary}`);
+    this.name = 'ThemeValidationError';
+    this.issues = issues;
+  }
+}
+
+// =============================================================================
+// SCHEMA
+// =============================================================================
+
+export const COLOR_TOKEN_KEYS = [
+  'bg',
+  'surface',
+  'surface2',
+  'surfaceInset',
+  'border',
+  'borderSubtle',
+  'text',
+  'textMuted',
+  'accent',
+  'accentFg',
+  'accentMuted',
+  'accentSecondary',
+  'ring',
+  'success',
+  'successMuted',
+  'warning',
+  'warningMuted',
+  'danger',
+  'dangerMuted',
+] as const;
+
+export const SHADOW_TOKEN_KEYS = ['shadowSurface', 'shadowPopover', 'shadowGlow'] as const;
+
+export const RADIUS_TOKEN_KEYS = ['radiusSurface', 'radiusControl'] as const;
+
+export const TYPE_SCALE_KEYS = ['h1', 'h2', 'h3', 'body', 'kpi', 'kpiCompact', 'label'] as const;
+
+export const DENSITY_TOKEN_KEYS = [
+  'tableRowHeight',
+  'tableRowHeightCompact',
+  'controlHeight',
+  'controlHeightSm',
+  'pageGutter',
+  'sectionGap',
+  'cardPadding',
+  'cardPaddingCompact',
+] as const;
+
+const KNOWN_TOKEN_KEYS = new Set<string>([
+  ...COLOR_TOKEN_KEYS,
+  ...SHADOW_TOKEN_KEYS,
+  ...RADIUS_TOKEN_KEYS,
+  'typeScale',
+  'density',
+]);
+
+const TEXT_TRANSFORMS = ['none', 'uppercase', 'lowercase', 'capitalize'];
+
+const SURFACE_ENUMS: Record<string, readonly string[]> = {
+  shadowStrength: ['normal', 'strong'],
+};
+
+const MEDIA_ENUMS: Record<string, readonly string[]> = {
+  'media.icon.colorMode': ['currentColor', 'accent', 'muted'],
+  'media.placeholder.style': ['skeleton', 'blur', 'pulse'],
+  'media.placeholder.shimmerDirection': ['ltr', 'rtl'],
+  'media.backgroundMotif.heroMotif': ['none', 'gridLines', 'dots', 'noise', 'radialGlow'],
+  'motion.behavior.loadingStyle': ['shimmer', 'pulse', 'none'],
+  'motion.behavior.hoverTransition': ['none', 'fast', 'normal'],
+  'motion.behavior.entranceAnimation': ['none', 'fade', 'slideUp', 'scale'],
+};
+
+/**
+ * Enum fields of ProductRecipes, keyed by path
+ */
+const PRODUCT_RECIPE_ENUMS: Record<string, readonly string[]> = {
+  'AppShell.backgroundTreatment': ['none', 'chronicle'],
+  'StatCard.style': ['minimal', 'clean', 'accent'],
+  'StatCard.accentMode': ['none', 'single', 'perCard'],
+  'StatCard.accentElement': ['none', 'leftHairline', 'topBorder', 'dot'],
+  'SectionHeader.style': ['chronicle', 'clean'],
+  'DataTable.density': ['compact', 'comfortable'],
+  'DataTable.headerStyle': ['muted', 'muted-uppercase'],
+  'DataTable.rowHover': ['none', 'subtle'],
+  'DataTable.separatorStyle': ['none', 'faint', 'normal'],
+  'HeroHeader.style': ['chronicle', 'clean'],
+  'HeroHeader.titleSize': ['h1', 'h2'],
+  'ActivityTable.density': ['compact', 'comfortable'],
+  'ActivityTable.headerStyle': ['muted', 'muted-uppercase'],
+  'ActivityTable.rowHover': ['none', 'subtle'],
+  'Toolbar.variant': ['inset', 'surface'],
+  ...MEDIA_ENUMS,
+};
+
+/**
+ * Enum fields of MarketingRecipes, keyed by path
+ */
+const MARKETING_RECIPE_ENUMS: Record<string, readonly string[]> = {
+  'AppShell.backgroundTreatment': ['none', 'chronicle', 'gradient'],
+  'SectionHeader.style': ['chronicle', 'clean', 'centered'],
+  'FeatureCard.style': ['minimal', 'elevated', 'glass'],
+  'FeatureCard.iconStyle': ['accent', 'muted', 'gradient'],
+  'FeatureCard.hoverEffect': ['none', 'lift', 'glow'],
+  'signatureBlocks.signalPathConfig.complexity': ['simple', 'medium', 'complex'],
+  'signatureBlocks.stackedCardsConfig.shadowDepth': ['subtle', 'medium', 'dramatic'],
+  'signatureBlocks.stackedCardsConfig.borderStyle': ['none', 'subtle', 'accent'],
+  'signatureBlocks.stackedCardsConfig.hoverEffect': ['none', 'lift', 'tilt', 'fan'],
+  'signatureBlocks.stackedCardsConfig.stackDirection': ['left', 'right', 'center'],
+  'signatureBlocks.metricRibbonConfig.background': ['transparent', 'surface', 'accent-muted', 'gradient'],
+  'signatureBlocks.metricRibbonConfig.separator': ['none', 'line', 'dot'],
+  'signatureBlocks.metricRibbonConfig.valueStyle': ['bold', 'light', 'gradient'],
+  'signatureBlocks.metricRibbonConfig.labelStyle': ['muted', 'normal'],
+  'motionBindings.hero.entrance': ['none', 'fadeUp', 'scale'],
+  'motionBindings.hero.motifAnimation': ['none', 'drift', 'breathe'],
+  'motionBindings.features.entrance': ['none', 'fadeUp', 'stagger'],
+  'motionBindings.signatureBlocks.signalPath': ['none', 'draw', 'pulse'],
+  'motionBindings.signatureBlocks.stackedCards': ['none', 'cascade', 'fan'],
+  'motionBindings.signatureBlocks.metricRibbon': ['none', 'countUp', 'slideIn'],
+  ...MEDIA_ENUMS,
+};
+
+// =============================================================================
+// VALUE CHECKS
+// =============================================================================
+
+const LENGTH_PATTERN = /^-?(?:\d+|\d*\.\d+)(?:px|rem|em|%|vh|vw|ch|ex)$/;
+const ZERO_PATTERN = /^-?0*\.?0+$/;
+const NUMBER_PATTERN = /^(?:\d+|\d*\.\d+)$/;
+
+/**
+ * Check a CSS length (`12px`, `-0.02em`, `0`)
+ */
+export function isCSSLength(value: string): boolean {
+  const trimmed = value.trim();
+  return LENGTH_PATTERN.test(trimmed) || ZERO_PATTERN.test(trimmed);
+}
+
+/**
+ * Split on a separator, ignoring separators inside parentheses
+ */
+function splitTopLevel(value: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth === 0 && separator.test(char)) {
+      if (current.trim()) parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+
+  return parts;
+}
+
+/**
+ * Check `box-shadow` syntax: `none`, or a comma-separated list of
+ * `[inset] <x> <y> [blur] [spread] [color]`
+ */
+export function isBoxShadow(value: string): boolean {
+  const trimmed = value.trim();
+  if (trimmed === 'none') return true;
+
+  const shadows = splitTopLevel(trimmed, /,/);
+  if (shadows.length === 0) return false;
+
+  return shadows.every((shadow) => {
+    const parts = splitTopLevel(shadow, /\s/).filter(part => part !== 'inset');
+    const lengths = parts.filter(isCSSLength);
+    const others = parts.filter(part => !isCSSLength(part));
+    if (lengths.length < 2 || lengths.length > 4 || others.length > 1) return false;
+    // Lengths must be contiguous, the color may come first or last
+    const firstLength = parts.indexOf(lengths[0]);
+    return parts.slice(firstLength, firstLength + lengths.length).every(isCSSLength);
+  });
+}
+
+function getAtPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || typeof value !== 'object') return undefined;
+    return (value as Record<string, unknown>)[key];
+  }, source);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// =============================================================================
+// VALIDATOR
+// =============================================================================
+
+class IssueCollector {
+  readonly errors: ThemeValidationIssue[] = [];
+  readonly warnings: ThemeValidationIssue[] = [];
+
+  error(path: string, message: string, value?: unknown): void {
+    this.errors.push({ path, message, severity: 'error', value });
+  }
+
+  warn(path: string, message: string, value?: unknown): void {
+    this.warnings.push({ path, message, severity: 'warning', value });
+  }
+
+  /**
+   * Check that a value is a string; reports and returns false otherwise
+   */
+  string(path: string, value: unknown): value is string {
+    if (value === undefined) {
+      this.error(path, 'Missing required value');
+      return false;
+    }
+    if (typeof value !== 'string') {
+      this.error(path, `Expected a string, got ${typeof value}`, value);
+      return false;
+    }
+    return true;
+  }
+}
+
+function validateColor(issues: IssueCollector, path: string, value: unknown): void {
+  if (!issues.string(path, value)) return;
+
+  const hsl = parseHSL(value);
+  if (!hsl) {
+    issues.error(path, 'Expected an HSL triple like "220 35% 8%"', value);
+    return;
+  }
+  if (hsl.s < 0 || hsl.s > 100) {
+    issues.error(path, `Saturation ${hsl.s}% is outside 0-100%`, value);
+  }
+  if (hsl.l < 0 || hsl.l > 100) {
+    issues.error(path, `Lightness ${hsl.l}% is outside 0-100%`, value);
+  }
+  if (hsl.h < 0 || hsl.h >= 360) {
+    issues.warn(path, `Hue ${hsl.h} is outside 0-359 and will wrap`, value);
+  }
+}
+
+function validateLength(issues: IssueCollector, path: string, value: unknown): void {
+  if (!issues.string(path, value)) return;
+  if (!isCSSLength(value)) {
+    issues.error(path, 'Expected a CSS length like "12px" or "0.875rem"', value);
+  }
+}
+
+function validateTypeScaleEntry(issues: IssueCollector, path: string, entry: unknown): void {
+  if (!isObject(entry)) {
+    issues.error(path, 'Missing type scale entry', entry);
+    return;
+  }
+
+  validateLength(issues, `${path}.fontSize`, entry.fontSize);
+
+  if (issues.string(`${path}.fontWeight`, entry.fontWeight)) {
+    const weight = Number(entry.fontWeight);
+    const named = ['normal', 'bold', 'lighter', 'bolder'].includes(entry.fontWeight);
+    if (!named && (!Number.isFinite(weight) || weight < 1 || weight > 1000)) {
+      issues.error(`${path}.fontWeight`, 'Expected a numeric weight (100-900) or keyword', entry.fontWeight);
+    }
+  }
+
+  if (issues.string(`${path}.letterSpacing`, entry.letterSpacing)) {
+    if (entry.letterSpacing !== 'normal' && !isCSSLength(entry.letterSpacing)) {
+      issues.error(`${path}.letterSpacing`, 'Expected a CSS length or "normal"', entry.letterSpacing);
+    }
+  }
+
+  if (issues.string(`${path}.lineHeight`, entry.lineHeight)) {
+    const lineHeight = entry.lineHeight.trim();
+    if (lineHeight !== 'normal' && !NUMBER_PATTERN.test(lineHeight) && !isCSSLength(lineHeight)) {
+      issues.error(`${path}.lineHeight`, 'Expected a unitless number, CSS length or "normal"', entry.lineHeight);
+    }
+  }
+
+  if (entry.textTransform !== undefined) {
+    if (typeof entry.textTransform !== 'string' || !TEXT_TRANSFORMS.includes(entry.textTransform)) {
+      issues.error(`${path}.textTransform`, `Expected one of: ${TEXT_TRANSFORMS.join(', ')}`, entry.textTransform);
+    }
+  }
+}
+
+function validateTokens(issues: IssueCollector, tokens: unknown): void {
+  if (!isObject(tokens)) {
+    issues.error('tokens', 'Missing tokens object', tokens);
+    return;
+  }
+
+  for (const key of COLOR_TOKEN_KEYS) {
+    validateColor(issues, `tokens.${key}`, tokens[key]);
+  }
+
+  for (const key of SHADOW_TOKEN_KEYS) {
+    const path = `tokens.${key}`;
+    if (issues.string(path, tokens[key]) && !isBoxShadow(tokens[key] as string)) {
+      issues.error(path, 'Expected box-shadow syntax like "0 8px 32px rgba(0, 0, 0, 0.4)"', tokens[key]);
+    }
+  }
+
+  for (const key of RADIUS_TOKEN_KEYS) {
+    validateLength(issues, `tokens.${key}`, tokens[key]);
+  }
+
+  if (!isObject(tokens.typeScale)) {
+    issues.error('tokens.typeScale', 'Missing type scale', tokens.typeScale);
+  } else {
+    for (const key of TYPE_SCALE_KEYS) {
+      validateTypeScaleEntry(issues, `tokens.typeScale.${key}`, tokens.typeScale[key]);
+    }
+    for (const key of Object.keys(tokens.typeScale)) {
+      if (!(TYPE_SCALE_KEYS as readonly string[]).includes(key)) {
+        issues.warn(`tokens.typeScale.${key}`, 'Unknown type scale entry (will still be emitted as a CSS variable)');
+      }
+    }
+  }
+
+  if (!isObject(tokens.density)) {
+    issues.error('tokens.density', 'Missing density tokens', tokens.density);
+  } else {
+    for (const key of DENSITY_TOKEN_KEYS) {
+      validateLength(issues, `tokens.density.${key}`, tokens.density[key]);
+    }
+  }
+
+  for (const key of Object.keys(tokens)) {
+    if (!KNOWN_TOKEN_KEYS.has(key)) {
+      issues.warn(`tokens.${key}`, 'Unknown token (ignored by the engine)');
+    }
+  }
+}
+
+function validateRecipeEnums(
+  issues: IssueCollector,
+  basePath: string,
+  recipes: Record<string, unknown>,
+  enums: Record<string, readonly string[]>
+): void {
+  for (const [path, allowed] of Object.entries(enums)) {
+    const value = getAtPath(recipes, path);
+    if (value !== undefined && !allowed.includes(value as string)) {
+      issues.error(`${basePath}.${path}`, `Expected one of: ${allowed.join(', ')}`, value);
+    }
+  }
+
+  if (isObject(recipes.Surface)) {
+    for (const [variant, surface] of Object.entries(recipes.Surface)) {
+      for (const [key, allowed] of Object.entries(SURFACE_ENUMS)) {
+        const value = isObject(surface) ? surface[key] : undefined;
+        if (value !== undefined && !allowed.includes(value as string)) {
+          issues.error(`${basePath}.Surface.${variant}.${key}`, `Expected one of: ${allowed.join(', ')}`, value);
+        }
+      }
+    }
+  }
+}
+
+function validateRecipes(issues: IssueCollector, recipes: unknown): void {
+  if (recipes === undefined) return;
+  if (!isObject(recipes)) {
+    issues.error('recipes', 'Expected a recipes object', recipes);
+    return;
+  }
+
+  if ('product' in recipes || 'marketing' in recipes) {
+    if (recipes.product !== undefined) {
+      if (isObject(recipes.product)) {
+        validateRecipeEnums(issues, 'recipes.product', recipes.product, PRODUCT_RECIPE_ENUMS);
+      } else {
+        issues.error('recipes.product', 'Expected a recipes object', recipes.product);
+      }
+    }
+    if (recipes.marketing !== undefined) {
+      if (isObject(recipes.marketing)) {
+        validateRecipeEnums(issues, 'recipes.marketing', recipes.marketing, MARKETING_RECIPE_ENUMS);
+      } else {
+        issues.error('recipes.marketing', 'Expected a recipes object', recipes.marketing);
+      }
+    }
+    return;
+  }
+
+  // Legacy flat form: product recipes only
+  validateRecipeEnums(issues, 'recipes', recipes, PRODUCT_RECIPE_ENUMS);
+}
+
+/**
+ * Validate a theme definition or theme pack.
+ *
+ * @example
+ * ```ts
+ * const result = validateThemeDefinition(myTheme);
+ * if (!result.valid) {
+ *   result.errors.forEach(e => console.error(`${e.path}: ${e.message}`));
+ * }
+ * ```
+ */
+export function validateThemeDefinition(input: unknown): ThemeValidationResult {
+  const issues = new IssueCollector();
+
+  if (!isObject(input)) {
+    issues.error('', 'Expected a theme definition object', input);
+    return { valid: false, errors: issues.errors, warnings: issues.warnings };
+  }
+
+  if (issues.string('name', input.name) && input.name.trim() === '') {
+    issues.error('name', 'Theme name must not be empty', input.name);
+  }
+
+  if (input.mode !== 'dark' && input.mode !== 'light') {
+    issues.error('mode', 'Expected "dark" or "light"', input.mode);
+  }
+
+  validateTokens(issues, input.tokens);
+  validateRecipes(issues, input.recipes);
+
+  return {
+    valid: issues.errors.length === 0,
+    errors: issues.errors,
+    warnings: issues.warnings,
+  };
+}
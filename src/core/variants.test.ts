@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { deriveThemeVariant, getThemeFamily } from './variants';
+import { auditThemeContrast } from './contrast';
+import { parseHSL } from './color';
+import { ThemeEngine } from './engine';
+import { chronicleDark, opsCalm, hospitalityWarm } from '../themes';
+
+const BUILT_IN_THEMES = [chronicleDark, opsCalm, hospitalityWarm];
+
+describe('getThemeFamily', () => {
+  it('drops the mode word from the name', () => {
+    expect(getThemeFamily(chronicleDark)).toBe('Chronicle');
+    expect(getThemeFamily(opsCalm)).toBe('Ops Calm');
+    expect(getThemeFamily({ name: 'Chronicle Dark', family: 'News' })).toBe('News');
+  });
+});
+
+describe('deriveThemeVariant', () => {
+  it.each(BUILT_IN_THEMES.map(theme => [theme.name, theme] as const))('derives a variant of %s that passes the audit', (_, theme) => {
+    const variant = deriveThemeVariant(theme);
+    expect(variant.mode).not.toBe(theme.mode);
+    expect(auditThemeContrast(variant).failures).toEqual([]);
+  });
+
+  it('names the variant and shares the family', () => {
+    expect(deriveThemeVariant(chronicleDark)).toMatchObject({ name: 'Chronicle Light', family: 'Chronicle', mode: 'light' });
+    expect(deriveThemeVariant(opsCalm)).toMatchObject({ name: 'Ops Calm Dark', family: 'Ops Calm', mode: 'dark' });
+  });
+
+  it('keeps the accent hue', () => {
+    for (const theme of BUILT_IN_THEMES) {
+      expect(parseHSL(deriveThemeVariant(theme).tokens.accent)?.h).toBe(parseHSL(theme.tokens.accent)?.h);
+    }
+  });
+
+  it('leaves contrast alone with ensureContrast false', () => {
+    expect(auditThemeContrast(deriveThemeVariant(chronicleDark, { ensureContrast: false })).passed).toBe(false);
+  });
+});
+
+describe('ThemeEngine.registerThemeFamily', () => {
+  it('registers the derived counterpart', () => {
+    const engine = new ThemeEngine();
+    expect(engine.registerThemeFamily(chronicleDark)).toEqual({ dark: 'chronicle-dark', light: 'chronicle-light' });
+    expect(engine.getThemeVariant('chronicle-dark', 'light')?.name).toBe('Chronicle Light');
+  });
+});
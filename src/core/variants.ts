@@ -0,0 +1,204 @@
+/**
+ * Theme Variants
+ *
+ * Derives the opposite-mode counterpart of a theme definition, so a theme
+ * family (e.g. "Chronicle") can ship both a dark and a light member while
+ * only one of them is maintained by hand.
+ */
+
+import type { ThemeDefinition, ThemeMode, ThemeTokens } from './types';
+import { parseHSL, formatHSL, pickReadableForeground } from './color';
+import type { HSLColor } from './color';
+import { repairThemeContrast } from './contrast';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Options for deriving a theme variant
+ */
+export interface ThemeVariantOptions {
+  /** Name of the derived theme (default: swaps "Dark"/"Light" in the name) */
+  name?: string;
+  /** Family name shared by both variants (default: name without mode suffix) */
+  family?: string;
+  /** Repair semantic/muted text contrast after remapping (default: true) */
+  ensureContrast?: boolean;
+}
+
+/**
+ * Anything with a name, mode and tokens (ThemeDefinition or ThemePack)
+ */
+export type ThemeVariantSource = Pick<ThemeDefinition, 'name' | 'mode' | 'tokens' | 'family'>;
+
+// =============================================================================
+// NAMING
+// =============================================================================
+
+const MODE_WORD_PATTERN = /\b(dark|light)\b/i;
+
+/**
+ * Get the family name of a theme ("Chronicle Dark" -> "Chronicle")
+ */
+export function getThemeFamily(theme: { name: string; family?: string }): string {
+  if (theme.family) return theme.family;
+  return theme.name.replace(MODE_WORD_PATTERN, '').replace(/\s+/g, ' ').trim() || theme.name;
+}
+
+/**
+ * Get the opposite theme mode
+ */
+export function getOppositeMode(mode: ThemeMode): ThemeMode {
+  return mode === 'dark' ? 'light' : 'dark';
+}
+
+function getVariantName(name: string, mode: ThemeMode): string {
+  const match = MODE_WORD_PATTERN.exec(name);
+  if (!match) {
+    return `${name} ${mode === 'dark' ? 'Dark' : 'Light'}`;
+  }
+  const word = match[1];
+  const replacement = mode === 'dark' ? 'dark' : 'light';
+  const cased = word[0] === word[0].toUpperCase()
+    ? replacement[0].toUpperCase() + replacement.slice(1)
+    : replacement;
+  return name.replace(MODE_WORD_PATTERN, cased);
+}
+
+// =============================================================================
+// REMAPPING
+// =============================================================================
+
+/**
+ * Lightness ladder per mode. Dark themes elevate by getting lighter,
+ * light themes put cards on pure white above a slightly tinted page.
+ */
+export const SURFACE_LADDER: Record<ThemeMode, Record<'bg' | 'surface' | 'surface2' | 'surfaceInset' | 'border' | 'borderSubtle', number>> = {
+  dark: { surfaceInset: 4, bg: 5, surface: 8, surface2: 12, borderSubtle: 12, border: 16 },
+  light: { surface: 100, bg: 98, surface2: 96, surfaceInset: 94, borderSubtle: 89, border: 84 },
+};
+
+/** Lightness of `*Muted` fills per mode */
+export const MUTED_LIGHTNESS: Record<ThemeMode, number> = { dark: 14, light: 92 };
+
+/** Saturation scale applied to neutrals when switching to the target mode */
+const NEUTRAL_SATURATION_SCALE: Record<ThemeMode, number> = { dark: 2, light: 0.45 };
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+function remap(value: string, fn: (color: HSLColor) => HSLColor): string {
+  const color = parseHSL(value);
+  return color ? formatHSL(fn(color)) : value;
+}
+
+/**
+ * Scale the alpha of every `rgba()` color in a shadow.
+ * Black shadows and colored glows scale differently.
+ */
+function remapShadow(shadow: string, target: ThemeMode): string {
+  return shadow.replace(
+    /rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([\d.]+)\s*\)/g,
+    (_match, r: string, g: string, b: string, a: string) => {
+      const isBlack = r === '0' && g === '0' && b === '0';
+      const factor = target === 'dark'
+        ? (isBlack ? 4 : 1.5)
+        : (isBlack ? 0.25 : 0.66);
+      const alpha = clamp(parseFloat(a) * factor, 0, isBlack ? 0.6 : 0.3);
+      return `rgba(${r}, ${g}, ${b}, ${Math.round(alpha * 100) / 100})`;
+    }
+  );
+}
+
+function remapTokens(tokens: ThemeTokens, target: ThemeMode): ThemeTokens {
+  const ladder = SURFACE_LADDER[target];
+  const bgHue = parseHSL(tokens.bg)?.h ?? 0;
+  const neutralScale = NEUTRAL_SATURATION_SCALE[target];
+  const toDark = target === 'dark';
+
+  // Achromatic surfaces (e.g. pure white cards) pick up the page hue
+  const neutral = (key: keyof typeof ladder) => remap(tokens[key], color => ({
+    h: color.s === 0 ? bgHue : color.h,
+    s: clamp((color.s === 0 ? 15 : color.s) * neutralScale, 0, 50),
+    l: ladder[key],
+  }));
+
+  const muted = (value: string) => remap(value, color => ({
+    ...color,
+    s: clamp(color.s * (toDark ? 1.25 : 0.8), 0, 70),
+    l: MUTED_LIGHTNESS[target],
+  }));
+
+  // Foreground colors move away from the new background
+  const shiftForeground = (value: string, amount: number) => remap(value, color => ({
+    ...color,
+    l: clamp(color.l + (toDark ? amount : -amount), 25, 75),
+  }));
+
+  const text = remap(tokens.text, color => ({ ...color, l: clamp(100 - color.l, 8, 96) }));
+  const accent = shiftForeground(tokens.accent, 12);
+
+  return {
+    ...tokens,
+    bg: neutral('bg'),
+    surface: neutral('surface'),
+    surface2: neutral('surface2'),
+    surfaceInset: neutral('surfaceInset'),
+    border: neutral('border'),
+    borderSubtle: neutral('borderSubtle'),
+    text,
+    textMuted: remap(tokens.textMuted, color => ({ ...color, l: clamp(100 - color.l, 35, 65) })),
+    accent,
+    accentFg: remap(accent, pickReadableForeground),
+    accentMuted: muted(tokens.accentMuted),
+    accentSecondary: shiftForeground(tokens.accentSecondary, 8),
+    ring: shiftForeground(tokens.ring, 10),
+    success: shiftForeground(tokens.success, 8),
+    successMuted: muted(tokens.successMuted),
+    warning: shiftForeground(tokens.warning, 6),
+    warningMuted: muted(tokens.warningMuted),
+    danger: shiftForeground(tokens.danger, 8),
+    dangerMuted: muted(tokens.dangerMuted),
+    shadowSurface: remapShadow(tokens.shadowSurface, target),
+    shadowPopover: remapShadow(tokens.shadowPopover, target),
+    shadowGlow: remapShadow(tokens.shadowGlow, target),
+  };
+}
+
+// =============================================================================
+// DERIVATION
+// =============================================================================
+
+/**
+ * Derive the opposite-mode counterpart of a theme definition.
+ *
+ * The surface ladder is remapped for the new mode, text lightness is
+ * inverted, muted fills and shadows are re-tuned, and the accent hue is
+ * kept. Type scale, density, radii and recipes carry over unchanged
+ * (mode-dependent recipe defaults are re-derived when a definition is
+ * normalized).
+ *
+ * @example
+ * ```ts
+ * const chronicleLight = deriveThemeVariant(chronicleDark);
+ * // { name: 'Chronicle Light', family: 'Chronicle', mode: 'light', ... }
+ * ```
+ */
+export function deriveThemeVariant<T extends ThemeVariantSource>(
+  definition: T,
+  options: ThemeVariantOptions = {}
+): T {
+  const { ensureContrast = true } = options;
+  const mode = getOppositeMode(definition.mode);
+  const family = options.family ?? getThemeFamily(definition);
+
+  const variant: T = {
+    ...definition,
+    name: options.name ?? getVariantName(definition.name, mode),
+    family,
+    mode,
+    tokens: remapTokens(definition.tokens, mode),
+  };
+
+  return ensureContrast ? repairThemeContrast(variant).definition : variant;
+}
@@ -12,6 +12,50 @@ import type {
   SurfacePattern,
   DesignTokens,
 } from '../analyzer';
+import type {
+  ThemePack,
+  PageContext,
+  ContextRecipes,
+  MarketingRecipes,
+  MarketingAudience,
+  ProductRecipes,
+} from '../core/types';
+import { normalizeTuners, resolveTunedRecipes } from '../tuners';
+import {
+  colorClass,
+  dsColor,
+  surfaceClasses,
+  typeClasses,
+  transitionClasses,
+  entranceClass,
+  featureHoverClass,
+  arbitrary,
+} from './recipe-classes';
+import {
+  PRODUCT_COMPONENT_RECIPES,
+  PRODUCT_GENERATORS,
+  type ProductComponentType,
+} from './product';
+import { generateMarketingPage, type SignatureBlockName } from './storyboard';
+import {
+  SIGNATURE_COMPONENT_BLOCKS,
+  generateSignatureBlock,
+  generateSignatureBlocks,
+  type SignatureComponentType,
+} from './signature-blocks';
+import {
+  renderComponent,
+  el,
+  expr,
+  show,
+  slot,
+  render,
+  when,
+  each,
+  type ComponentPlan,
+  type PlanProp,
+  type OutputTarget,
+} from './targets';
 
 // =============================================================================
 // TYPES
@@ -30,10 +74,42 @@ export interface GenerationContext {
   taste: TasteConfig;
   targetPath: string;
   componentType: 'page' | 'component' | 'section';
+  /** Theme whose recipes and `--ds-*` tokens drive the classes */
+  theme?: ThemePack;
+  /** Context of the theme recipes (default: 'product') */
+  pageContext?: PageContext;
+  /** Audience for marketing pages (storyboard order, motif overrides) */
+  audience?: MarketingAudience;
+  /** Framework to render to (default: 'react') */
+  target?: OutputTarget;
+}
+
+/**
+ * Theme options for generation
+ */
+export interface GenerationThemeOptions {
+  theme?: ThemePack;
+  context?: PageContext;
+  audience?: MarketingAudience;
+}
+
+/**
+ * Options for `generateCode` and `createGenerator`
+ */
+export interface GenerationOptions extends GenerationThemeOptions {
+  /** Framework to render to (default: 'react') */
+  target?: OutputTarget;
+}
+
+export interface GeneratedFile {
+  path: string;
+  code: string;
 }
 
 export interface GeneratedCode {
   code: string;
+  /** Every emitted file, for targets with one component per file */
+  files?: GeneratedFile[];
   imports: string[];
   dependencies: string[];
   explanation: string;
@@ -186,6 +262,12 @@ const CONTRAST_MAPPINGS = {
   },
 };
 
+/** Content and caller classes, the props of every wrapper component */
+const CHILDREN_PROPS: PlanProp[] = [
+  { name: 'children', type: 'node' },
+  { name: 'className', type: 'string', optional: true },
+];
+
 // =============================================================================
 // CODE GENERATOR CLASS
 // =============================================================================
@@ -193,6 +275,8 @@ const CONTRAST_MAPPINGS = {
 export class CodeGenerator {
   private context: GenerationContext;
   private tasteLevel: (value: number) => 'low' | 'medium' | 'high';
+  /** Theme recipes tuned by the taste values, or null without a theme */
+  private recipes: ContextRecipes | null;
 
   constructor(context: GenerationContext) {
     this.context = context;
@@ -201,12 +285,34 @@ export class CodeGenerator {
       if (value < 0.67) return 'medium';
       return 'high';
     };
+    this.recipes = context.theme
+      ? resolveTunedRecipes(context.theme, context.pageContext ?? 'product', normalizeTuners({ ...context.taste }))
+      : null;
+  }
+
+  /**
+   * Marketing recipes when generating for a marketing theme context
+   */
+  private get marketingRecipes(): MarketingRecipes | null {
+    return this.recipes && this.context.pageContext === 'marketing' ? this.recipes as MarketingRecipes : null;
   }
 
   /**
    * Get abstraction-appropriate button classes
    */
   getButtonClasses(variant: 'primary' | 'secondary' | 'ghost' = 'primary'): string {
+    if (this.recipes) {
+      const transition = transitionClasses(this.recipes.motion);
+      const base = `h-[var(--ds-density-control-height)] px-4 rounded-[var(--ds-radius-control)] font-medium ${transition}`;
+      const ring = `focus-visible:outline-none focus-visible:ring-2 ${colorClass('ring', 'ring')}`;
+      const variants = {
+        primary: `${colorClass('bg', 'accent')} ${colorClass('text', 'accentFg')} hover:${colorClass('bg', 'accent', '0.9')}`,
+        secondary: `${colorClass('bg', 'surface2')} ${colorClass('text', 'text')} border ${colorClass('border', 'border')} hover:${colorClass('bg', 'surface')}`,
+        ghost: `${colorClass('text', 'accent')} hover:${colorClass('bg', 'accent-muted')}`,
+      };
+      return `${base} ${variants[variant]} ${ring}`.replace(/\s+/g, ' ');
+    }
+
     const level = this.tasteLevel(this.context.taste.abstraction);
     const abstraction = ABSTRACTION_MAPPINGS.button[level];
     const motion = MOTION_MAPPINGS[this.tasteLevel(this.context.taste.motion)];
@@ -236,6 +342,12 @@ export class CodeGenerator {
    * Get card classes based on taste
    */
   getCardClasses(): string {
+    if (this.recipes) {
+      const marketing = this.marketingRecipes;
+      const surface = marketing ? marketing.Surface.feature : this.recipes.Surface.default;
+      return `${surfaceClasses(surface)} p-[var(--ds-density-card-padding)] ${transitionClasses(this.recipes.motion)}`.trim();
+    }
+
     const abstractionLevel = this.tasteLevel(this.context.taste.abstraction);
     const contrastLevel = this.tasteLevel(this.context.taste.contrast);
 
@@ -256,6 +368,10 @@ export class CodeGenerator {
    * Get surface/container classes
    */
   getSurfaceClasses(): string {
+    if (this.recipes) {
+      return `${colorClass('bg', 'bg')} ${colorClass('text', 'text')} p-[var(--ds-density-page-gutter)]`;
+    }
+
     const level = this.tasteLevel(this.context.taste.abstraction);
     const surface = ABSTRACTION_MAPPINGS.surface[level];
     const density = DENSITY_MAPPINGS[this.tasteLevel(this.context.taste.density)];
@@ -267,6 +383,22 @@ export class CodeGenerator {
    * Get spacing classes based on density
    */
   getSpacingClasses(): { container: string; section: string; item: string } {
+    const marketing = this.marketingRecipes;
+    if (marketing) {
+      return {
+        container: `px-[var(--ds-density-page-gutter)] py-[${arbitrary(marketing.LayoutRhythm.sectionGap)}]`,
+        section: `space-y-[${arbitrary(marketing.LayoutRhythm.sectionGap)}]`,
+        item: `gap-[${arbitrary(marketing.LayoutRhythm.featureGap)}]`,
+      };
+    }
+    if (this.recipes) {
+      return {
+        container: 'p-[var(--ds-density-page-gutter)]',
+        section: 'space-y-[var(--ds-density-section-gap)]',
+        item: 'gap-[var(--ds-density-card-padding-compact)]',
+      };
+    }
+
     const level = this.tasteLevel(this.context.taste.density);
     const density = DENSITY_MAPPINGS[level];
 
@@ -281,6 +413,16 @@ export class CodeGenerator {
    * Get motion classes based on motion taste
    */
   getMotionClasses(): { transition: string; hover: string; entrance: string } {
+    if (this.recipes) {
+      const { motion } = this.recipes;
+      const marketing = this.marketingRecipes;
+      return {
+        transition: transitionClasses(motion),
+        hover: marketing ? featureHoverClass(marketing) : '',
+        entrance: entranceClass(motion),
+      };
+    }
+
     const level = this.tasteLevel(this.context.taste.motion);
     const motion = MOTION_MAPPINGS[level];
 
@@ -295,6 +437,15 @@ export class CodeGenerator {
    * Get typography classes based on contrast and density
    */
   getTypographyClasses(): { heading: string; body: string; muted: string } {
+    const themeTokens = this.context.theme?.tokens;
+    if (this.recipes && themeTokens) {
+      return {
+        heading: `${typeClasses(themeTokens, 'h2')} ${colorClass('text', 'text')}`,
+        body: `${typeClasses(themeTokens, 'body')} ${colorClass('text', 'text')}`,
+        muted: `${typeClasses(themeTokens, 'body')} ${colorClass('text', 'textMuted')}`,
+      };
+    }
+
     const contrastLevel = this.tasteLevel(this.context.taste.contrast);
     const densityLevel = this.tasteLevel(this.context.taste.density);
 
@@ -314,294 +465,396 @@ export class CodeGenerator {
   }
 
   /**
-   * Generate a button component
+   * Feature icon color: FeatureCard.iconStyle, or the primary color
    */
-  generateButton(name: string = 'Button'): GeneratedCode {
-    const buttonClasses = this.getButtonClasses();
-    const motion = this.getMotionClasses();
-
-    const code = `
-import { forwardRef } from 'react';
-import { cn } from '@/lib/utils';
-
-export interface ${name}Props extends React.ButtonHTMLAttributes<HTMLButtonElement> {
-  variant?: 'primary' | 'secondary' | 'ghost';
-  size?: 'sm' | 'md' | 'lg';
-}
+  private getFeatureIconClass(): string {
+    const marketing = this.marketingRecipes;
+    if (!marketing) return this.recipes ? colorClass('text', 'accent') : 'text-primary';
+    return marketing.FeatureCard.iconStyle === 'muted' ? colorClass('text', 'textMuted') : colorClass('text', 'accent');
+  }
 
-export const ${name} = forwardRef<HTMLButtonElement, ${name}Props>(
-  ({ className, variant = 'primary', size = 'md', children, ...props }, ref) => {
-    return (
-      <button
-        ref={ref}
-        className={cn(
-          // Base styles
-          'inline-flex items-center justify-center font-medium',
-          '${motion.transition}',
-          // Variant styles
-          {
-            primary: '${this.getButtonClasses('primary')}',
-            secondary: '${this.getButtonClasses('secondary')}',
-            ghost: '${this.getButtonClasses('ghost')}',
-          }[variant],
-          // Size styles
-          {
-            sm: 'h-8 px-3 text-sm',
-            md: 'h-10 px-4 text-base',
-            lg: 'h-12 px-6 text-lg',
-          }[size],
-          className
-        )}
-        {...props}
-      >
-        {children}
-      </button>
-    );
-  }
-);
-
-${name}.displayName = '${name}';
-`.trim();
+  /**
+   * Divider border color (theme token, or the default border color)
+   */
+  private getDividerClass(): string {
+    return this.recipes ? colorClass('border', 'borderSubtle') : '';
+  }
 
-    return {
-      code,
-      imports: ['forwardRef from react', 'cn from @/lib/utils'],
-      dependencies: [],
-      explanation: this.explainTasteChoices('button'),
-    };
+  /**
+   * Section title classes: SectionHeader recipe, or taste typography
+   */
+  private getSectionTitleClasses(): string {
+    const marketing = this.marketingRecipes;
+    if (marketing) {
+      const header = marketing.SectionHeader;
+      return `[font-size:${arbitrary(header.titleSize)}] [font-weight:${header.titleWeight}] ${colorClass('text', 'text')}`;
+    }
+    return this.recipes
+      ? this.getTypographyClasses().heading
+      : `text-2xl md:text-3xl ${this.getTypographyClasses().heading}`;
   }
 
   /**
-   * Generate a card component
+   * Hero classes: Hero recipe (marketing), HeroHeader recipe (product),
+   * or narrative-sized taste classes
    */
-  generateCard(name: string = 'Card'): GeneratedCode {
-    const cardClasses = this.getCardClasses();
-    const spacing = this.getSpacingClasses();
-    const motion = this.getMotionClasses();
+  private getHeroClasses(): { section: string; title: string; subtitle: string } {
+    const marketing = this.marketingRecipes;
     const typography = this.getTypographyClasses();
 
-    const code = `
-import { cn } from '@/lib/utils';
-
-export interface ${name}Props {
-  children: React.ReactNode;
-  className?: string;
-  hoverable?: boolean;
-}
-
-export function ${name}({ children, className, hoverable = false }: ${name}Props) {
-  return (
-    <div
-      className={cn(
-        '${cardClasses}',
-        hoverable && '${motion.hover} cursor-pointer',
-        className
-      )}
-    >
-      {children}
-    </div>
-  );
-}
+    if (marketing) {
+      const { Hero } = marketing;
+      const gradient = `linear-gradient(135deg, ${dsColor('accent')}, ${dsColor('accentSecondary')})`;
+      return {
+        section: `px-[var(--ds-density-page-gutter)] py-[${arbitrary(Hero.spacing.paddingY)}] gap-[${arbitrary(Hero.spacing.gap)}]`,
+        title: [
+          `[font-size:${arbitrary(Hero.titleSize)}] [font-weight:${Hero.titleWeight}] [letter-spacing:${Hero.titleTracking}]`,
+          `max-w-[${arbitrary(Hero.titleMaxWidth)}]`,
+          Hero.accentGradient ? `bg-[${arbitrary(gradient)}] bg-clip-text text-transparent` : colorClass('text', 'text'),
+        ].join(' '),
+        subtitle: `[font-size:${arbitrary(Hero.subtitleSize)}] ${colorClass('text', 'text', Hero.subtitleOpacity)} max-w-[${arbitrary(Hero.subtitleMaxWidth)}]`,
+      };
+    }
 
-export function ${name}Header({ children, className }: { children: React.ReactNode; className?: string }) {
-  return (
-    <div className={cn('${typography.heading} pb-4 mb-4 border-b', className)}>
-      {children}
-    </div>
-  );
-}
+    const themeTokens = this.context.theme?.tokens;
+    if (this.recipes && themeTokens) {
+      const { HeroHeader } = this.recipes as Exclude<ContextRecipes, MarketingRecipes>;
+      return {
+        section: `px-[var(--ds-density-page-gutter)] py-[${arbitrary(HeroHeader.spacing.paddingY)}]`,
+        title: `${typeClasses(themeTokens, HeroHeader.titleSize)} ${colorClass('text', 'text')}`,
+        subtitle: `${HeroHeader.subtitleMuted ? typography.muted : typography.body} max-w-2xl`,
+      };
+    }
 
-export function ${name}Content({ children, className }: { children: React.ReactNode; className?: string }) {
-  return (
-    <div className={cn('${spacing.section}', className)}>
-      {children}
-    </div>
-  );
-}
+    // Narrative affects how much "story" the hero tells
+    const narrativeLevel = this.tasteLevel(this.context.taste.narrative);
+    const heroSize = narrativeLevel === 'high' ? 'min-h-[80vh]' : narrativeLevel === 'medium' ? 'min-h-[60vh]' : 'min-h-[40vh]';
+    return {
+      section: `${heroSize} ${this.getSpacingClasses().container}`,
+      title: `text-4xl md:text-5xl lg:text-6xl ${typography.heading}`,
+      subtitle: `text-lg md:text-xl ${typography.muted} max-w-2xl`,
+    };
+  }
 
-export function ${name}Footer({ children, className }: { children: React.ReactNode; className?: string }) {
-  return (
-    <div className={cn('pt-4 mt-4 border-t flex items-center ${spacing.item}', className)}>
-      {children}
-    </div>
-  );
-}
-`.trim();
+  /**
+   * Plan a button: variant and size props, native attributes and ref forwarded
+   */
+  planButton(name: string = 'Button'): ComponentPlan {
+    const motion = this.getMotionClasses();
+    const sizes = this.recipes
+      ? { sm: 'h-[var(--ds-density-control-height-sm)] px-3 text-sm', md: 'h-[var(--ds-density-control-height)] px-4 text-base', lg: 'h-12 px-6 text-lg' }
+      : { sm: 'h-8 px-3 text-sm', md: 'h-10 px-4 text-base', lg: 'h-12 px-6 text-lg' };
 
     return {
-      code,
-      imports: ['cn from @/lib/utils'],
-      dependencies: [],
-      explanation: this.explainTasteChoices('card'),
+      name,
+      props: [
+        {
+          name: 'variant',
+          options: {
+            primary: this.getButtonClasses('primary'),
+            secondary: this.getButtonClasses('secondary'),
+            ghost: this.getButtonClasses('ghost'),
+          },
+          default: `'primary'`,
+        },
+        { name: 'size', options: sizes, default: `'md'` },
+      ],
+      template: [
+        el('button', {
+          classes: [
+            { classes: 'inline-flex items-center justify-center font-medium', comment: 'Base styles' },
+            motion.transition,
+            { prop: 'variant', comment: 'Variant styles' },
+            { prop: 'size', comment: 'Size styles' },
+            { expr: 'className' },
+          ],
+        }, slot()),
+      ],
+      forwardAttributes: true,
+      forwardRef: true,
     };
   }
 
   /**
-   * Generate a page layout
+   * Plan a card with Header, Content and Footer parts
    */
-  generatePageLayout(name: string = 'PageLayout'): GeneratedCode {
-    const surface = this.getSurfaceClasses();
+  planCard(name: string = 'Card'): ComponentPlan {
     const spacing = this.getSpacingClasses();
     const motion = this.getMotionClasses();
+    const typography = this.getTypographyClasses();
+    const part = (suffix: string, classes: string): ComponentPlan => ({
+      name: `${name}${suffix}`,
+      props: [...CHILDREN_PROPS],
+      template: [el('div', { classes: [classes, { expr: 'className' }] }, slot())],
+    });
 
-    const code = `
-import { cn } from '@/lib/utils';
+    return {
+      name,
+      props: [...CHILDREN_PROPS, { name: 'hoverable', classes: `${motion.hover} cursor-pointer` }],
+      template: [
+        el('div', { classes: [this.getCardClasses(), { prop: 'hoverable' }, { expr: 'className' }] }, slot()),
+      ],
+      parts: [
+        part('Header', `${typography.heading} pb-4 mb-4 border-b ${this.getDividerClass()}`),
+        part('Content', spacing.section),
+        part('Footer', `pt-4 mt-4 border-t ${this.getDividerClass()} flex items-center ${spacing.item}`),
+      ],
+    };
+  }
 
-export interface ${name}Props {
-  children: React.ReactNode;
-  className?: string;
-  maxWidth?: 'sm' | 'md' | 'lg' | 'xl' | 'full';
-}
+  /**
+   * Plan a page layout with a max-width prop
+   */
+  planPageLayout(name: string = 'PageLayout'): ComponentPlan {
+    const spacing = this.getSpacingClasses();
+    const motion = this.getMotionClasses();
 
-export function ${name}({ children, className, maxWidth = 'lg' }: ${name}Props) {
-  return (
-    <div className={cn('min-h-screen ${surface}', className)}>
-      <main
-        className={cn(
-          'mx-auto w-full ${spacing.container}',
-          {
+    return {
+      name,
+      props: [
+        ...CHILDREN_PROPS,
+        {
+          name: 'maxWidth',
+          options: {
             sm: 'max-w-screen-sm',
             md: 'max-w-screen-md',
             lg: 'max-w-screen-lg',
             xl: 'max-w-screen-xl',
             full: 'max-w-full',
-          }[maxWidth]
-        )}
-      >
-        <div className="${spacing.section} ${motion.entrance}">
-          {children}
-        </div>
-      </main>
-    </div>
-  );
-}
-`.trim();
-
-    return {
-      code,
-      imports: ['cn from @/lib/utils'],
-      dependencies: [],
-      explanation: this.explainTasteChoices('layout'),
+          },
+          default: `'lg'`,
+        },
+      ],
+      template: [
+        el('div', { classes: [`min-h-screen ${this.getSurfaceClasses()}`, { expr: 'className' }] },
+          el('main', { classes: [`mx-auto w-full ${spacing.container}`, { prop: 'maxWidth' }] },
+            el('div', { classes: `${spacing.section} ${motion.entrance}` }, slot()))),
+      ],
     };
   }
 
   /**
-   * Generate a section component for marketing pages
+   * Plan a marketing section: hero, features or CTA
    */
-  generateSection(type: 'hero' | 'features' | 'cta' | 'testimonials'): GeneratedCode {
+  planSection(type: 'hero' | 'features' | 'cta'): ComponentPlan {
     const spacing = this.getSpacingClasses();
     const typography = this.getTypographyClasses();
     const motion = this.getMotionClasses();
-    const button = this.getButtonClasses();
-
-    const narrativeLevel = this.tasteLevel(this.context.taste.narrative);
-
-    let code = '';
+    const sectionTitle = this.getSectionTitleClasses();
 
     if (type === 'hero') {
-      // Narrative affects how much "story" the hero tells
-      const heroSize = narrativeLevel === 'high' ? 'min-h-[80vh]' : narrativeLevel === 'medium' ? 'min-h-[60vh]' : 'min-h-[40vh]';
-
-      code = `
-export function HeroSection({ title, subtitle, cta }: { title: string; subtitle?: string; cta?: { label: string; href: string } }) {
-  return (
-    <section className="${heroSize} flex flex-col items-center justify-center text-center ${spacing.container}">
-      <h1 className="text-4xl md:text-5xl lg:text-6xl ${typography.heading} ${motion.entrance}">
-        {title}
-      </h1>
-      {subtitle && (
-        <p className="mt-6 text-lg md:text-xl ${typography.muted} max-w-2xl ${motion.entrance}" style={{ animationDelay: '100ms' }}>
-          {subtitle}
-        </p>
-      )}
-      {cta && (
-        <a href={cta.href} className="mt-8 ${button} ${motion.entrance}" style={{ animationDelay: '200ms' }}>
-          {cta.label}
-        </a>
-      )}
-    </section>
-  );
-}
-`.trim();
-    } else if (type === 'features') {
-      code = `
-export interface Feature {
-  title: string;
-  description: string;
-  icon?: React.ReactNode;
-}
+      const hero = this.getHeroClasses();
+      return {
+        name: 'HeroSection',
+        props: [
+          { name: 'title', type: 'string' },
+          { name: 'subtitle', type: 'string', optional: true },
+          { name: 'cta', type: '{ label: string; href: string }', optional: true },
+        ],
+        template: [
+          el('section', { classes: `${hero.section} flex flex-col items-center justify-center text-center` },
+            el('h1', { classes: `${hero.title} ${motion.entrance}` }, show('title')),
+            when('subtitle', [
+              el('p', { classes: `mt-6 ${hero.subtitle} ${motion.entrance}`, style: { animationDelay: '100ms' } }, show('subtitle')),
+            ]),
+            when('cta', [
+              el('a', {
+                attributes: { href: expr('cta.href') },
+                classes: `mt-8 ${this.getButtonClasses()} ${motion.entrance}`,
+                style: { animationDelay: '200ms' },
+              }, show('cta.label')),
+            ])),
+        ],
+      };
+    }
 
-export function FeaturesSection({ title, features }: { title?: string; features: Feature[] }) {
-  return (
-    <section className="${spacing.container}">
-      {title && (
-        <h2 className="text-2xl md:text-3xl ${typography.heading} text-center mb-12">
-          {title}
-        </h2>
-      )}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 ${spacing.item}">
-        {features.map((feature, index) => (
-          <div
-            key={index}
-            className="${this.getCardClasses()} ${motion.entrance}"
-            style={{ animationDelay: \`\${index * 100}ms\` }}
-          >
-            {feature.icon && (
-              <div className="w-12 h-12 mb-4 text-primary">
-                {feature.icon}
-              </div>
-            )}
-            <h3 className="text-lg ${typography.heading}">{feature.title}</h3>
-            <p className="mt-2 ${typography.muted}">{feature.description}</p>
-          </div>
-        ))}
-      </div>
-    </section>
-  );
-}
-`.trim();
-    } else if (type === 'cta') {
-      code = `
-export function CTASection({ title, description, primaryAction, secondaryAction }: {
-  title: string;
-  description?: string;
-  primaryAction: { label: string; href: string };
-  secondaryAction?: { label: string; href: string };
-}) {
-  return (
-    <section className="${spacing.container} text-center">
-      <h2 className="text-2xl md:text-3xl ${typography.heading}">
-        {title}
-      </h2>
-      {description && (
-        <p className="mt-4 ${typography.muted} max-w-2xl mx-auto">
-          {description}
-        </p>
-      )}
-      <div className="mt-8 flex flex-wrap items-center justify-center ${spacing.item}">
-        <a href={primaryAction.href} className="${this.getButtonClasses('primary')}">
-          {primaryAction.label}
-        </a>
-        {secondaryAction && (
-          <a href={secondaryAction.href} className="${this.getButtonClasses('ghost')}">
-            {secondaryAction.label}
-          </a>
-        )}
-      </div>
-    </section>
-  );
-}
-`.trim();
+    if (type === 'features') {
+      return {
+        name: 'FeaturesSection',
+        interfaces: [{
+          name: 'Feature',
+          fields: [
+            { name: 'title', type: 'string' },
+            { name: 'description', type: 'string' },
+            { name: 'icon', type: 'node', optional: true },
+          ],
+        }],
+        props: [
+          { name: 'title', type: 'string', optional: true },
+          { name: 'features', type: 'Feature[]' },
+        ],
+        template: [
+          el('section', { classes: spacing.container },
+            when('title', [el('h2', { classes: `${sectionTitle} text-center mb-12` }, show('title'))]),
+            el('div', { classes: `grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 ${spacing.item}` },
+              each('features', 'feature', 'index', el('div', {
+                classes: `${this.getCardClasses()} ${motion.entrance}`,
+                style: { animationDelay: expr('`${index * 100}ms`') },
+              },
+              when('feature.icon', [el('div', { classes: `w-12 h-12 mb-4 ${this.getFeatureIconClass()}` }, render('feature.icon'))]),
+              el('h3', { classes: `text-lg ${typography.heading}`, inline: true }, show('feature.title')),
+              el('p', { classes: `mt-2 ${typography.muted}`, inline: true }, show('feature.description'))), 'index'))),
+        ],
+      };
     }
 
     return {
-      code,
-      imports: [],
-      dependencies: [],
-      explanation: this.explainTasteChoices(type),
+      name: 'CTASection',
+      props: [
+        { name: 'title', type: 'string' },
+        { name: 'description', type: 'string', optional: true },
+        { name: 'primaryAction', type: '{ label: string; href: string }' },
+        { name: 'secondaryAction', type: '{ label: string; href: string }', optional: true },
+      ],
+      template: [
+        el('section', { classes: `${spacing.container} text-center` },
+          el('h2', { classes: sectionTitle }, show('title')),
+          when('description', [el('p', { classes: `mt-4 ${typography.muted} max-w-2xl mx-auto` }, show('description'))]),
+          el('div', { classes: `mt-8 flex flex-wrap items-center justify-center ${spacing.item}` },
+            el('a', { attributes: { href: expr('primaryAction.href') }, classes: this.getButtonClasses('primary') }, show('primaryAction.label')),
+            when('secondaryAction', [
+              el('a', { attributes: { href: expr('secondaryAction.href') }, classes: this.getButtonClasses('ghost') }, show('secondaryAction.label')),
+            ]))),
+      ],
     };
   }
 
+  /**
+   * Generate a button component
+   */
+  generateButton(name?: string): GeneratedCode {
+    return this.renderPlan(this.planButton(name), 'button');
+  }
+
+  /**
+   * Generate a card component
+   */
+  generateCard(name?: string): GeneratedCode {
+    return this.renderPlan(this.planCard(name), 'card');
+  }
+
+  /**
+   * Generate a page layout
+   */
+  generatePageLayout(name?: string): GeneratedCode {
+    return this.renderPlan(this.planPageLayout(name), 'layout');
+  }
+
+  /**
+   * Render a plan for the context's output target
+   */
+  private renderPlan(plan: ComponentPlan, componentType: string): GeneratedCode {
+    const target = this.context.target ?? 'react';
+    const rendered = renderComponent(plan, target);
+    const files = target === 'react'
+      ? ''
+      : ` Rendered for ${target} as ${rendered.files?.map(file => file.path).join(', ')}.`;
+    return { ...rendered, explanation: `${this.explainTasteChoices(componentType)}${files}` };
+  }
+
+  /**
+   * Generate a section component for marketing pages
+   */
+  generateSection(type: 'hero' | 'features' | 'cta' | 'testimonials'): GeneratedCode {
+    if (type === 'testimonials') {
+      return { code: '', imports: [], dependencies: [], explanation: this.explainTasteChoices(type) };
+    }
+    return this.renderPlan(this.planSection(type), type);
+  }
+
+  /**
+   * Generate a component for a `ProductRecipes` entry. These recipes only
+   * exist in the product context, so a theme is required; its product
+   * recipes are used whatever the page context.
+   */
+  generateProductComponent(type: ProductComponentType, name?: string): GeneratedCode {
+    const theme = this.context.theme;
+    if (!theme) {
+      throw new Error(`${PRODUCT_COMPONENT_RECIPES[type]} generation needs a theme: pass { theme } to generate "${type}"`);
+    }
+
+    const recipes = this.recipes && this.context.pageContext !== 'marketing'
+      ? this.recipes as ProductRecipes
+      : resolveTunedRecipes(theme, 'product', normalizeTuners({ ...this.context.taste }));
+    return PRODUCT_GENERATORS[type](theme, recipes, name, this.context.target);
+  }
+
+  /**
+   * Generate a complete marketing page from the theme's storyboard, in the
+   * audience's order when it has an override
+   */
+  generateMarketingPage(name?: string): GeneratedCode {
+    const theme = this.context.theme;
+    if (!theme) {
+      throw new Error('Marketing page generation needs a theme: pass { theme } to generate "marketing-page"');
+    }
+
+    return generateMarketingPage(theme, this.resolveMarketingRecipes(theme), {
+      audience: this.context.audience,
+      name,
+      target: this.context.target,
+    });
+  }
+
+  /**
+   * Generate one signature block (SignalPathGraphic, StackedCards,
+   * MetricRibbon) from the theme's marketing recipes
+   */
+  generateSignatureBlock(block: SignatureBlockName, name?: string): GeneratedCode {
+    const theme = this.context.theme;
+    if (!theme) {
+      throw new Error(`${block} generation needs a theme: pass { theme } to generate it`);
+    }
+    return generateSignatureBlock(theme, this.resolveMarketingRecipes(theme), block, name, this.context.target);
+  }
+
+  /**
+   * Generate the signature blocks module imported by generated marketing pages
+   */
+  generateSignatureBlocks(): GeneratedCode {
+    const theme = this.context.theme;
+    if (!theme) {
+      throw new Error('Signature block generation needs a theme: pass { theme } to generate "signature-blocks"');
+    }
+    return generateSignatureBlocks(theme, this.resolveMarketingRecipes(theme), this.context.target);
+  }
+
+  /**
+   * Marketing recipes for the theme, tuned by the taste, whatever the page context
+   */
+  private resolveMarketingRecipes(theme: ThemePack): MarketingRecipes {
+    return this.marketingRecipes
+      ?? resolveTunedRecipes(theme, 'marketing', normalizeTuners({ ...this.context.taste }));
+  }
+
+  generateAppShell(name?: string): GeneratedCode {
+    return this.generateProductComponent('app-shell', name);
+  }
+
+  generateStatCard(name?: string): GeneratedCode {
+    return this.generateProductComponent('stat-card', name);
+  }
+
+  generateSectionHeader(name?: string): GeneratedCode {
+    return this.generateProductComponent('section-header', name);
+  }
+
+  generateDataTable(name?: string): GeneratedCode {
+    return this.generateProductComponent('data-table', name);
+  }
+
+  generateHeroHeader(name?: string): GeneratedCode {
+    return this.generateProductComponent('hero-header', name);
+  }
+
+  generateActivityTable(name?: string): GeneratedCode {
+    return this.generateProductComponent('activity-table', name);
+  }
+
+  generateToolbar(name?: string): GeneratedCode {
+    return this.generateProductComponent('toolbar', name);
+  }
+
   /**
    * Generate explanation of taste choices
    */
@@ -647,9 +900,14 @@ export function CTASection({ title, description, primaryAction, secondaryAction
       }
     }
 
-    return explanations.length > 0
+    const summary = explanations.length > 0
       ? `Taste choices: ${explanations.join('. ')}.`
       : 'Using balanced default styling.';
+
+    const theme = this.context.theme;
+    return theme
+      ? `Classes come from the "${theme.name}" ${this.context.pageContext ?? 'product'} recipes and --ds-* tokens. ${summary}`
+      : summary;
   }
 }
 
@@ -661,26 +919,59 @@ export function createGenerator(
   analysis: CodebaseAnalysis,
   taste: TasteConfig,
   targetPath: string,
-  componentType: GenerationContext['componentType'] = 'component'
+  componentType: GenerationContext['componentType'] = 'component',
+  options: GenerationOptions = {}
 ): CodeGenerator {
   return new CodeGenerator({
     analysis,
     taste,
     targetPath,
     componentType,
+    theme: options.theme,
+    pageContext: options.context,
+    audience: options.audience,
+    target: options.target,
   });
 }
 
 /**
- * Generate code based on taste and codebase analysis
+ * Component types `generateCode` accepts. `marketing-page`, the signature
+ * blocks and the product types follow the theme's recipes and need a theme.
+ */
+export const GENERATED_COMPONENT_TYPES = [
+  'button',
+  'card',
+  'layout',
+  'hero',
+  'features',
+  'cta',
+  'marketing-page',
+  'signature-blocks',
+  ...(Object.keys(SIGNATURE_COMPONENT_BLOCKS) as SignatureComponentType[]),
+  ...(Object.keys(PRODUCT_COMPONENT_RECIPES) as ProductComponentType[]),
+] as const;
+
+export type GeneratedComponentType = typeof GENERATED_COMPONENT_TYPES[number];
+
+/**
+ * Generate code based on taste and codebase analysis.
+ * With a theme, classes come from its recipes for the given context;
+ * `target` renders any type to Vue, Svelte, Astro or a registered target.
+ *
+ * @example
+ * ```ts
+ * generateCode(analysis, taste, 'card', 'MetricCard', { theme: opsCalm, context: 'product' });
+ * generateCode(analysis, taste, 'button', 'Button', { target: 'vue' });
+ * ```
  */
 export function generateCode(
   analysis: CodebaseAnalysis,
   taste: TasteConfig,
-  what: 'button' | 'card' | 'layout' | 'hero' | 'features' | 'cta',
-  name?: string
+  what: GeneratedComponentType,
+  name?: string,
+  options: GenerationOptions = {}
 ): GeneratedCode {
-  const generator = createGenerator(analysis, taste, '', 'component');
+  const generator = createGenerator(analysis, taste, '', 'component', options);
 
   switch (what) {
     case 'button':
@@ -695,7 +986,116 @@ export function generateCode(
       return generator.generateSection('features');
     case 'cta':
       return generator.generateSection('cta');
+    case 'marketing-page':
+      return generator.generateMarketingPage(name);
+    case 'signature-blocks':
+      return generator.generateSignatureBlocks();
+    case 'signal-path-graphic':
+    case 'stacked-cards':
+    case 'metric-ribbon':
+      return generator.generateSignatureBlock(SIGNATURE_COMPONENT_BLOCKS[what], name);
     default:
+      if (what in PRODUCT_COMPONENT_RECIPES) {
+        return generator.generateProductComponent(what, name);
+      }
       throw new Error(`Unknown component type: ${what}`);
   }
 }
+
+// =============================================================================
+// TAILWIND CONFIG
+// =============================================================================
+
+export {
+  generateTailwindTheme,
+  generateTailwindConfig,
+  generateTailwindV4Theme,
+} from './tailwind';
+export type {
+  TailwindThemeExtension,
+  TailwindKeyframes,
+  TailwindGeneratorOptions,
+  TailwindConfigSourceOptions,
+} from './tailwind';
+
+// =============================================================================
+// RECIPE CLASSES
+// =============================================================================
+
+export {
+  arbitrary,
+  tokenVariable,
+  dsColor,
+  colorClass,
+  recipeColorClass,
+  surfaceClasses,
+  typeClasses,
+  transitionClasses,
+  entranceClass,
+} from './recipe-classes';
+export type { TypeScaleLevel } from './recipe-classes';
+
+// =============================================================================
+// PRODUCT COMPONENTS
+// =============================================================================
+
+export { PRODUCT_COMPONENT_RECIPES } from './product';
+export type { ProductComponentType, ProductRecipeName } from './product';
+
+// =============================================================================
+// MARKETING PAGES
+// =============================================================================
+
+export {
+  generateMarketingPage,
+  resolveStoryboard,
+  resolveMotifLayers,
+  DEFAULT_SIGNATURE_BLOCKS_PATH,
+} from './storyboard';
+export type { MarketingPageOptions, SignatureBlockName } from './storyboard';
+
+// =============================================================================
+// SIGNATURE BLOCKS
+// =============================================================================
+
+export {
+  SIGNATURE_COMPONENT_BLOCKS,
+  generateSignatureBlock,
+  generateSignatureBlocks,
+  layoutSignalPaths,
+  layoutStackedCards,
+} from './signature-blocks';
+export type { SignatureComponentType } from './signature-blocks';
+
+// =============================================================================
+// OUTPUT TARGETS
+// =============================================================================
+
+export {
+  OUTPUT_TARGET_EXTENSIONS,
+  registerOutputTarget,
+  unregisterOutputTarget,
+  getOutputTarget,
+  listOutputTargets,
+  renderComponent,
+  outputTargetForStack,
+} from './targets';
+export type {
+  OutputTarget,
+  BuiltInOutputTarget,
+  OutputTargetDefinition,
+  ComponentPlan,
+  PlanElement,
+  PlanComponentUse,
+  PlanNode,
+  PlanClass,
+  PlanCondition,
+  PlanExpression,
+  PlanValue,
+  PlanField,
+  PlanProp,
+  PlanInterface,
+  PlanBehaviors,
+  PlanState,
+  PlanEffect,
+} from './targets';
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PRODUCT_GENERATORS,
+  PRODUCT_COMPONENT_RECIPES,
+  planAppShell,
+  planStatCard,
+  planSectionHeader,
+  planDataTable,
+  planHeroHeader,
+  planActivityTable,
+  planToolbar,
+  type ProductComponentType,
+} from './product';
+import { renderComponent, type ComponentPlan, type PlanElement, type PlanNode } from './targets';
+import { surfaceClasses } from './recipe-classes';
+import { normalizeThemePack } from '../core/engine';
+import type { ProductRecipes, ThemeRecipes } from '../core/types';
+import { chronicleDark, opsCalm } from '../themes';
+
+const chronicle = normalizeThemePack(chronicleDark);
+const ops = normalizeThemePack(opsCalm);
+const chronicleRecipes = (chronicle.recipes as ThemeRecipes).product;
+const opsRecipes = (ops.recipes as ThemeRecipes).product;
+const TARGETS = { react: 'tsx', vue: 'vue', svelte: 'svelte', astro: 'astro' } as const;
+
+function withRecipe<K extends keyof ProductRecipes>(recipes: ProductRecipes, key: K, patch: Partial<ProductRecipes[K]>): ProductRecipes {
+  return { ...recipes, [key]: { ...recipes[key], ...patch } };
+}
+
+/**
+ * Every element of a plan's template, branches and loop bodies included
+ */
+function elements(nodes: PlanNode[]): PlanElement[] {
+  return nodes.flatMap((node): PlanElement[] => {
+    switch (node.kind) {
+      case 'element':
+        return [node, ...elements(node.children ?? [])];
+      case 'component':
+        return elements([...(node.children ?? []), ...Object.values(node.slots ?? {}).flat()]);
+      case 'when':
+        return elements([...node.then, ...(node.else ?? [])]);
+      case 'each':
+        return elements([node.body]);
+      default:
+        return [];
+    }
+  });
+}
+
+function classText(plan: ComponentPlan): string {
+  return elements(plan.template)
+    .flatMap(element => (typeof element.classes === 'string' ? [element.classes] : element.classes ?? []))
+    .map(entry => (typeof entry === 'string' ? entry : JSON.stringify(entry)))
+    .join(' ');
+}
+
+const propNames = (plan: ComponentPlan) => plan.props.map(prop => prop.name);
+
+describe('PRODUCT_GENERATORS', () => {
+  const types = Object.keys(PRODUCT_COMPONENT_RECIPES) as ProductComponentType[];
+
+  it.each(types)('renders %s for every target', (type) => {
+    for (const [target, extension] of Object.entries(TARGETS)) {
+      const result = PRODUCT_GENERATORS[type](chronicle, chronicleRecipes, undefined, target);
+      expect(result.files?.length).toBeGreaterThan(0);
+      expect(result.files?.[0].path.endsWith(`.${extension}`)).toBe(true);
+      expect(result.code).toBe(result.files?.[0].code);
+      expect(result.explanation).toContain(PRODUCT_COMPONENT_RECIPES[type]);
+    }
+  });
+
+  it('names the component after the requested name', () => {
+    const { code, files } = PRODUCT_GENERATORS['stat-card'](ops, opsRecipes, 'RevenueCard', 'vue');
+    expect(files?.[0].path).toBe('RevenueCard.vue');
+    expect(PRODUCT_GENERATORS['stat-card'](ops, opsRecipes, 'RevenueCard').code).toContain('export function RevenueCard(');
+    expect(code).toContain('defineProps');
+  });
+});
+
+describe('planAppShell', () => {
+  it('adds the glow and vignette only for the chronicle treatment', () => {
+    expect(classText(planAppShell(chronicle, chronicleRecipes))).toContain('radial-gradient');
+    expect(classText(planAppShell(ops, opsRecipes))).not.toContain('radial-gradient');
+  });
+
+  it('takes sidebar and header as optional slots', () => {
+    const plan = planAppShell(ops, opsRecipes);
+    expect(plan.props.filter(prop => prop.type === 'node').map(prop => [prop.name, prop.optional ?? false]))
+      .toEqual([['children', false], ['sidebar', true], ['header', true]]);
+  });
+});
+
+describe('planStatCard', () => {
+  it('gives every card an accent prop and style binding with accentMode perCard', () => {
+    const recipes = withRecipe(chronicleRecipes, 'StatCard', { accentMode: 'perCard' });
+    const plan = planStatCard(chronicle, recipes);
+    expect(propNames(plan)).toContain('accent');
+
+    const accent = elements(plan.template).find(element => element.style?.background);
+    expect(accent?.style).toEqual({ background: { expr: 'accent' } });
+    expect(renderComponent(plan, 'react').code).toContain('style={{ background: accent }}');
+    expect(renderComponent(plan, 'svelte').code).toContain('style:background={accent}');
+  });
+
+  it('shows the accent on the primary card only otherwise', () => {
+    const plan = planStatCard(chronicle, chronicleRecipes);
+    expect(propNames(plan)).not.toContain('accent');
+    expect(renderComponent(plan, 'react').code).toContain('{primary && <span aria-hidden="true"');
+  });
+
+  it('omits the accent element when the recipe has none', () => {
+    const plan = planStatCard(ops, opsRecipes);
+    expect(elements(plan.template).some(element => element.attributes?.['aria-hidden'])).toBe(false);
+  });
+
+  it('maps trend options to status colors', () => {
+    const trend = planStatCard(ops, opsRecipes).props.find(prop => prop.name === 'trend');
+    expect(Object.keys(trend?.options ?? {})).toEqual(['up', 'down', 'flat']);
+    expect(trend?.default).toBe(`'flat'`);
+  });
+});
+
+describe('planSectionHeader', () => {
+  it('rules off the chronicle style only', () => {
+    expect(classText(planSectionHeader(chronicle, chronicleRecipes))).toContain('border-b');
+    expect(classText(planSectionHeader(ops, opsRecipes))).not.toContain('border-b');
+  });
+});
+
+describe('planDataTable', () => {
+  it('is generic over the row type', () => {
+    const plan = planDataTable(ops, opsRecipes);
+    expect(plan.generic).toBe('T');
+    expect(plan.interfaces?.[0]).toMatchObject({ name: 'DataTableColumn', params: '<T>' });
+    expect(renderComponent(plan, 'react').code).toContain('export function DataTable<T>(');
+  });
+
+  it('follows the recipe density', () => {
+    expect(classText(planDataTable(chronicle, chronicleRecipes))).toContain('table-row-height-compact');
+    expect(classText(planDataTable(ops, opsRecipes))).not.toContain('table-row-height-compact');
+  });
+});
+
+describe('planHeroHeader', () => {
+  it('groups actions beside the title when actionsGrouped is set', () => {
+    const grouped = planHeroHeader(ops, opsRecipes);
+    const stacked = planHeroHeader(ops, withRecipe(opsRecipes, 'HeroHeader', { actionsGrouped: false }));
+    expect(classText(grouped)).toContain('justify-between');
+    expect(classText(stacked)).not.toContain('justify-between');
+  });
+});
+
+describe('planActivityTable', () => {
+  it('declares an item interface for its rows', () => {
+    const plan = planActivityTable(ops, opsRecipes);
+    expect(plan.interfaces?.map(entry => entry.name)).toEqual(['ActivityTableItem']);
+    expect(propNames(plan)).toEqual(['items', 'className']);
+  });
+
+  it('renders icons from data as text in Astro', () => {
+    const { code } = renderComponent(planActivityTable(ops, opsRecipes), 'astro');
+    expect(code).toContain('{item.icon}');
+    expect(code).not.toContain('set:html');
+  });
+});
+
+describe('planToolbar', () => {
+  it('uses Surface.inset for the inset variant', () => {
+    const recipes = withRecipe(opsRecipes, 'Toolbar', { variant: 'inset' });
+    const inset = surfaceClasses(recipes.Surface.inset);
+    expect(inset).not.toBe(surfaceClasses(recipes.Surface.default));
+    expect(classText(planToolbar(ops, recipes))).toContain(inset);
+  });
+
+  it('uses Surface.default for the surface variant', () => {
+    const recipes = withRecipe(opsRecipes, 'Toolbar', { variant: 'surface' });
+    expect(classText(planToolbar(ops, recipes))).toContain(surfaceClasses(recipes.Surface.default));
+  });
+
+  it('plans Item and Separator parts', () => {
+    const plan = planToolbar(ops, opsRecipes);
+    expect(plan.parts?.map(part => part.name)).toEqual(['ToolbarItem', 'ToolbarSeparator']);
+    expect(renderComponent(plan, 'vue').files?.map(file => file.path)).toEqual(['Toolbar.vue', 'ToolbarItem.vue', 'ToolbarSeparator.vue']);
+  });
+});
@@ -0,0 +1,463 @@
+/**
+ * Product Component Generators
+ *
+ * One generator per `ProductRecipes` entry (AppShell, StatCard,
+ * SectionHeader, DataTable, HeroHeader, ActivityTable, Toolbar). Each plans
+ * a typed component whose classes follow the recipe's options and the
+ * theme's `--ds-*` tokens, rendered for any output target.
+ */
+
+import type { ThemePack, ThemeTokens, ProductRecipes } from '../core/types';
+import type { GeneratedCode } from './index';
+import {
+  renderComponent,
+  el,
+  expr,
+  show,
+  txt,
+  slot,
+  render,
+  when,
+  each,
+  type ComponentPlan,
+  type OutputTarget,
+  type PlanNode,
+  type PlanProp,
+} from './targets';
+import {
+  arbitrary,
+  colorClass,
+  dsColor,
+  recipeColorClass,
+  surfaceClasses,
+  typeClasses,
+  transitionClasses,
+  type TypeScaleLevel,
+} from './recipe-classes';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ProductRecipeName = Exclude<keyof ProductRecipes, 'Surface' | 'media' | 'motion'>;
+
+/**
+ * Component types with a product generator, and the recipe each one follows
+ */
+export const PRODUCT_COMPONENT_RECIPES = {
+  'app-shell': 'AppShell',
+  'stat-card': 'StatCard',
+  'section-header': 'SectionHeader',
+  'data-table': 'DataTable',
+  'hero-header': 'HeroHeader',
+  'activity-table': 'ActivityTable',
+  toolbar: 'Toolbar',
+} as const satisfies Record<string, ProductRecipeName>;
+
+export type ProductComponentType = keyof typeof PRODUCT_COMPONENT_RECIPES;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const CLASS_NAME: PlanProp = { name: 'className', type: 'string', optional: true };
+
+/**
+ * Type scale level named by a recipe font style (falls back when unknown)
+ */
+function typeLevel(tokens: ThemeTokens, style: string, fallback: TypeScaleLevel): TypeScaleLevel {
+  return Object.hasOwn(tokens.typeScale, style) ? style as TypeScaleLevel : fallback;
+}
+
+function explain(theme: ThemePack, recipe: ProductRecipeName, options: object): string {
+  const summary = Object.entries(options)
+    .filter(([, value]) => typeof value !== 'object')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(', ');
+  return `Follows the "${theme.name}" ProductRecipes.${recipe} recipe (${summary}) with --ds-* tokens.`;
+}
+
+function headerClasses(style: 'muted' | 'muted-uppercase'): string {
+  return style === 'muted-uppercase'
+    ? `${colorClass('text', 'textMuted')} text-xs font-medium uppercase`
+    : `${colorClass('text', 'textMuted')} text-sm font-medium`;
+}
+
+function rowHeight(density: 'compact' | 'comfortable'): string {
+  return density === 'compact'
+    ? 'h-[var(--ds-density-table-row-height-compact)]'
+    : 'h-[var(--ds-density-table-row-height)]';
+}
+
+// =============================================================================
+// PLANS
+// =============================================================================
+
+/**
+ * Page frame with optional sidebar and header; the chronicle treatment adds
+ * an accent glow and a vignette behind the content
+ */
+export function planAppShell(theme: ThemePack, recipes: ProductRecipes, name = 'AppShell'): ComponentPlan {
+  const shell = recipes.AppShell;
+  const divider = colorClass('border', 'borderSubtle');
+
+  const background = shell.backgroundTreatment === 'chronicle'
+    ? [el('div', { attributes: { 'aria-hidden': 'true' }, classes: 'pointer-events-none fixed inset-0 -z-10' },
+      el('div', { classes: `absolute inset-0 bg-[${arbitrary(`radial-gradient(ellipse at top, ${dsColor(shell.glowColor, shell.glowOpacity)}, transparent 60%)`)}]` }),
+      el('div', { classes: `absolute inset-0 bg-[${arbitrary(`radial-gradient(ellipse at center, transparent 40%, ${dsColor('bg', shell.vignetteOpacity)})`)}]` }))]
+    : [];
+
+  return {
+    name,
+    props: [
+      { name: 'children', type: 'node' },
+      { name: 'sidebar', type: 'node', optional: true },
+      { name: 'header', type: 'node', optional: true },
+      CLASS_NAME,
+    ],
+    template: [
+      el('div', { classes: [`relative isolate flex min-h-screen ${colorClass('bg', 'bg')} ${colorClass('text', 'text')}`, { expr: 'className' }] },
+        ...background,
+        when({ slot: 'sidebar' }, [el('aside', { classes: `w-64 shrink-0 border-r ${divider}` }, slot('sidebar'))]),
+        el('div', { classes: 'flex min-w-0 flex-1 flex-col' },
+          when({ slot: 'header' }, [
+            el('header', { classes: `flex h-14 items-center border-b ${divider} px-[var(--ds-density-page-gutter)]` }, slot('header')),
+          ]),
+          el('main', { classes: 'flex-1 p-[var(--ds-density-page-gutter)] space-y-[var(--ds-density-section-gap)]' }, slot()))),
+    ],
+  };
+}
+
+/**
+ * KPI card. `accentMode` decides which cards carry the accent element:
+ * `perCard` gives every card its own `accent` color, `single` only the
+ * `primary` card (as does `primaryHighlight`).
+ */
+export function planStatCard(theme: ThemePack, recipes: ProductRecipes, name = 'StatCard'): ComponentPlan {
+  const card = recipes.StatCard;
+  const { tokens } = theme;
+  const surface = surfaceClasses(card.style === 'minimal' ? { ...recipes.Surface.default, shadow: false } : recipes.Surface.default);
+  const width = arbitrary(card.accentWidth ?? '2px');
+
+  const hasAccent = card.accentElement !== 'none'
+    && (card.accentMode !== 'none' || card.primaryHighlight);
+  const perCard = hasAccent && card.accentMode === 'perCard';
+
+  const accentClasses = {
+    none: '',
+    leftHairline: `absolute inset-y-3 left-0 w-[${width}] rounded-full`,
+    topBorder: `absolute inset-x-0 top-0 h-[${width}]`,
+    dot: 'size-2 rounded-full',
+  }[card.accentElement];
+  const element = el('span', {
+    attributes: { 'aria-hidden': 'true' },
+    classes: perCard ? accentClasses : `${accentClasses} ${colorClass('bg', 'accent')}`,
+    ...(perCard ? { style: { background: expr('accent') } } : {}),
+  });
+  const accent: PlanNode[] = hasAccent ? [perCard ? element : when('primary', [element])] : [];
+  // The dot sits beside the label; hairlines and borders frame the card
+  const dot = card.accentElement === 'dot' ? accent : [];
+
+  const primaryClass = card.style === 'accent' ? colorClass('bg', 'accentMuted') : '';
+
+  return {
+    name,
+    props: [
+      { name: 'label', type: 'string' },
+      { name: 'value', type: 'node' },
+      { name: 'delta', type: 'string', optional: true },
+      {
+        name: 'trend',
+        options: {
+          up: colorClass('text', 'success'),
+          down: colorClass('text', 'danger'),
+          flat: colorClass('text', 'textMuted'),
+        },
+        default: `'flat'`,
+      },
+      { name: 'primary', type: 'boolean', default: 'false', doc: `Highlight as the page's primary metric` },
+      ...(perCard ? [{ name: 'accent', type: 'string', default: `'${dsColor('accent')}'`, doc: 'Accent color for this card (any CSS color)' }] : []),
+      CLASS_NAME,
+    ],
+    template: [
+      el('div', {
+        classes: [
+          `relative overflow-hidden ${surface} p-[var(--ds-density-card-padding)]`,
+          ...(primaryClass ? [{ when: 'primary', then: primaryClass }] : []),
+          { expr: 'className' },
+        ],
+      },
+      ...(card.accentElement === 'dot' ? [] : accent),
+      el('div', { classes: `flex items-center gap-2 ${typeClasses(tokens, typeLevel(tokens, card.labelFontStyle, 'label'))} ${colorClass('text', 'textMuted')}` },
+        ...dot,
+        show('label')),
+      el('div', { classes: `mt-2 ${typeClasses(tokens, typeLevel(tokens, card.valueFontStyle, 'kpi'))} ${colorClass('text', 'text')} tabular-nums` },
+        slot('value')),
+      when('delta', [el('div', { classes: ['mt-1 text-sm tabular-nums', { prop: 'trend' }] }, show('delta'))])),
+    ],
+  };
+}
+
+/**
+ * Section title with optional subtitle and actions
+ */
+export function planSectionHeader(theme: ThemePack, recipes: ProductRecipes, name = 'SectionHeader'): ComponentPlan {
+  const header = recipes.SectionHeader;
+  const { tokens } = theme;
+  const rule = header.style === 'chronicle' ? ` border-b ${colorClass('border', 'borderSubtle')}` : '';
+  const spacing = `pt-[${arbitrary(header.spacing.top)}] pb-[${arbitrary(header.spacing.bottom)}]`;
+  const title = typeClasses(tokens, 'h3').replace(/\[font-weight:[^\]]+\]/, `[font-weight:${header.titleWeight}]`);
+
+  return {
+    name,
+    props: [
+      { name: 'title', type: 'string' },
+      { name: 'subtitle', type: 'string', optional: true },
+      { name: 'actions', type: 'node', optional: true },
+      CLASS_NAME,
+    ],
+    template: [
+      el('div', { classes: [`flex items-end justify-between gap-4 ${spacing}${rule}`, { expr: 'className' }] },
+        el('div', { classes: 'min-w-0' },
+          el('h2', { classes: `${title} ${colorClass('text', 'text')}` }, show('title')),
+          when('subtitle', [
+            el('p', {
+              classes: `mt-1 text-sm ${colorClass('text', 'text', header.subtitleOpacity)} max-w-[${arbitrary(header.subtitleMaxWidth)}]`,
+            }, show('subtitle')),
+          ])),
+        when({ slot: 'actions' }, [el('div', { classes: 'flex shrink-0 items-center gap-2', inline: true }, slot('actions'))])),
+    ],
+  };
+}
+
+/**
+ * Generic, typed data table
+ */
+export function planDataTable(theme: ThemePack, recipes: ProductRecipes, name = 'DataTable'): ComponentPlan {
+  const table = recipes.DataTable;
+  const separator = {
+    none: '',
+    faint: `border-b ${colorClass('border', 'border', table.separatorOpacity)}`,
+    normal: `border-b ${colorClass('border', 'border')}`,
+  }[table.separatorStyle];
+  const hover = table.rowHover === 'subtle'
+    ? [transitionClasses(recipes.motion), `hover:${colorClass('bg', 'surface2', '0.5')}`].filter(Boolean).join(' ')
+    : '';
+  const row = [rowHeight(table.density), separator, hover].filter(Boolean).join(' ');
+
+  return {
+    name,
+    generic: 'T',
+    interfaces: [{
+      name: `${name}Column`,
+      params: '<T>',
+      fields: [
+        { name: 'key', type: 'keyof T & string' },
+        { name: 'header', type: 'string' },
+        { name: 'align', type: `'left' | 'right'`, optional: true },
+        { name: 'render', type: 'node', params: 'row: T', optional: true },
+      ],
+    }],
+    props: [
+      { name: 'columns', type: `${name}Column<T>[]` },
+      { name: 'rows', type: 'T[]' },
+      { name: 'getRowKey', type: '(row: T) => string' },
+      CLASS_NAME,
+    ],
+    template: [
+      el('table', { classes: ['w-full border-collapse text-sm', { expr: 'className' }] },
+        el('thead', {},
+          el('tr', { classes: [rowHeight(table.density), separator].filter(Boolean).join(' ') },
+            each('columns', 'column', 'column.key', el('th', {
+              attributes: { scope: 'col' },
+              classes: [`px-3 ${headerClasses(table.headerStyle)}`, { when: `column.align === 'right'`, then: 'text-right', else: 'text-left' }],
+            }, show('column.header'))))),
+        el('tbody', {},
+          each('rows', 'row', 'getRowKey(row)', el('tr', { classes: row },
+            each('columns', 'column', 'column.key', el('td', {
+              classes: [`px-3 ${colorClass('text', 'text')}`, { when: `column.align === 'right'`, then: 'text-right tabular-nums', else: 'text-left' }],
+            }, when('column.render', [render('column.render', ['row'])], [show(`String(row[column.key] ?? '')`)]))))))),
+    ],
+  };
+}
+
+/**
+ * Page header for product screens
+ */
+export function planHeroHeader(theme: ThemePack, recipes: ProductRecipes, name = 'HeroHeader'): ComponentPlan {
+  const hero = recipes.HeroHeader;
+  const { tokens } = theme;
+  const rule = hero.style === 'chronicle' ? ` border-b ${colorClass('border', 'borderSubtle')}` : '';
+  const subtitle = hero.subtitleMuted ? colorClass('text', 'textMuted') : colorClass('text', 'text');
+
+  const heading = [
+    el('h1', { classes: `${typeClasses(tokens, hero.titleSize)} ${colorClass('text', 'text')}` }, show('title')),
+    when('subtitle', [el('p', { classes: `mt-2 ${typeClasses(tokens, 'body')} ${subtitle} max-w-2xl` }, show('subtitle'))]),
+  ];
+  const padding = `py-[${arbitrary(hero.spacing.paddingY)}]${rule}`;
+
+  return {
+    name,
+    props: [
+      { name: 'title', type: 'string' },
+      { name: 'subtitle', type: 'string', optional: true },
+      { name: 'actions', type: 'node', optional: true },
+      CLASS_NAME,
+    ],
+    template: [hero.actionsGrouped
+      ? el('header', { classes: [`flex flex-wrap items-end justify-between gap-4 ${padding}`, { expr: 'className' }] },
+        el('div', { classes: 'min-w-0' }, ...heading),
+        when({ slot: 'actions' }, [el('div', { classes: 'flex shrink-0 items-center gap-2', inline: true }, slot('actions'))]))
+      : el('header', { classes: [padding, { expr: 'className' }] },
+        el('div', {}, ...heading),
+        when({ slot: 'actions' }, [el('div', { classes: 'mt-4 flex flex-wrap items-center gap-3', inline: true }, slot('actions'))]))],
+  };
+}
+
+/**
+ * Recent-activity list with icon, description, amount and time columns
+ */
+export function planActivityTable(theme: ThemePack, recipes: ProductRecipes, name = 'ActivityTable'): ComponentPlan {
+  const activity = recipes.ActivityTable;
+  const container = [
+    recipeColorClass('bg', activity.containerBg),
+    'rounded-[var(--ds-radius-surface)] overflow-hidden',
+    activity.containerBorder ? `border ${colorClass('border', 'border', activity.containerBorderOpacity)}` : '',
+  ].filter(Boolean).join(' ');
+  const header = [
+    activity.headerStyle === 'muted-uppercase' ? 'text-xs uppercase' : 'text-sm',
+    'font-medium',
+    `[letter-spacing:${activity.headerTracking}]`,
+    colorClass('text', 'text', activity.headerOpacity),
+  ].join(' ');
+  const row = [
+    rowHeight(activity.density),
+    `border-t ${colorClass('border', 'border', activity.separatorOpacity)}`,
+    activity.rowHover === 'subtle' ? transitionClasses(recipes.motion) : '',
+    activity.rowHover === 'subtle' ? `hover:${recipeColorClass('bg', activity.rowHoverBg)}` : '',
+  ].filter(Boolean).join(' ');
+  const icon = `size-8 grid place-items-center rounded-[var(--ds-radius-control)] ${recipeColorClass('bg', activity.iconBg)} ${colorClass('text', 'text', activity.iconOpacity)}`;
+  const column = (label: string, align: string) => el('th', { attributes: { scope: 'col' }, classes: `px-4 text-${align}` }, txt(label));
+
+  return {
+    name,
+    interfaces: [{
+      name: `${name}Item`,
+      fields: [
+        { name: 'id', type: 'string' },
+        { name: 'title', type: 'string' },
+        { name: 'description', type: 'string', optional: true },
+        { name: 'icon', type: 'node', optional: true },
+        { name: 'amount', type: 'string', optional: true },
+        { name: 'time', type: 'string' },
+      ],
+    }],
+    props: [{ name: 'items', type: `${name}Item[]` }, CLASS_NAME],
+    template: [
+      el('div', { classes: [container, { expr: 'className' }] },
+        el('table', { classes: 'w-full border-collapse text-sm' },
+          el('thead', {},
+            el('tr', { classes: `${rowHeight(activity.density)} ${header}` },
+              column('Activity', 'left'),
+              column('Amount', 'right'),
+              column('Time', 'right'))),
+          el('tbody', {},
+            each('items', 'item', 'item.id', el('tr', { classes: row },
+              el('td', { classes: 'px-4' },
+                el('div', { classes: 'flex items-center gap-3' },
+                  when('item.icon', [el('span', { attributes: { 'aria-hidden': 'true' }, classes: icon, inline: true }, render('item.icon'))]),
+                  el('div', { classes: 'min-w-0' },
+                    el('div', { classes: `truncate ${colorClass('text', 'text')}`, inline: true }, show('item.title')),
+                    when('item.description', [
+                      el('div', { classes: `truncate text-xs ${colorClass('text', 'textMuted')}`, inline: true }, show('item.description')),
+                    ])))),
+              el('td', { classes: `px-4 text-right tabular-nums [font-weight:${activity.amountWeight}] ${colorClass('text', 'text')}` },
+                show('item.amount')),
+              el('td', { classes: `px-4 text-right whitespace-nowrap ${colorClass('text', 'text', activity.timeOpacity)}` },
+                show('item.time'))))))),
+    ],
+  };
+}
+
+/**
+ * Toolbar with items and separators; the `inset` variant sits recessed in
+ * its surface, `surface` floats on it
+ */
+export function planToolbar(theme: ThemePack, recipes: ProductRecipes, name = 'Toolbar'): ComponentPlan {
+  const toolbar = recipes.Toolbar;
+  const surface = surfaceClasses(toolbar.variant === 'inset' ? recipes.Surface.inset : recipes.Surface.default);
+  const transition = transitionClasses(recipes.motion);
+
+  return {
+    name,
+    props: [{ name: 'children', type: 'node' }, { name: 'label', type: 'string' }, CLASS_NAME],
+    template: [
+      el('div', {
+        attributes: { role: 'toolbar', 'aria-label': expr('label') },
+        classes: [
+          `inline-flex items-center ${surface} h-[${arbitrary(toolbar.height)}] gap-[${arbitrary(toolbar.gap)}] px-[${arbitrary(toolbar.gap)}]`,
+          { expr: 'className' },
+        ],
+      }, slot()),
+    ],
+    parts: [
+      {
+        name: `${name}Item`,
+        props: [{ name: 'active', type: 'boolean', default: 'false' }],
+        template: [
+          el('button', {
+            attributes: { type: 'button', 'aria-pressed': expr('active') },
+            classes: [
+              `inline-flex items-center gap-1.5 h-[${arbitrary(toolbar.itemHeight)}] px-[${arbitrary(toolbar.itemPadding)}] rounded-[var(--ds-radius-control)] text-sm ${transition}`,
+              {
+                when: 'active',
+                then: `${colorClass('bg', 'surface2')} ${colorClass('text', 'text')}`,
+                else: `${colorClass('text', 'textMuted')} hover:${colorClass('text', 'text')} hover:${colorClass('bg', 'surface2', '0.6')}`,
+              },
+              { expr: 'className' },
+            ],
+          }, slot()),
+        ],
+        forwardAttributes: true,
+      },
+      {
+        name: `${name}Separator`,
+        props: [],
+        template: [
+          el('div', {
+            attributes: { role: 'separator', 'aria-orientation': 'vertical' },
+            classes: `w-px h-[${arbitrary(toolbar.separatorHeight)}] ${colorClass('bg', toolbar.separatorColor, toolbar.separatorOpacity)}`,
+          }),
+        ],
+      },
+    ],
+  };
+}
+
+// =============================================================================
+// GENERATORS
+// =============================================================================
+
+type ProductPlanner = (theme: ThemePack, recipes: ProductRecipes, name?: string) => ComponentPlan;
+
+type ProductGenerator = (theme: ThemePack, recipes: ProductRecipes, name?: string, target?: OutputTarget) => GeneratedCode;
+
+function generator(recipe: ProductRecipeName, plan: ProductPlanner): ProductGenerator {
+  return (theme, recipes, name, target = 'react') => ({
+    ...renderComponent(plan(theme, recipes, name), target),
+    explanation: explain(theme, recipe, recipes[recipe]),
+  });
+}
+
+/**
+ * Generator for each product component type, rendering its plan for a target
+ */
+export const PRODUCT_GENERATORS: Record<ProductComponentType, ProductGenerator> = {
+  'app-shell': generator('AppShell', planAppShell),
+  'stat-card': generator('StatCard', planStatCard),
+  'section-header': generator('SectionHeader', planSectionHeader),
+  'data-table': generator('DataTable', planDataTable),
+  'hero-header': generator('HeroHeader', planHeroHeader),
+  'activity-table': generator('ActivityTable', planActivityTable),
+  toolbar: generator('Toolbar', planToolbar),
+};
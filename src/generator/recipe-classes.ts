@@ -0,0 +1,163 @@
+/**
+ * Recipe Classes
+ *
+ * Translates theme recipes into Tailwind classes. Every color, radius,
+ * shadow and type value references a `--ds-*` variable through arbitrary
+ * values, so generated components follow runtime theme switches without a
+ * Tailwind config.
+ */
+
+import type { ThemeTokens, SurfaceRecipe, MotionRecipes, MarketingRecipes } from '../core/types';
+
+export type TypeScaleLevel = keyof ThemeTokens['typeScale'];
+
+// =============================================================================
+// VALUES
+// =============================================================================
+
+/**
+ * Make a CSS value safe inside a Tailwind arbitrary value (`[...]`)
+ */
+export function arbitrary(value: string): string {
+  return value.trim().replace(/\s*,\s*/g, ',').replace(/\s+/g, '_');
+}
+
+/**
+ * CSS variable for a recipe color or token name
+ * (`surfaceInset`, `accent-muted`, `accentFg` -> `--ds-accent-foreground`)
+ */
+export function tokenVariable(name: string): string {
+  const kebab = name
+    .replace(/([a-z])([A-Z0-9])/g, '$1-$2')
+    .toLowerCase();
+  return `--ds-${kebab === 'accent-fg' ? 'accent-foreground' : kebab}`;
+}
+
+/**
+ * CSS color for a recipe color name, with optional alpha
+ */
+export function dsColor(name: string, opacity?: string | number): string {
+  if (name === 'transparent' || name === 'currentColor') return name;
+  return opacity === undefined
+    ? `hsl(var(${tokenVariable(name)}))`
+    : `hsl(var(${tokenVariable(name)}) / ${opacity})`;
+}
+
+/**
+ * Tailwind class setting a utility to a recipe color
+ *
+ * @example
+ * ```ts
+ * colorClass('border', 'border', '0.08'); // 'border-[hsl(var(--ds-border)_/_0.08)]'
+ * ```
+ */
+export function colorClass(utility: 'bg' | 'text' | 'border' | 'from' | 'to' | 'ring', name: string, opacity?: string | number): string {
+  return `${utility}-[${arbitrary(dsColor(name, opacity))}]`;
+}
+
+/**
+ * Tailwind class for a recipe color written as `name/percent`
+ *
+ * @example
+ * ```ts
+ * recipeColorClass('bg', 'surface2/30'); // 'bg-[hsl(var(--ds-surface-2)_/_0.3)]'
+ * ```
+ */
+export function recipeColorClass(utility: Parameters<typeof colorClass>[0], value: string): string {
+  const [name, percent] = value.split('/');
+  return colorClass(utility, name, percent === undefined ? undefined : Number(percent) / 100);
+}
+
+// =============================================================================
+// RECIPES
+// =============================================================================
+
+/**
+ * Classes for a surface recipe (background, gradient, border, shadow, radius)
+ */
+export function surfaceClasses(recipe: SurfaceRecipe): string {
+  const classes = [
+    colorClass('bg', recipe.background ?? 'surface'),
+    'rounded-[var(--ds-radius-surface)]',
+  ];
+
+  if (recipe.gradient) {
+    const gradient = `linear-gradient(${recipe.gradientDirection ?? 'to bottom'}, ${dsColor(recipe.gradientFrom ?? 'surface')}, ${dsColor(recipe.gradientTo ?? 'transparent')})`;
+    classes.push(`bg-[${arbitrary(gradient)}]`);
+  }
+  if (recipe.border) {
+    classes.push('border', colorClass('border', 'border', recipe.borderOpacity));
+  }
+
+  const shadows: string[] = [];
+  if (recipe.shadow) {
+    shadows.push(recipe.shadowStrength === 'strong' ? 'var(--ds-shadow-popover)' : 'var(--ds-shadow-surface)');
+  }
+  if (recipe.innerHighlight) {
+    shadows.push(`inset 0 1px 0 ${dsColor('text', recipe.innerHighlightOpacity ?? '0.05')}`);
+  }
+  if (shadows.length > 0) {
+    classes.push(`shadow-[${arbitrary(shadows.join(', '))}]`);
+  }
+
+  return classes.join(' ');
+}
+
+/**
+ * Arbitrary-property classes for a type scale level
+ */
+export function typeClasses(tokens: ThemeTokens, level: TypeScaleLevel): string {
+  const classes = [
+    `[font-size:var(--ds-type-${level}-size)]`,
+    `[font-weight:var(--ds-type-${level}-weight)]`,
+    `[letter-spacing:var(--ds-type-${level}-tracking)]`,
+    `[line-height:var(--ds-type-${level}-leading)]`,
+  ];
+  if (tokens.typeScale[level].textTransform) {
+    classes.push(`[text-transform:var(--ds-type-${level}-transform)]`);
+  }
+  return classes.join(' ');
+}
+
+/**
+ * Transition classes for the motion recipe's hover transition
+ * (empty when motion or hover transitions are disabled)
+ */
+export function transitionClasses(motion: MotionRecipes): string {
+  const { behavior, durations, easings } = motion;
+  if (!behavior.enabled || behavior.hoverTransition === 'none') return '';
+  const duration = behavior.hoverTransition === 'fast' ? durations.fast : durations.normal;
+  return `transition-all duration-[${duration}ms] ease-[${arbitrary(easings.default)}]`;
+}
+
+/**
+ * Entrance animation class for the motion recipe
+ */
+export function entranceClass(motion: MotionRecipes): string {
+  if (!motion.behavior.enabled) return '';
+  switch (motion.behavior.entranceAnimation) {
+    case 'fade':
+      return 'animate-fadeIn';
+    case 'slideUp':
+      return 'animate-slideUp';
+    case 'scale':
+      return 'animate-scaleIn';
+    default:
+      return '';
+  }
+}
+
+/**
+ * Hover class for the marketing FeatureCard recipe
+ */
+export function featureHoverClass(recipes: MarketingRecipes): string {
+  if (!recipes.motion.behavior.enabled) return '';
+  switch (recipes.FeatureCard.hoverEffect) {
+    case 'lift':
+      return 'hover:-translate-y-0.5';
+    case 'glow':
+      return 'hover:shadow-[var(--ds-shadow-glow)]';
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateSignatureBlock,
+  generateSignatureBlocks,
+  layoutSignalPaths,
+  layoutStackedCards,
+} from './signature-blocks';
+import { normalizeThemePack } from '../core/engine';
+import type { MarketingRecipes, ThemeRecipes } from '../core/types';
+import { chronicleDark, opsCalm } from '../themes';
+
+const chronicle = normalizeThemePack(chronicleDark);
+const marketing = (chronicle.recipes as ThemeRecipes).marketing;
+const opsMarketing = (normalizeThemePack(opsCalm).recipes as ThemeRecipes).marketing;
+const TARGETS = { react: 'tsx', vue: 'vue', svelte: 'svelte', astro: 'astro' } as const;
+
+function withMarketing<K extends keyof MarketingRecipes>(key: K, patch: Partial<MarketingRecipes[K]>): MarketingRecipes {
+  return { ...marketing, [key]: { ...marketing[key], ...patch } };
+}
+
+describe('layoutSignalPaths', () => {
+  it('is deterministic for a recipe', () => {
+    const config = marketing.signatureBlocks.signalPathConfig;
+    expect(layoutSignalPaths({ ...config })).toEqual(layoutSignalPaths(config));
+    expect(layoutSignalPaths(opsMarketing.signatureBlocks.signalPathConfig)).not.toEqual(layoutSignalPaths(config));
+  });
+
+  it('draws paths and nodes by complexity', () => {
+    const config = marketing.signatureBlocks.signalPathConfig;
+    const simple = layoutSignalPaths({ ...config, complexity: 'simple' });
+    const complex = layoutSignalPaths({ ...config, complexity: 'complex' });
+    expect([simple.paths.length, simple.nodes.length]).toEqual([3, 6]);
+    expect([complex.paths.length, complex.nodes.length]).toEqual([8, 32]);
+    expect(simple.paths.every(path => path.startsWith('M 0 ') && / 800 [\d.]+$/.test(path))).toBe(true);
+  });
+});
+
+describe('layoutStackedCards', () => {
+  it('fans the visible cards out from the front card', () => {
+    const poses = layoutStackedCards(marketing.signatureBlocks.stackedCardsConfig);
+    expect(poses.map(pose => pose.rotate)).toEqual([0, 3, 6]);
+    expect(poses.map(pose => pose.scale)).toEqual([1, 0.96, 0.92]);
+    expect(generateSignatureBlock(chronicle, marketing, 'StackedCards').code).toContain([
+      'const REST: CardPose[] = [',
+      '  { rotate: 0, x: 0, y: 0, scale: 1 },',
+      '  { rotate: 3, x: 24, y: -12, scale: 0.96 },',
+      '  { rotate: 6, x: 48, y: -24, scale: 0.92 },',
+      '];',
+    ].join('\n'));
+  });
+
+  it('mirrors the fan for a left stack', () => {
+    const config = { ...marketing.signatureBlocks.stackedCardsConfig, stackDirection: 'left' as const };
+    expect(layoutStackedCards(config).slice(1).map(pose => [pose.rotate, pose.x])).toEqual([[-3, -24], [-6, -48]]);
+  });
+});
+
+describe('generateSignatureBlock', () => {
+  it.each(Object.entries(TARGETS))('renders every block for %s', (target, extension) => {
+    for (const block of ['SignalPathGraphic', 'StackedCards', 'MetricRibbon'] as const) {
+      const { code, files } = generateSignatureBlock(chronicle, marketing, block, block, target as keyof typeof TARGETS);
+      expect(files?.[0].path).toBe(`${block}.${extension}`);
+      expect(code).toBe(files?.[0].code);
+    }
+  });
+
+  it('produces the same code for the same recipe', () => {
+    const first = generateSignatureBlock(chronicle, marketing, 'SignalPathGraphic');
+    expect(generateSignatureBlock(chronicle, structuredClone(marketing), 'SignalPathGraphic')).toEqual(first);
+  });
+
+  it('counts metrics up with the countUp binding', () => {
+    const { code, files } = generateSignatureBlock(chronicle, marketing, 'MetricRibbon', 'MetricRibbon', 'vue');
+    expect(files?.map(file => file.path)).toContain('CountUp.vue');
+    expect(code).toContain('<CountUp');
+  });
+
+  it('shows metrics as they are without motion', () => {
+    const recipes = withMarketing('motion', { behavior: { ...marketing.motion.behavior, enabled: false } });
+    const { code, files } = generateSignatureBlock(chronicle, recipes, 'MetricRibbon', 'MetricRibbon', 'vue');
+    expect(files?.map(file => file.path)).not.toContain('CountUp.vue');
+    expect(code).not.toContain('CountUp');
+  });
+});
+
+describe('generateSignatureBlocks', () => {
+  it('writes one React module', () => {
+    const { code, files } = generateSignatureBlocks(chronicle, marketing);
+    expect(files?.map(file => file.path)).toEqual(['signature-blocks.tsx']);
+    for (const block of ['SignalPathGraphic', 'StackedCards', 'MetricRibbon']) {
+      expect(code).toContain(`export function ${block}(`);
+    }
+  });
+
+  it.each(['vue', 'svelte', 'astro'] as const)('writes a file per block for %s', (target) => {
+    const extension = TARGETS[target];
+    expect(generateSignatureBlocks(chronicle, marketing, target).files?.map(file => file.path)).toEqual([
+      `SignalPathGraphic.${extension}`,
+      `StackedCards.${extension}`,
+      `MetricRibbon.${extension}`,
+      `CountUp.${extension}`,
+      'signature-blocks.types.ts',
+    ]);
+  });
+
+  it('includes only the blocks the recipe enables', () => {
+    const recipes = withMarketing('signatureBlocks', { signalPath: false, metricRibbon: false });
+    expect(generateSignatureBlocks(chronicle, recipes, 'vue').files?.map(file => file.path))
+      .toEqual(['StackedCards.vue', 'signature-blocks.types.ts']);
+  });
+
+  it('throws when the recipe enables no blocks', () => {
+    const recipes = withMarketing('signatureBlocks', { signalPath: false, stackedCards: false, metricRibbon: false });
+    expect(() => generateSignatureBlocks(chronicle, recipes)).toThrow('enable no signature blocks');
+  });
+});
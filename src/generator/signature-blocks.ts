@@ -0,0 +1,591 @@
+/**
+ * Signature Block Generators
+ *
+ * Plans the marketing signature blocks (SignalPathGraphic, StackedCards,
+ * MetricRibbon) as SVG and markup components for any output target.
+ * Geometry, colors and animation come entirely from `SignatureBlocksRecipe`
+ * and `MotionBindingsRecipe`; path layouts use a PRNG seeded from the
+ * recipe, so the same recipe always produces the same code.
+ */
+
+import type {
+  ThemePack,
+  MarketingRecipes,
+  SignalPathRecipe,
+  StackedCardsRecipe,
+  MetricRibbonRecipe,
+} from '../core/types';
+import type { GeneratedCode } from './index';
+import type { SignatureBlockName } from './storyboard';
+import { arbitrary, colorClass, dsColor } from './recipe-classes';
+import {
+  renderComponent,
+  el,
+  expr,
+  show,
+  when,
+  each,
+  use,
+  type ComponentPlan,
+  type OutputTarget,
+  type PlanNode,
+  type PlanValue,
+} from './targets';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Component types with a signature block generator
+ */
+export const SIGNATURE_COMPONENT_BLOCKS = {
+  'signal-path-graphic': 'SignalPathGraphic',
+  'stacked-cards': 'StackedCards',
+  'metric-ribbon': 'MetricRibbon',
+} as const satisfies Record<string, SignatureBlockName>;
+
+export type SignatureComponentType = keyof typeof SIGNATURE_COMPONENT_BLOCKS;
+
+interface BlockPlan {
+  plan: ComponentPlan;
+  explanation: string;
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const VIEWBOX = { width: 800, height: 400 };
+
+const COMPLEXITY: Record<SignalPathRecipe['complexity'], { paths: number; nodes: number }> = {
+  simple: { paths: 3, nodes: 2 },
+  medium: { paths: 5, nodes: 3 },
+  complex: { paths: 8, nodes: 4 },
+};
+
+const CARD_SHADOWS: Record<StackedCardsRecipe['shadowDepth'], string> = {
+  subtle: 'var(--ds-shadow-surface)',
+  medium: 'var(--ds-shadow-popover)',
+  dramatic: '0 32px 64px -16px rgb(0 0 0 / 0.45), var(--ds-shadow-popover)',
+};
+
+const NAMED_DIRECTIONS: Record<string, number> = {
+  'to top': 0,
+  'to right': 90,
+  'to bottom': 180,
+  'to left': 270,
+};
+
+/** Module the blocks share when generated together */
+const BLOCKS_MODULE = 'signature-blocks';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic PRNG (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Gradient line across the viewBox for a CSS angle or `to <side>`
+ */
+function gradientLine(direction: string): { x1: number; y1: number; x2: number; y2: number } {
+  const degrees = NAMED_DIRECTIONS[direction.trim()] ?? (parseFloat(direction) || 90);
+  const radians = (degrees * Math.PI) / 180;
+  const dx = (Math.sin(radians) * VIEWBOX.width) / 2;
+  const dy = (-Math.cos(radians) * VIEWBOX.height) / 2;
+  const cx = VIEWBOX.width / 2;
+  const cy = VIEWBOX.height / 2;
+  return { x1: round(cx - dx), y1: round(cy - dy), x2: round(cx + dx), y2: round(cy + dy) };
+}
+
+function motionEnabled(recipes: MarketingRecipes): boolean {
+  return recipes.motion.behavior.enabled;
+}
+
+/**
+ * Transition classes that reduced motion turns off (inline transition
+ * styles would win over `motion-reduce:`)
+ */
+function transitionClass(property: string, duration: number, easing: string): string {
+  return `transition-[${property}] duration-[${duration}ms] ease-[${arbitrary(easing)}] motion-reduce:transition-none`;
+}
+
+// =============================================================================
+// SIGNAL PATH GRAPHIC
+// =============================================================================
+
+/**
+ * Paths and nodes for a signal path recipe: smooth left-to-right curves
+ * through evenly spaced nodes
+ */
+export function layoutSignalPaths(config: SignalPathRecipe): { paths: string[]; nodes: [number, number][] } {
+  const random = createRandom(hashString(JSON.stringify(config)));
+  const { paths: count, nodes: perPath } = COMPLEXITY[config.complexity];
+  const paths: string[] = [];
+  const nodes: [number, number][] = [];
+  const margin = 30;
+
+  for (let p = 0; p < count; p++) {
+    const points: [number, number][] = [[0, round(margin + random() * (VIEWBOX.height - margin * 2))]];
+    for (let i = 1; i <= perPath + 1; i++) {
+      const x = round((VIEWBOX.width * i) / (perPath + 1));
+      const y = round(clamp(points[i - 1][1] + (random() - 0.5) * 160, margin, VIEWBOX.height - margin));
+      points.push([x, y]);
+    }
+
+    const segments = points.slice(1).map(([x, y], i) => {
+      const [px, py] = points[i];
+      const mid = round(px + (x - px) / 2);
+      return `C ${mid} ${py} ${mid} ${y} ${x} ${y}`;
+    });
+    paths.push(`M ${points[0][0]} ${points[0][1]} ${segments.join(' ')}`);
+    nodes.push(...points.slice(1, -1));
+  }
+
+  return { paths, nodes };
+}
+
+function planSignalPath(recipes: MarketingRecipes, name: string): BlockPlan {
+  const config = recipes.signatureBlocks.signalPathConfig;
+  const binding = motionEnabled(recipes) ? recipes.motionBindings.signatureBlocks.signalPath : 'none';
+  const { paths, nodes } = layoutSignalPaths(config);
+  const { durations, easings, behavior } = recipes.motion;
+  const draw = binding === 'draw';
+  const pulse = binding === 'pulse';
+
+  const stroke = config.gradient ? expr(`'url(#' + id + '-stroke)'`) : dsColor(config.strokeColor);
+  const line = config.gradient ? gradientLine(config.gradient.direction) : null;
+  const defs: PlanNode[] = [
+    ...(config.gradient && line ? [
+      el('linearGradient', {
+        attributes: { id: expr(`id + '-stroke'`), gradientUnits: 'userSpaceOnUse', x1: line.x1, y1: line.y1, x2: line.x2, y2: line.y2 },
+      },
+      el('stop', { attributes: { offset: '0%' }, style: { stopColor: dsColor(config.gradient.from) } }),
+      el('stop', { attributes: { offset: '100%' }, style: { stopColor: dsColor(config.gradient.to) } })),
+    ] : []),
+    ...(config.nodeGlow ? [
+      el('filter', { attributes: { id: expr(`id + '-glow'`), x: '-100%', y: '-100%', width: '300%', height: '300%' } },
+        el('feGaussianBlur', { attributes: { stdDeviation: round(config.blur / 2), result: 'blur' } }),
+        el('feMerge', {},
+          el('feMergeNode', { attributes: { in: 'blur' } }),
+          el('feMergeNode', { attributes: { in: 'SourceGraphic' } }))),
+    ] : []),
+  ];
+
+  const path = el('path', {
+    attributes: {
+      d: expr('d'),
+      'stroke-opacity': config.strokeOpacity,
+      'stroke-width': config.strokeWidth,
+      'stroke-linecap': 'round',
+      ...(draw ? { pathLength: 1, 'stroke-dasharray': 1, 'stroke-dashoffset': expr('inView ? 0 : 1') } : {}),
+    },
+    ...(draw ? { classes: transitionClass('stroke-dashoffset', durations.deliberate, easings.enter) } : {}),
+    style: draw
+      ? { stroke, transitionDelay: expr(`index * ${behavior.staggerDelay} + 'ms'`) }
+      : { stroke },
+  });
+  const nodeStyle: Record<string, PlanValue> = pulse
+    ? { fill: dsColor(config.nodeColor), animationDelay: expr(`index * ${behavior.staggerDelay * 2} + 'ms'`) }
+    : { fill: dsColor(config.nodeColor) };
+  const circle = el('circle', {
+    attributes: {
+      cx: expr('cx'),
+      cy: expr('cy'),
+      r: 4,
+      ...(config.nodeGlow ? { filter: expr(`'url(#' + id + '-glow)'`) } : {}),
+    },
+    ...(pulse ? { classes: 'animate-pulse motion-reduce:animate-none' } : {}),
+    style: nodeStyle,
+  });
+
+  const plan: ComponentPlan = {
+    name,
+    declarations: [
+      `const PATHS = [\n${paths.map(d => `  '${d}',`).join('\n')}\n];`,
+      `const NODES: [number, number][] = [\n${nodes.map(([x, y]) => `  [${x}, ${y}],`).join('\n')}\n];`,
+    ],
+    props: [{ name: 'className', type: 'string', optional: true }],
+    behaviors: {
+      ...(defs.length > 0 ? { id: true } : {}),
+      ...(draw ? { inView: { onScroll: config.animateOnScroll } } : {}),
+    },
+    template: [
+      el('svg', {
+        attributes: { viewBox: `0 0 ${VIEWBOX.width} ${VIEWBOX.height}`, fill: 'none', 'aria-hidden': 'true' },
+        classes: [{ expr: 'className' }],
+      },
+      ...(defs.length > 0 ? [el('defs', {}, ...defs)] : []),
+      each('PATHS', 'd', 'index', path, 'index'),
+      each('NODES', '[cx, cy]', 'index', circle, 'index')),
+    ],
+  };
+
+  return {
+    plan,
+    explanation: `${name}: ${config.complexity} (${paths.length} paths, ${nodes.length} nodes)${config.gradient ? ', gradient stroke' : ''}${config.nodeGlow ? ', glowing nodes' : ''}, motion ${binding}.`,
+  };
+}
+
+// =============================================================================
+// STACKED CARDS
+// =============================================================================
+
+interface CardPose {
+  rotate: number;
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/**
+ * Resting poses for a stacked cards recipe, front card first
+ */
+export function layoutStackedCards(config: StackedCardsRecipe): CardPose[] {
+  const count = Math.max(1, Math.round(config.visibleCards));
+  return Array.from({ length: count }, (_, i) => {
+    const depth = count === 1 ? 0 : i / (count - 1);
+    const side = config.stackDirection === 'left' ? -1
+      : config.stackDirection === 'right' ? 1
+      : i % 2 === 0 ? -1 : 1;
+    return {
+      rotate: round(side * config.rotationRange * depth),
+      x: config.stackDirection === 'center' ? 0 : side * 24 * i,
+      y: -12 * i,
+      scale: round((1 - 0.04 * i) * 100) / 100,
+    };
+  });
+}
+
+function formatPoses(name: string, poses: CardPose[]): string {
+  return `const ${name}: CardPose[] = [
+${poses.map(pose => `  { rotate: ${pose.rotate}, x: ${pose.x}, y: ${pose.y}, scale: ${pose.scale} },`).join('\n')}
+];`;
+}
+
+function planStackedCards(recipes: MarketingRecipes, name: string): BlockPlan {
+  const config = recipes.signatureBlocks.stackedCardsConfig;
+  const enabled = motionEnabled(recipes);
+  const binding = enabled ? recipes.motionBindings.signatureBlocks.stackedCards : 'none';
+  const hover = enabled ? config.hoverEffect : 'none';
+  const { durations, easings, behavior } = recipes.motion;
+
+  const poses = layoutStackedCards(config);
+  const hoverPoses = hover === 'fan'
+    ? poses.map(pose => ({ ...pose, rotate: round(pose.rotate * 2), x: pose.x * 3 || (pose.rotate === 0 ? 0 : Math.sign(pose.rotate) * 40) }))
+    : hover === 'lift'
+      ? poses.map(pose => ({ ...pose, y: pose.y - 8 }))
+      : null;
+  const startPoses = binding === 'cascade'
+    ? poses.map(pose => ({ ...pose, y: pose.y + 24 }))
+    : binding === 'fan'
+      ? poses.map(pose => ({ ...pose, rotate: 0, x: 0 }))
+      : null;
+
+  const border = {
+    none: '',
+    subtle: ` border ${colorClass('border', 'border', '0.12')}`,
+    accent: ` border ${colorClass('border', 'accent', '0.5')}`,
+  }[config.borderStyle];
+  const transition = enabled ? ` ${transitionClass('transform,opacity', durations.slow, easings.spring)}` : '';
+
+  const pose = [
+    hoverPoses ? 'hovered ? HOVER[index]' : '',
+    startPoses ? 'inView ? REST[index] : START[index]' : 'REST[index]',
+  ].filter(Boolean).join(' : ');
+  const style: Record<string, PlanValue> = {
+    transform: expr(`toTransform(${pose})`),
+    zIndex: expr('REST.length - index'),
+    boxShadow: CARD_SHADOWS[config.shadowDepth],
+    ...(binding === 'cascade' ? { opacity: expr('inView ? 1 : 0') } : {}),
+    ...(startPoses ? {
+      transitionDelay: expr(`${hoverPoses ? 'hovered ? \'0ms\' : ' : ''}(REST.length - 1 - index) * ${behavior.staggerDelay} + 'ms'`),
+    } : {}),
+  };
+
+  const tilt = hover === 'tilt';
+  const card = el('div', {
+    classes: `absolute inset-x-0 top-12 ${colorClass('bg', 'surface')} rounded-[var(--ds-radius-surface)] p-6${border}${transition}`,
+    style,
+  },
+  el('h3', { classes: `font-semibold ${colorClass('text', 'text')}`, inline: true }, show('card.title')),
+  when('card.description', [
+    el('p', { classes: `mt-2 text-sm ${colorClass('text', 'textMuted')}`, inline: true }, show('card.description')),
+  ]));
+
+  const plan: ComponentPlan = {
+    name,
+    interfaces: [{
+      name: 'CardPose',
+      fields: [
+        { name: 'rotate', type: 'number' },
+        { name: 'x', type: 'number' },
+        { name: 'y', type: 'number' },
+        { name: 'scale', type: 'number' },
+      ],
+      exported: false,
+    }],
+    declarations: [
+      `/** Front card first */\n${formatPoses('REST', poses)}`,
+      ...(hoverPoses ? [formatPoses('HOVER', hoverPoses)] : []),
+      ...(startPoses ? [formatPoses('START', startPoses)] : []),
+      `function toTransform({ rotate, x, y, scale }: CardPose): string {
+  return 'translate(' + x + 'px, ' + y + 'px) rotate(' + rotate + 'deg) scale(' + scale + ')';
+}`,
+    ],
+    props: [
+      { name: 'cards', type: '{ title: string; description?: string }[]' },
+      { name: 'className', type: 'string', optional: true },
+    ],
+    behaviors: {
+      ...(startPoses ? { inView: {} } : {}),
+      ...(hoverPoses || tilt ? { hover: true } : {}),
+    },
+    template: [
+      el('div', {
+        classes: [
+          `relative mx-auto h-72 w-full max-w-md${tilt ? ` ${transitionClass('transform', durations.normal, easings.default)}` : ''}`,
+          { expr: 'className' },
+        ],
+        ...(tilt ? { style: { transform: expr(`hovered ? 'perspective(800px) rotateX(6deg) rotateY(-8deg)' : 'none'`) } } : {}),
+      }, each('cards.slice(0, REST.length)', 'card', 'index', card, 'index')),
+    ],
+  };
+
+  return {
+    plan,
+    explanation: `${name}: ${poses.length} cards stacked ${config.stackDirection} within ${config.rotationRange}deg, ${config.shadowDepth} shadow, hover ${hover}, motion ${binding}.`,
+  };
+}
+
+// =============================================================================
+// METRIC RIBBON
+// =============================================================================
+
+function ribbonBackground(config: MetricRibbonRecipe): string {
+  switch (config.background) {
+    case 'surface':
+      return `${colorClass('bg', 'surface')} border ${colorClass('border', 'border', '0.1')} rounded-[var(--ds-radius-surface)]`;
+    case 'accent-muted':
+      return `${colorClass('bg', 'accentMuted')} rounded-[var(--ds-radius-surface)]`;
+    case 'gradient':
+      return `bg-[${arbitrary(`linear-gradient(135deg, ${dsColor('accent', 0.12)}, ${dsColor('accentSecondary', 0.12)})`)}] rounded-[var(--ds-radius-surface)]`;
+    default:
+      return '';
+  }
+}
+
+function valueClasses(config: MetricRibbonRecipe): string {
+  switch (config.valueStyle) {
+    case 'light':
+      return `font-light ${colorClass('text', 'text')}`;
+    case 'gradient':
+      return `font-semibold bg-[${arbitrary(`linear-gradient(135deg, ${dsColor('accent')}, ${dsColor('accentSecondary')})`)}] bg-clip-text text-transparent`;
+    default:
+      return `font-semibold ${colorClass('text', 'text')}`;
+  }
+}
+
+/**
+ * Counts a metric's number up from zero once active, keeping its prefix,
+ * suffix, decimals and grouping
+ */
+function planCountUp(duration: number): ComponentPlan {
+  return {
+    name: 'CountUp',
+    exported: false,
+    declarations: ['const NUMBER_PATTERN = /^(\\D*?)(\\d[\\d,]*(?:\\.\\d+)?)(.*)$/;'],
+    props: [
+      { name: 'value', type: 'string' },
+      { name: 'active', type: 'boolean' },
+    ],
+    state: [{ name: 'display', initial: 'value' }],
+    effects: [{
+      name: 'countUp',
+      deps: ['value', 'active'],
+      body: `const match = NUMBER_PATTERN.exec(value);
+if (!active || !match || window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+  setDisplay(value);
+  return;
+}
+
+const [, prefix, number, suffix] = match;
+const target = parseFloat(number.replace(/,/g, ''));
+const decimals = number.split('.')[1]?.length ?? 0;
+const format = (current: number) => prefix + current.toLocaleString('en-US', {
+  minimumFractionDigits: decimals,
+  maximumFractionDigits: decimals,
+  useGrouping: number.includes(','),
+}) + suffix;
+
+let frame = 0;
+let start: number | null = null;
+const step = (time: number) => {
+  start ??= time;
+  const progress = Math.min(1, (time - start) / ${duration});
+  setDisplay(format(target * (1 - Math.pow(1 - progress, 3))));
+  if (progress < 1) frame = requestAnimationFrame(step);
+};
+frame = requestAnimationFrame(step);
+return () => cancelAnimationFrame(frame);`,
+    }],
+    template: [show('display')],
+  };
+}
+
+function planMetricRibbon(recipes: MarketingRecipes, name: string): BlockPlan {
+  const config = recipes.signatureBlocks.metricRibbonConfig;
+  const binding = motionEnabled(recipes) ? recipes.motionBindings.signatureBlocks.metricRibbon : 'none';
+  const { durations, easings, behavior } = recipes.motion;
+  const countUp = binding === 'countUp';
+  const slideIn = binding === 'slideIn';
+  const animated = countUp || slideIn;
+
+  const separator = config.separator === 'line'
+    ? ` md:border-l md:first:border-l-0 ${colorClass('border', 'border', '0.2')}`
+    : '';
+  const dot = config.separator === 'dot'
+    ? [when('index > 0', [el('span', {
+      attributes: { 'aria-hidden': 'true' },
+      classes: `absolute left-0 top-1/2 hidden size-1 -translate-x-1/2 -translate-y-1/2 rounded-full ${colorClass('bg', 'textMuted')} md:block`,
+    })])]
+    : [];
+  const label = config.labelStyle === 'muted' ? colorClass('text', 'textMuted') : colorClass('text', 'text');
+  const background = ribbonBackground(config);
+
+  const metric = el('div', {
+    classes: `relative flex flex-col items-center gap-1 px-6 py-5 text-center${separator}${slideIn ? ` ${transitionClass('transform,opacity', durations.slow, easings.enter)}` : ''}`,
+    ...(slideIn ? {
+      style: {
+        opacity: expr('inView ? 1 : 0'),
+        transform: expr(`inView ? 'none' : 'translateX(-16px)'`),
+        transitionDelay: expr(`index * ${behavior.staggerDelay} + 'ms'`),
+      },
+    } : {}),
+  },
+  ...dot,
+  el('div', { classes: `text-3xl tabular-nums ${valueClasses(config)}` },
+    countUp ? use('CountUp', { value: expr('metric.value'), active: expr('inView') }) : show('metric.value')),
+  el('div', { classes: `text-sm ${label}`, inline: true }, show('metric.label')));
+
+  const plan: ComponentPlan = {
+    name,
+    declarations: [`const COUNT = ${config.count};`],
+    props: [
+      { name: 'metrics', type: '{ value: string; label: string }[]' },
+      { name: 'className', type: 'string', optional: true },
+    ],
+    behaviors: animated ? { inView: {} } : {},
+    template: [
+      el('div', {
+        classes: [`grid grid-cols-2 md:grid-cols-${config.count}${background ? ` ${background}` : ''}`, { expr: 'className' }],
+      }, each('metrics.slice(0, COUNT)', 'metric', 'metric.label', metric, 'index')),
+    ],
+    ...(countUp ? { parts: [planCountUp(durations.deliberate)] } : {}),
+  };
+
+  return {
+    plan,
+    explanation: `${name}: ${config.count} metrics on ${config.background}, ${config.separator} separators, ${config.valueStyle} values, motion ${binding}.`,
+  };
+}
+
+// =============================================================================
+// GENERATION
+// =============================================================================
+
+const PLANS: Record<SignatureBlockName, (recipes: MarketingRecipes, name: string) => BlockPlan> = {
+  SignalPathGraphic: planSignalPath,
+  StackedCards: planStackedCards,
+  MetricRibbon: planMetricRibbon,
+};
+
+const FLAGS: Record<SignatureBlockName, 'signalPath' | 'stackedCards' | 'metricRibbon'> = {
+  SignalPathGraphic: 'signalPath',
+  StackedCards: 'stackedCards',
+  MetricRibbon: 'metricRibbon',
+};
+
+/**
+ * Render blocks together: the first block's plan carries the others as parts
+ */
+function assemble(theme: ThemePack, blocks: BlockPlan[], target: OutputTarget, module?: string): GeneratedCode {
+  const [first, ...rest] = blocks.map(block => block.plan);
+  const plan: ComponentPlan = {
+    ...first,
+    ...(module ? { module } : {}),
+    parts: [...(first.parts ?? []), ...rest.flatMap(({ parts = [], ...other }) => [other, ...parts])],
+  };
+
+  return {
+    ...renderComponent(plan, target),
+    explanation: `Signature blocks from the "${theme.name}" recipes. ${blocks.map(block => block.explanation).join(' ')}`,
+  };
+}
+
+/**
+ * Generate one signature block component
+ *
+ * @example
+ * ```ts
+ * const { marketing } = theme.recipes;
+ * generateSignatureBlock(theme, marketing, 'MetricRibbon').code;
+ * generateSignatureBlock(theme, marketing, 'MetricRibbon', 'MetricRibbon', 'svelte').files;
+ * ```
+ */
+export function generateSignatureBlock(
+  theme: ThemePack,
+  recipes: MarketingRecipes,
+  block: SignatureBlockName,
+  name: string = block,
+  target: OutputTarget = 'react'
+): GeneratedCode {
+  return assemble(theme, [PLANS[block](recipes, name)], target);
+}
+
+/**
+ * Generate the signature blocks a storyboard page imports
+ * (`@/components/signature-blocks`), with every block the recipe enables:
+ * one React module, or one file per component for the other targets
+ */
+export function generateSignatureBlocks(
+  theme: ThemePack,
+  recipes: MarketingRecipes,
+  target: OutputTarget = 'react'
+): GeneratedCode {
+  const blocks = (Object.keys(PLANS) as SignatureBlockName[])
+    .filter(block => recipes.signatureBlocks[FLAGS[block]]);
+  if (blocks.length === 0) {
+    throw new Error(`The "${theme.name}" recipes enable no signature blocks`);
+  }
+  return assemble(theme, blocks.map(block => PLANS[block](recipes, block)), target, BLOCKS_MODULE);
+}
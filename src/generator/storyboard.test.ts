@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateMarketingPage,
+  resolveStoryboard,
+  resolveMotifLayers,
+  DEFAULT_SIGNATURE_BLOCKS_PATH,
+} from './storyboard';
+import { normalizeThemePack } from '../core/engine';
+import type { MarketingRecipes, ThemeRecipes } from '../core/types';
+import { chronicleDark } from '../themes';
+
+const chronicle = normalizeThemePack(chronicleDark);
+const marketing = (chronicle.recipes as ThemeRecipes).marketing;
+const TARGETS = { react: 'tsx', vue: 'vue', svelte: 'svelte', astro: 'astro' } as const;
+
+function withMarketing<K extends keyof MarketingRecipes>(key: K, patch: Partial<MarketingRecipes[K]>): MarketingRecipes {
+  return { ...marketing, [key]: { ...marketing[key], ...patch } };
+}
+
+describe('resolveStoryboard', () => {
+  it('keeps the recipe order without an audience', () => {
+    expect(resolveStoryboard(marketing.storyboard).map(section => section.id))
+      .toEqual(['hero', 'narrative', 'proof', 'metrics', 'cards', 'cta']);
+  });
+
+  it('reorders sections for an audience', () => {
+    expect(resolveStoryboard(marketing.storyboard, 'developer').map(section => section.id))
+      .toEqual(['hero', 'proof', 'narrative', 'cards', 'metrics', 'cta']);
+  });
+
+  it('drops sections an override leaves out and ignores unknown ids', () => {
+    const storyboard = { ...marketing.storyboard, audienceOverrides: { developer: ['cta', 'pricing', 'hero'] } };
+    expect(resolveStoryboard(storyboard, 'developer').map(section => section.id)).toEqual(['cta', 'hero']);
+  });
+});
+
+describe('resolveMotifLayers', () => {
+  it('scales opacities by the recipe intensity', () => {
+    const layers = resolveMotifLayers(marketing.motifs);
+    expect(layers.map(layer => [layer.type, layer.opacity])).toEqual(
+      marketing.motifs.layers.map(layer => [layer.type, Math.round(layer.opacity * marketing.motifs.intensity * 1000) / 1000])
+    );
+  });
+
+  it('merges overrides into existing layers and adds new ones', () => {
+    const layers = resolveMotifLayers({ ...marketing.motifs, intensity: 1 }, 'developer');
+    expect(layers.find(layer => layer.type === 'grid')?.opacity).toBe(0.1);
+    expect(layers.find(layer => layer.type === 'signalPaths')).toMatchObject({ opacity: 0.16, color: 'accent' });
+    expect(layers).toHaveLength(marketing.motifs.layers.length + 1);
+  });
+
+  it('drops invisible layers', () => {
+    expect(resolveMotifLayers({ ...marketing.motifs, intensity: 0 })).toEqual([]);
+  });
+});
+
+describe('generateMarketingPage', () => {
+  it('keeps the React page and its parts in one file', () => {
+    const { code, files } = generateMarketingPage(chronicle, marketing);
+    expect(files?.map(file => file.path)).toEqual(['LandingPage.tsx']);
+    expect(code).toContain('export function LandingPage(');
+    expect(code).toContain('function Motifs(');
+  });
+
+  it.each(['vue', 'svelte', 'astro'] as const)('writes a file per part for %s', (target) => {
+    const extension = TARGETS[target];
+    const { code, files } = generateMarketingPage(chronicle, marketing, { target });
+    const paths = files?.map(file => file.path);
+    expect(code).toBe(files?.[0].code);
+    expect(paths?.[0]).toBe(`LandingPage.${extension}`);
+    expect(paths).toEqual(expect.arrayContaining([`Motifs.${extension}`, `PageSection.${extension}`, `HeroSection.${extension}`]));
+    expect(paths?.at(-1)).toBe('LandingPage.types.ts');
+  });
+
+  it('imports signature blocks from the configured module', () => {
+    expect(generateMarketingPage(chronicle, marketing).code).toContain(`from '${DEFAULT_SIGNATURE_BLOCKS_PATH}'`);
+    expect(generateMarketingPage(chronicle, marketing, { signatureBlocksPath: '~/blocks' }).code).toContain(`from '~/blocks'`);
+  });
+
+  it('leaves out signature blocks the recipe turns off', () => {
+    const recipes = withMarketing('signatureBlocks', { signalPath: false, stackedCards: false, metricRibbon: false });
+    expect(generateMarketingPage(chronicle, recipes).code).not.toContain(DEFAULT_SIGNATURE_BLOCKS_PATH);
+  });
+
+  it('skips the motifs part when no layer is visible', () => {
+    const recipes = withMarketing('motifs', { intensity: 0 });
+    const paths = generateMarketingPage(chronicle, recipes, { target: 'vue' }).files?.map(file => file.path);
+    expect(paths).not.toContain('Motifs.vue');
+  });
+
+  it('follows the audience order in the explanation', () => {
+    const { explanation } = generateMarketingPage(chronicle, marketing, { audience: 'developer' });
+    expect(explanation).toContain('hero -> proof -> narrative -> cards -> metrics -> cta');
+  });
+
+  it('throws when the storyboard has no sections', () => {
+    const recipes = withMarketing('storyboard', { sections: [] });
+    expect(() => generateMarketingPage(chronicle, recipes)).toThrow('has no sections');
+  });
+});
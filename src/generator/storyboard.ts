@@ -0,0 +1,717 @@
+/**
+ * Storyboard Page Generator
+ *
+ * Turns a marketing storyboard (reordered for an audience when it has an
+ * override) into a page plan: a section component per section type,
+ * composed in storyboard order with each section's motifs, entrance motion
+ * and signature block wired in, rendered for any output target.
+ */
+
+import type {
+  ThemePack,
+  MarketingRecipes,
+  MarketingAudience,
+  MarketingSectionType,
+  MotifLayer,
+  MotifsRecipe,
+  StoryboardRecipe,
+  StoryboardSection,
+} from '../core/types';
+import type { GeneratedCode } from './index';
+import {
+  arbitrary,
+  colorClass,
+  dsColor,
+  surfaceClasses,
+  transitionClasses,
+  featureHoverClass,
+} from './recipe-classes';
+import {
+  renderComponent,
+  el,
+  expr,
+  txt,
+  show,
+  slot,
+  render,
+  when,
+  each,
+  use,
+  type ComponentPlan,
+  type OutputTarget,
+  type PlanInterface,
+  type PlanNode,
+  type PlanValue,
+} from './targets';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SignatureBlockName = NonNullable<StoryboardSection['signatureBlock']>;
+
+/**
+ * Options for marketing page generation
+ */
+export interface MarketingPageOptions {
+  /** Audience whose storyboard order and motif overrides apply */
+  audience?: MarketingAudience;
+  /** Page component name (default: 'LandingPage') */
+  name?: string;
+  /** Module the signature block components are imported from */
+  signatureBlocksPath?: string;
+  /** Framework to render to (default: 'react') */
+  target?: OutputTarget;
+}
+
+interface SectionTemplate {
+  component: string;
+  content: string;
+  /** Content interfaces, without shared ones; the last one holds the section's props */
+  interfaces: PlanInterface[];
+  /** Shared declarations the section needs */
+  uses: SharedDeclaration[];
+  template: (recipes: MarketingRecipes) => PlanNode[];
+}
+
+type SharedDeclaration = 'PageAction' | 'Metric' | 'CardItem' | 'ActionLink' | 'SectionTitle';
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+export const DEFAULT_SIGNATURE_BLOCKS_PATH = '@/components/signature-blocks';
+
+/** Keyframes come from `generateTailwindTheme()` */
+const ENTRANCE_CLASSES: Record<Exclude<StoryboardSection['motion'], 'none' | undefined>, string> = {
+  fadeUp: 'animate-ds-fade-up',
+  slideIn: 'animate-ds-slide-in',
+  scale: 'animate-ds-scale-in',
+};
+
+const SIGNATURE_FLAGS: Record<SignatureBlockName, keyof MarketingRecipes['signatureBlocks']> = {
+  SignalPathGraphic: 'signalPath',
+  StackedCards: 'stackedCards',
+  MetricRibbon: 'metricRibbon',
+};
+
+/** Content a signature block needs from its section */
+const SIGNATURE_CONTENT: Record<SignatureBlockName, { field: string; type: string } | null> = {
+  SignalPathGraphic: null,
+  StackedCards: { field: 'cards', type: 'CardItem[]' },
+  MetricRibbon: { field: 'metrics', type: 'Metric[]' },
+};
+
+const SHARED_INTERFACES: Partial<Record<SharedDeclaration, PlanInterface>> = {
+  PageAction: {
+    name: 'PageAction',
+    fields: [{ name: 'label', type: 'string' }, { name: 'href', type: 'string' }],
+  },
+  Metric: {
+    name: 'Metric',
+    fields: [{ name: 'value', type: 'string' }, { name: 'label', type: 'string' }],
+  },
+  CardItem: {
+    name: 'CardItem',
+    fields: [{ name: 'title', type: 'string' }, { name: 'description', type: 'string', optional: true }],
+  },
+};
+
+const SHARED_COMPONENTS: Partial<Record<SharedDeclaration, (recipes: MarketingRecipes) => ComponentPlan>> = {
+  ActionLink: recipes => ({
+    name: 'ActionLink',
+    exported: false,
+    props: [
+      { name: 'action', type: 'PageAction' },
+      { name: 'primary', type: 'boolean', default: 'false' },
+    ],
+    template: [
+      el('a', {
+        attributes: { href: expr('action.href') },
+        classes: [
+          `inline-flex items-center justify-center h-[var(--ds-density-control-height)] px-5 rounded-[var(--ds-radius-control)] font-medium ${transitionClasses(recipes.motion)}`,
+          {
+            when: 'primary',
+            then: `${colorClass('bg', 'accent')} ${colorClass('text', 'accentFg')} hover:${colorClass('bg', 'accent', '0.9')}`,
+            else: `border ${colorClass('border', 'border')} ${colorClass('text', 'text')} hover:${colorClass('bg', 'surface2')}`,
+          },
+        ],
+      }, show('action.label')),
+    ],
+  }),
+  SectionTitle: recipes => {
+    const header = recipes.SectionHeader;
+    const align = header.style === 'centered' ? ' items-center text-center' : '';
+    return {
+      name: 'SectionTitle',
+      exported: false,
+      props: [
+        { name: 'title', type: 'string' },
+        { name: 'subtitle', type: 'string', optional: true },
+      ],
+      template: [
+        el('div', { classes: `flex flex-col gap-3 pt-[${arbitrary(header.spacing.top)}] pb-[${arbitrary(header.spacing.bottom)}]${align}` },
+          el('h2', { classes: `[font-size:${arbitrary(header.titleSize)}] [font-weight:${header.titleWeight}] ${colorClass('text', 'text')}` },
+            show('title')),
+          when('subtitle', [
+            el('p', { classes: `text-lg ${colorClass('text', 'text', header.subtitleOpacity)} max-w-[${arbitrary(header.subtitleMaxWidth)}]` },
+              show('subtitle')),
+          ])),
+      ],
+    };
+  },
+};
+
+const SHARED_ORDER: SharedDeclaration[] = ['PageAction', 'Metric', 'CardItem', 'ActionLink', 'SectionTitle'];
+
+// =============================================================================
+// SECTION TEMPLATES
+// =============================================================================
+
+function emphasisClass(recipes: MarketingRecipes): string {
+  return recipes.AccentUsage.textEmphasisAllowed ? colorClass('text', 'accent') : colorClass('text', 'text');
+}
+
+function featureIconClass(recipes: MarketingRecipes): string {
+  switch (recipes.FeatureCard.iconStyle) {
+    case 'muted':
+      return colorClass('text', 'textMuted');
+    case 'gradient':
+      return `grid place-items-center rounded-[var(--ds-radius-control)] bg-[${arbitrary(`linear-gradient(135deg, ${dsColor('accent')}, ${dsColor('accentSecondary')})`)}] ${colorClass('text', 'accentFg')}`;
+    default:
+      return colorClass('text', 'accent');
+  }
+}
+
+function sectionTitle(optional = false): PlanNode {
+  const title = use('SectionTitle', { title: expr('title'), subtitle: expr('subtitle') });
+  return optional ? when('title', [title]) : title;
+}
+
+function signatureSlot(classes: string): PlanNode {
+  return when({ slot: 'signature' }, [el('div', { classes, inline: true }, slot('signature'))]);
+}
+
+const SECTIONS: Record<MarketingSectionType, SectionTemplate> = {
+  hero: {
+    component: 'HeroSection',
+    content: 'HeroContent',
+    uses: ['PageAction', 'ActionLink'],
+    interfaces: [{
+      name: 'HeroContent',
+      fields: [
+        { name: 'title', type: 'string' },
+        { name: 'subtitle', type: 'string', optional: true },
+        { name: 'primaryAction', type: 'PageAction', optional: true },
+        { name: 'secondaryAction', type: 'PageAction', optional: true },
+      ],
+    }],
+    template: recipes => {
+      const { Hero, LayoutRhythm } = recipes;
+      const gradient = `linear-gradient(135deg, ${dsColor('accent')}, ${dsColor('accentSecondary')})`;
+      const titleColor = Hero.accentGradient && recipes.AccentUsage.gradientAllowed
+        ? `bg-[${arbitrary(gradient)}] bg-clip-text text-transparent`
+        : colorClass('text', 'text');
+      return [
+        el('div', { classes: `flex flex-col items-center text-center gap-[${arbitrary(Hero.spacing.gap)}]` },
+          el('h1', {
+            classes: `[font-size:${arbitrary(Hero.titleSize)}] [font-weight:${Hero.titleWeight}] [letter-spacing:${Hero.titleTracking}] max-w-[${arbitrary(Hero.titleMaxWidth)}] ${titleColor}`,
+          }, show('title')),
+          when('subtitle', [
+            el('p', {
+              classes: `[font-size:${arbitrary(Hero.subtitleSize)}] ${colorClass('text', 'text', Hero.subtitleOpacity)} max-w-[${arbitrary(Hero.subtitleMaxWidth)}]`,
+            }, show('subtitle')),
+          ]),
+          when('primaryAction || secondaryAction', [
+            el('div', { classes: 'flex flex-wrap items-center justify-center gap-3' },
+              when('primaryAction', [use('ActionLink', { action: expr('primaryAction'), primary: true })]),
+              when('secondaryAction', [use('ActionLink', { action: expr('secondaryAction') })])),
+          ]),
+          signatureSlot(`w-full pt-[${arbitrary(LayoutRhythm.heroBottomGap)}]`)),
+      ];
+    },
+  },
+
+  narrative2: {
+    component: 'NarrativeSection',
+    content: 'NarrativeContent',
+    uses: ['SectionTitle'],
+    interfaces: [{
+      name: 'NarrativeContent',
+      fields: [
+        { name: 'title', type: 'string' },
+        { name: 'subtitle', type: 'string', optional: true },
+        { name: 'columns', type: '[string, string]', doc: 'Two columns of narrative copy' },
+      ],
+    }],
+    template: recipes => [
+      el('div', {},
+        sectionTitle(),
+        el('div', { classes: `grid gap-[${arbitrary(recipes.LayoutRhythm.featureGap)}] md:grid-cols-2` },
+          each('columns', 'text', 'index', el('p', { classes: `text-lg leading-relaxed ${colorClass('text', 'textMuted')}` }, show('text')), 'index')),
+        signatureSlot('mt-12')),
+    ],
+  },
+
+  proof3: {
+    component: 'ProofSection',
+    content: 'ProofContent',
+    uses: ['SectionTitle'],
+    interfaces: [
+      {
+        name: 'ProofItem',
+        fields: [
+          { name: 'value', type: 'string' },
+          { name: 'label', type: 'string' },
+          { name: 'description', type: 'string', optional: true },
+        ],
+      },
+      {
+        name: 'ProofContent',
+        fields: [
+          { name: 'title', type: 'string', optional: true },
+          { name: 'subtitle', type: 'string', optional: true },
+          { name: 'items', type: '[ProofItem, ProofItem, ProofItem]' },
+        ],
+      },
+    ],
+    template: recipes => [
+      el('div', {},
+        sectionTitle(true),
+        el('div', { classes: `grid gap-[${arbitrary(recipes.LayoutRhythm.featureGap)}] md:grid-cols-3` },
+          each('items', 'item', 'item.label', el('div', { classes: `${surfaceClasses(recipes.Surface.feature)} p-8` },
+            el('div', { classes: `text-4xl font-semibold tabular-nums ${emphasisClass(recipes)}`, inline: true }, show('item.value')),
+            el('div', { classes: `mt-2 font-medium ${colorClass('text', 'text')}`, inline: true }, show('item.label')),
+            when('item.description', [
+              el('p', { classes: `mt-2 text-sm ${colorClass('text', 'textMuted')}`, inline: true }, show('item.description')),
+            ])))),
+        signatureSlot('mt-12')),
+    ],
+  },
+
+  banner: {
+    component: 'BannerSection',
+    content: 'BannerContent',
+    uses: [],
+    interfaces: [{
+      name: 'BannerContent',
+      fields: [
+        { name: 'title', type: 'string' },
+        { name: 'description', type: 'string', optional: true },
+      ],
+    }],
+    template: recipes => {
+      const { AccentUsage } = recipes;
+      const background = AccentUsage.gradientAllowed && AccentUsage.backgroundGradient
+        ? `rounded-[var(--ds-radius-surface)] bg-[${arbitrary(AccentUsage.backgroundGradient)}]`
+        : surfaceClasses(recipes.Surface.default);
+      return [
+        el('div', { classes: `${background} px-8 py-12 text-center` },
+          el('h2', { classes: `text-2xl font-semibold ${colorClass('text', 'text')}`, inline: true }, show('title')),
+          when('description', [el('p', { classes: `mt-3 ${colorClass('text', 'textMuted')}`, inline: true }, show('description'))]),
+          signatureSlot('mt-8')),
+      ];
+    },
+  },
+
+  stackedCards: {
+    component: 'StackedCardsSection',
+    content: 'StackedCardsContent',
+    uses: ['SectionTitle', 'CardItem'],
+    interfaces: [{
+      name: 'StackedCardsContent',
+      fields: [
+        { name: 'title', type: 'string' },
+        { name: 'subtitle', type: 'string', optional: true },
+        { name: 'cards', type: 'CardItem[]' },
+      ],
+    }],
+    template: recipes => [
+      el('div', {},
+        sectionTitle(),
+        when({ slot: 'signature' }, [slot('signature')], [
+          el('div', { classes: `grid gap-[${arbitrary(recipes.LayoutRhythm.featureGap)}] md:grid-cols-3` },
+            each('cards', 'card', 'card.title', el('div', { classes: `${surfaceClasses(recipes.Surface.feature)} p-6` },
+              el('h3', { classes: `font-semibold ${colorClass('text', 'text')}`, inline: true }, show('card.title')),
+              when('card.description', [
+                el('p', { classes: `mt-2 text-sm ${colorClass('text', 'textMuted')}`, inline: true }, show('card.description')),
+              ])))),
+        ])),
+    ],
+  },
+
+  features: {
+    component: 'FeaturesSection',
+    content: 'FeaturesContent',
+    uses: ['SectionTitle'],
+    interfaces: [
+      {
+        name: 'FeatureItem',
+        fields: [
+          { name: 'title', type: 'string' },
+          { name: 'description', type: 'string' },
+          { name: 'icon', type: 'node', optional: true },
+        ],
+      },
+      {
+        name: 'FeaturesContent',
+        fields: [
+          { name: 'title', type: 'string' },
+          { name: 'subtitle', type: 'string', optional: true },
+          { name: 'features', type: 'FeatureItem[]' },
+        ],
+      },
+    ],
+    template: recipes => {
+      const { features } = recipes.motionBindings;
+      const stagger = recipes.motion.behavior.enabled && features.entrance === 'stagger';
+      const card = [
+        surfaceClasses(recipes.Surface.feature),
+        'p-6',
+        transitionClasses(recipes.motion),
+        featureHoverClass(recipes),
+        stagger ? `${ENTRANCE_CLASSES.fadeUp} motion-reduce:animate-none` : '',
+      ].filter(Boolean).join(' ');
+      const feature = el('div', {
+        classes: card,
+        ...(stagger ? { style: { animationDelay: expr(`index * ${features.staggerDelay} + 'ms'`) } } : {}),
+      },
+      when('feature.icon', [el('div', { classes: `size-10 mb-4 ${featureIconClass(recipes)}`, inline: true }, render('feature.icon'))]),
+      el('h3', { classes: `font-semibold ${colorClass('text', 'text')}`, inline: true }, show('feature.title')),
+      el('p', { classes: `mt-2 text-sm ${colorClass('text', 'textMuted')}`, inline: true }, show('feature.description')));
+      return [
+        el('div', {},
+          sectionTitle(),
+          el('div', { classes: `grid gap-[${arbitrary(recipes.LayoutRhythm.featureGap)}] md:grid-cols-2 lg:grid-cols-3` },
+            each('features', 'feature', 'feature.title', feature, stagger ? 'index' : undefined)),
+          signatureSlot('mt-12')),
+      ];
+    },
+  },
+
+  testimonials: {
+    component: 'TestimonialsSection',
+    content: 'TestimonialsContent',
+    uses: ['SectionTitle'],
+    interfaces: [
+      {
+        name: 'Testimonial',
+        fields: [
+          { name: 'quote', type: 'string' },
+          { name: 'author', type: 'string' },
+          { name: 'role', type: 'string', optional: true },
+        ],
+      },
+      {
+        name: 'TestimonialsContent',
+        fields: [
+          { name: 'title', type: 'string', optional: true },
+          { name: 'subtitle', type: 'string', optional: true },
+          { name: 'testimonials', type: 'Testimonial[]' },
+        ],
+      },
+    ],
+    template: recipes => [
+      el('div', {},
+        sectionTitle(true),
+        el('div', { classes: `grid gap-[${arbitrary(recipes.LayoutRhythm.featureGap)}] md:grid-cols-2` },
+          each('testimonials', 'testimonial', 'testimonial.author', el('figure', { classes: `${surfaceClasses(recipes.Surface.feature)} p-8` },
+            el('blockquote', { classes: `text-lg ${colorClass('text', 'text')}`, inline: true }, show('testimonial.quote')),
+            el('figcaption', { classes: `mt-4 text-sm ${colorClass('text', 'textMuted')}`, inline: true },
+              show('testimonial.author'),
+              when('testimonial.role', [el('span', { inline: true }, txt(' · '), show('testimonial.role'))]))))),
+        signatureSlot('mt-12')),
+    ],
+  },
+
+  cta: {
+    component: 'CtaSection',
+    content: 'CtaContent',
+    uses: ['PageAction', 'ActionLink'],
+    interfaces: [{
+      name: 'CtaContent',
+      fields: [
+        { name: 'title', type: 'string' },
+        { name: 'description', type: 'string', optional: true },
+        { name: 'primaryAction', type: 'PageAction' },
+        { name: 'secondaryAction', type: 'PageAction', optional: true },
+      ],
+    }],
+    template: recipes => [
+      el('div', { classes: `${surfaceClasses(recipes.Surface.hero)} flex flex-col items-center gap-6 px-8 py-16 text-center` },
+        el('h2', {
+          classes: `[font-size:${arbitrary(recipes.SectionHeader.titleSize)}] [font-weight:${recipes.SectionHeader.titleWeight}] ${colorClass('text', 'text')}`,
+        }, show('title')),
+        when('description', [
+          el('p', { classes: `text-lg ${colorClass('text', 'textMuted')} max-w-[${arbitrary(recipes.SectionHeader.subtitleMaxWidth)}]` },
+            show('description')),
+        ]),
+        el('div', { classes: 'flex flex-wrap items-center justify-center gap-3' },
+          use('ActionLink', { action: expr('primaryAction'), primary: true }),
+          when('secondaryAction', [use('ActionLink', { action: expr('secondaryAction') })])),
+        signatureSlot('mt-8 w-full')),
+    ],
+  },
+};
+
+/**
+ * Section component: its content fields as props, plus the signature block
+ * rendered inside it
+ */
+function planSection(type: MarketingSectionType, recipes: MarketingRecipes): ComponentPlan {
+  const section = SECTIONS[type];
+  const content = section.interfaces[section.interfaces.length - 1];
+  return {
+    name: section.component,
+    exported: false,
+    props: [...content.fields, { name: 'signature', type: 'node', optional: true }],
+    template: section.template(recipes),
+  };
+}
+
+// =============================================================================
+// STORYBOARD
+// =============================================================================
+
+/**
+ * Storyboard sections in page order. An audience override lists section ids
+ * in order; sections it leaves out are dropped and unknown ids ignored.
+ *
+ * @example
+ * ```ts
+ * resolveStoryboard(recipes.storyboard, 'developer').map(s => s.id);
+ * // ['hero', 'proof', 'narrative', 'cards', 'metrics', 'cta']
+ * ```
+ */
+export function resolveStoryboard(storyboard: StoryboardRecipe, audience?: MarketingAudience): StoryboardSection[] {
+  const order = audience ? storyboard.audienceOverrides?.[audience] : undefined;
+  if (!order) return storyboard.sections;
+
+  const byId = new Map(storyboard.sections.map(section => [section.id, section]));
+  return order.flatMap(id => byId.get(id) ?? []);
+}
+
+/**
+ * Motif layers for an audience. Overrides merge into the layer of the same
+ * type, or add a layer when they name a new type with opacity and color.
+ * Opacities are scaled by the recipe intensity; invisible layers are dropped.
+ */
+export function resolveMotifLayers(motifs: MotifsRecipe, audience?: MarketingAudience): MotifLayer[] {
+  const layers = motifs.layers.map(layer => ({ ...layer }));
+
+  for (const override of (audience && motifs.audienceOverrides?.[audience]) || []) {
+    const existing = layers.find(layer => layer.type === override.type);
+    if (existing) {
+      Object.assign(existing, override);
+    } else if (override.type && override.opacity !== undefined && override.color) {
+      layers.push({ ...override, type: override.type, opacity: override.opacity, color: override.color });
+    }
+  }
+
+  return layers
+    .map(layer => ({ ...layer, opacity: Math.round(layer.opacity * motifs.intensity * 1000) / 1000 }))
+    .filter(layer => layer.opacity > 0)
+    .sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0));
+}
+
+// =============================================================================
+// MOTIFS
+// =============================================================================
+
+const NOISE_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="200"><filter id="n"><feTurbulence type="fractalNoise" baseFrequency="0.8" numOctaves="3" stitchTiles="stitch"/></filter><rect width="100%" height="100%" filter="url(#n)"/></svg>';
+
+function motifStyle(layer: MotifLayer): Record<string, string | number> {
+  const color = dsColor(layer.color);
+  const scale = layer.scale ?? 1;
+  const style: Record<string, string | number> = {};
+
+  switch (layer.type) {
+    case 'grid':
+      style.backgroundImage = `linear-gradient(${color} 1px, transparent 1px), linear-gradient(90deg, ${color} 1px, transparent 1px)`;
+      style.backgroundSize = `${40 * scale}px ${40 * scale}px`;
+      break;
+    case 'dots':
+      style.backgroundImage = `radial-gradient(${color} 1px, transparent 1px)`;
+      style.backgroundSize = `${24 * scale}px ${24 * scale}px`;
+      break;
+    case 'noise':
+      style.backgroundImage = `url('data:image/svg+xml,${encodeURIComponent(NOISE_SVG)}')`;
+      break;
+    case 'glowField':
+      style.backgroundImage = `radial-gradient(ellipse 60% 50% at 50% 0%, ${color}, transparent 70%)`;
+      style.transform = `scale(${scale})`;
+      break;
+    case 'radialGlow':
+      style.backgroundImage = `radial-gradient(circle at 50% 50%, ${color}, transparent 60%)`;
+      style.transform = `scale(${scale})`;
+      break;
+    case 'signalPaths':
+      style.backgroundImage = `repeating-linear-gradient(135deg, ${color} 0 1px, transparent 1px ${48 * scale}px)`;
+      break;
+  }
+
+  style.opacity = layer.opacity;
+  if (layer.blur) style.filter = `blur(${layer.blur}px)`;
+  return style;
+}
+
+/**
+ * Static layers behind sections that show motifs
+ */
+function planMotifs(layers: MotifLayer[], recipes: MarketingRecipes): ComponentPlan {
+  return {
+    name: 'Motifs',
+    exported: false,
+    props: [],
+    template: [
+      el('div', { attributes: { 'aria-hidden': 'true' }, classes: 'pointer-events-none absolute inset-0 -z-10 overflow-hidden' },
+        ...layers.map(layer => {
+          const animated = recipes.motion.behavior.enabled && layer.animate && layer.animate !== 'none';
+          return el('div', {
+            classes: `absolute inset-0${animated ? ` animate-ds-motif-${layer.animate} motion-reduce:animate-none` : ''}`,
+            style: motifStyle(layer),
+          });
+        })),
+    ],
+  };
+}
+
+// =============================================================================
+// PAGE
+// =============================================================================
+
+function propertyKey(id: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(id) ? id : `'${id}'`;
+}
+
+function contentAccess(id: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(id) ? `content.${id}` : `content['${id}']`;
+}
+
+/**
+ * Wrapper of every section: gutter, motifs and entrance animation
+ */
+function planPageSection(hasMotifs: boolean): ComponentPlan {
+  return {
+    name: 'PageSection',
+    exported: false,
+    props: [
+      { name: 'id', type: 'string' },
+      ...(hasMotifs ? [{ name: 'motifs', type: 'boolean', default: 'false' }] : []),
+      { name: 'entrance', type: 'string', optional: true },
+      { name: 'className', type: 'string', optional: true },
+      { name: 'children', type: 'node' },
+    ],
+    template: [
+      el('section', {
+        attributes: { id: expr('id') },
+        classes: ['relative isolate px-[var(--ds-density-page-gutter)]', { expr: 'className' }],
+      },
+      ...(hasMotifs ? [when('motifs', [use('Motifs')])] : []),
+      el('div', { classes: ['mx-auto w-full max-w-6xl', { expr: 'entrance' }] }, slot())),
+    ],
+  };
+}
+
+/**
+ * Generate a marketing page from the theme's storyboard
+ *
+ * @example
+ * ```ts
+ * const { marketing } = normalizeThemePack(chronicleDark).recipes;
+ * const page = generateMarketingPage(theme, marketing, { audience: 'hotel-owner' });
+ * const vue = generateMarketingPage(theme, marketing, { target: 'vue' }).files;
+ * ```
+ */
+export function generateMarketingPage(
+  theme: ThemePack,
+  recipes: MarketingRecipes,
+  options: MarketingPageOptions = {}
+): GeneratedCode {
+  const { audience, name = 'LandingPage', signatureBlocksPath = DEFAULT_SIGNATURE_BLOCKS_PATH, target = 'react' } = options;
+  const sections = resolveStoryboard(recipes.storyboard, audience);
+  if (sections.length === 0) {
+    throw new Error(`The "${theme.name}" storyboard has no sections${audience ? ` for ${audience}` : ''}`);
+  }
+
+  const layers = resolveMotifLayers(recipes.motifs, audience);
+  const hasMotifs = layers.length > 0 && sections.some(section => section.withMotifs);
+  const signatureOf = (section: StoryboardSection): SignatureBlockName | null =>
+    section.signatureBlock && recipes.signatureBlocks[SIGNATURE_FLAGS[section.signatureBlock]]
+      ? section.signatureBlock
+      : null;
+
+  const types = Array.from(new Set(sections.map(section => section.type)));
+  const signatures = Array.from(new Set(sections.map(signatureOf).filter((block): block is SignatureBlockName => block !== null)));
+
+  const shared = new Set<SharedDeclaration>(types.flatMap(type => SECTIONS[type].uses));
+  if (signatures.includes('MetricRibbon')) shared.add('Metric');
+  if (signatures.includes('StackedCards')) shared.add('CardItem');
+  const declarations = SHARED_ORDER.filter(declaration => shared.has(declaration));
+
+  // Content fields, one per section id
+  const fields = sections.map(section => {
+    const template = SECTIONS[section.type];
+    const block = signatureOf(section);
+    const extra = block ? SIGNATURE_CONTENT[block] : null;
+    const needsExtra = extra && !(section.type === 'stackedCards' && extra.field === 'cards');
+    const type = needsExtra ? `${template.content} & { ${extra.field}: ${extra.type} }` : template.content;
+    return { name: propertyKey(section.id), type };
+  });
+
+  const elements = sections.map(section => {
+    const block = signatureOf(section);
+    const blockContent = block ? SIGNATURE_CONTENT[block] : null;
+    const props: Record<string, PlanValue> = {
+      id: section.id,
+      ...(hasMotifs && section.withMotifs ? { motifs: true } : {}),
+      ...(recipes.motion.behavior.enabled && section.motion && section.motion !== 'none'
+        ? { entrance: `${ENTRANCE_CLASSES[section.motion]} motion-reduce:animate-none` }
+        : {}),
+      ...(section.type === 'hero' ? { className: `py-[${arbitrary(recipes.Hero.spacing.paddingY)}]` } : {}),
+    };
+    const signature = block
+      ? { signature: [use(block, blockContent ? { [blockContent.field]: expr(`${contentAccess(section.id)}.${blockContent.field}`) } : {}, { from: signatureBlocksPath })] }
+      : undefined;
+    return use('PageSection', props, {
+      children: [use(SECTIONS[section.type].component, {}, { spread: contentAccess(section.id), ...(signature ? { slots: signature } : {}) })],
+    });
+  });
+
+  const plan: ComponentPlan = {
+    name,
+    interfaces: [
+      ...declarations.flatMap(declaration => SHARED_INTERFACES[declaration] ?? []),
+      ...types.flatMap(type => SECTIONS[type].interfaces),
+      { name: `${name}Content`, fields },
+    ],
+    props: [
+      { name: 'content', type: `${name}Content` },
+      { name: 'className', type: 'string', optional: true },
+    ],
+    template: [
+      el('main', {
+        classes: [
+          `relative flex flex-col gap-[${arbitrary(recipes.LayoutRhythm.sectionGap)}] pb-[${arbitrary(recipes.LayoutRhythm.sectionGap)}] overflow-hidden ${colorClass('bg', 'bg')} ${colorClass('text', 'text')}`,
+          { expr: 'className' },
+        ],
+      }, ...elements),
+    ],
+    parts: [
+      ...(hasMotifs ? [planMotifs(layers, recipes)] : []),
+      planPageSection(hasMotifs),
+      ...declarations.flatMap(declaration => SHARED_COMPONENTS[declaration]?.(recipes) ?? []),
+      ...types.map(type => planSection(type, recipes)),
+    ],
+  };
+
+  const order = sections.map(section => section.id).join(' -> ');
+  const explanation = [
+    `Storyboard of "${theme.name}"${audience ? ` for ${audience}` : ''}: ${order}.`,
+    hasMotifs ? `Motifs (${layers.map(layer => layer.type).join(', ')}) behind ${sections.filter(s => s.withMotifs).map(s => s.id).join(', ')}.` : '',
+    signatures.length > 0 ? `Signature blocks: ${signatures.join(', ')}.` : '',
+    recipes.motion.behavior.enabled ? 'Entrance and motif animations use the keyframes from generateTailwindTheme().' : 'Motion is disabled, so sections render without entrances.',
+  ].filter(Boolean).join(' ');
+
+  return { ...renderComponent(plan, target), explanation };
+}
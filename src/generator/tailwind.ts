@@ -0,0 +1,316 @@
+/**
+ * Tailwind Config Generator
+ *
+ * Turns a theme pack plus tuner positions into a Tailwind theme extension:
+ * colors reference the `--ds-*` variables (so runtime theme switching keeps
+ * working), while spacing, durations, entrances and motif animations are
+ * baked from the tuned recipes. Emitted as a config object, as JS/TS config
+ * source, or as a Tailwind v4 `@theme` block.
+ */
+
+import type { ThemePack, PageContext, MotionRecipes, MotifLayer } from '../core/types';
+import type { TunerValues } from '../mcp/contract';
+import { normalizeTuners, generateCSSOverrides, resolveTunedRecipes } from '../tuners';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+type MotifAnimation = Exclude<MotifLayer['animate'], 'none' | undefined>;
+
+/**
+ * Keyframe steps, e.g. `{ '0%, 100%': { opacity: '1' } }`
+ */
+export type TailwindKeyframes = Record<string, Record<string, string>>;
+
+/**
+ * Tailwind `theme.extend` object
+ */
+export interface TailwindThemeExtension {
+  colors: Record<string, string | Record<string, string>>;
+  spacing: Record<string, string>;
+  transitionDuration: Record<string, string>;
+  transitionTimingFunction: Record<string, string>;
+  borderRadius: Record<string, string>;
+  boxShadow: Record<string, string>;
+  keyframes: Record<string, TailwindKeyframes>;
+  animation: Record<string, string>;
+}
+
+/**
+ * Options for Tailwind generation
+ */
+export interface TailwindGeneratorOptions {
+  /** Context whose recipes drive motion (default: 'product') */
+  context?: PageContext;
+  /** Prefix for generated keys (default: 'ds') */
+  prefix?: string;
+}
+
+/**
+ * Options for config source generation
+ */
+export interface TailwindConfigSourceOptions extends TailwindGeneratorOptions {
+  /** Output language (default: 'ts') */
+  format?: 'js' | 'ts';
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const COLOR_VARIABLES = {
+  bg: { DEFAULT: '--ds-bg' },
+  surface: { DEFAULT: '--ds-surface', 2: '--ds-surface-2', inset: '--ds-surface-inset' },
+  border: { DEFAULT: '--ds-border', subtle: '--ds-border-subtle' },
+  text: { DEFAULT: '--ds-text', muted: '--ds-text-muted' },
+  accent: {
+    DEFAULT: '--ds-accent',
+    foreground: '--ds-accent-foreground',
+    muted: '--ds-accent-muted',
+    secondary: '--ds-accent-secondary',
+  },
+  ring: { DEFAULT: '--ds-ring' },
+  success: { DEFAULT: '--ds-success', muted: '--ds-success-muted' },
+  warning: { DEFAULT: '--ds-warning', muted: '--ds-warning-muted' },
+  danger: { DEFAULT: '--ds-danger', muted: '--ds-danger-muted' },
+} as const;
+
+/** Motif loops are ambient, so their length is fixed rather than tied to motion durations */
+const MOTIF_ANIMATIONS: Record<MotifAnimation, { duration: string; keyframes: TailwindKeyframes }> = {
+  drift: {
+    duration: '20s',
+    keyframes: {
+      '0%, 100%': { transform: 'translate3d(0, 0, 0)' },
+      '50%': { transform: 'translate3d(2%, -2%, 0)' },
+    },
+  },
+  pulse: {
+    duration: '4s',
+    keyframes: {
+      '0%, 100%': { opacity: '1' },
+      '50%': { opacity: '0.6' },
+    },
+  },
+  breathe: {
+    duration: '8s',
+    keyframes: {
+      '0%, 100%': { opacity: '0.8', transform: 'scale(1)' },
+      '50%': { opacity: '1', transform: 'scale(1.05)' },
+    },
+  },
+};
+
+/** Section entrances used by generated marketing pages (`animate-ds-fade-up`) */
+const ENTRANCE_KEYFRAMES: Record<'fade-up' | 'slide-in' | 'scale-in', TailwindKeyframes> = {
+  'fade-up': {
+    '0%': { opacity: '0', transform: 'translateY(16px)' },
+    '100%': { opacity: '1', transform: 'translateY(0)' },
+  },
+  'slide-in': {
+    '0%': { opacity: '0', transform: 'translateX(-24px)' },
+    '100%': { opacity: '1', transform: 'translateX(0)' },
+  },
+  'scale-in': {
+    '0%': { opacity: '0', transform: 'scale(0.96)' },
+    '100%': { opacity: '1', transform: 'scale(1)' },
+  },
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Scale recipe durations by the motion tuner (neutral keeps them);
+ * disabled motion collapses them to 0ms
+ */
+function tuneDurations(motion: MotionRecipes, motionTuner: number): Record<keyof MotionRecipes['durations'], number> {
+  const factor = motion.behavior.enabled ? (150 + motionTuner * 350) / 325 : 0;
+  const { durations } = motion;
+  return {
+    instant: Math.round(durations.instant * factor),
+    fast: Math.round(durations.fast * factor),
+    normal: Math.round(durations.normal * factor),
+    slow: Math.round(durations.slow * factor),
+    deliberate: Math.round(durations.deliberate * factor),
+  };
+}
+
+function motifAnimations(theme: ThemePack, tuners: ReturnType<typeof normalizeTuners>): MotifAnimation[] {
+  const marketing = resolveTunedRecipes(theme, 'marketing', tuners);
+  if (!marketing.motion.behavior.enabled) return [];
+
+  const used = new Set<MotifAnimation>();
+  for (const layer of marketing.motifs.layers) {
+    if (layer.animate && layer.animate !== 'none') used.add(layer.animate);
+  }
+  if (marketing.motionBindings.hero.motifAnimation !== 'none') {
+    used.add(marketing.motionBindings.hero.motifAnimation);
+  }
+  return Array.from(used);
+}
+
+function toKebabCase(value: string): string {
+  return value.replace(/([A-Z])/g, '-$1').toLowerCase();
+}
+
+// =============================================================================
+// THEME EXTENSION
+// =============================================================================
+
+/**
+ * Build the Tailwind `theme.extend` object for a theme and tuners
+ *
+ * @example
+ * ```ts
+ * // tailwind.config.ts
+ * export default {
+ *   content: ['./src/**\/*.tsx'],
+ *   theme: { extend: generateTailwindTheme(opsCalm, { density: 0.8 }) },
+ * };
+ * // <div className="bg-ds-surface p-ds-surface duration-ds-fast rounded-ds-surface">
+ * ```
+ */
+export function generateTailwindTheme(
+  theme: ThemePack,
+  input: Partial<TunerValues> = {},
+  options: TailwindGeneratorOptions = {}
+): TailwindThemeExtension {
+  const { context = 'product', prefix = 'ds' } = options;
+  const tuners = normalizeTuners(input);
+  const overrides = generateCSSOverrides(tuners);
+  const { motion } = resolveTunedRecipes(theme, context, tuners);
+
+  const colors: TailwindThemeExtension['colors'] = {};
+  for (const [name, shades] of Object.entries(COLOR_VARIABLES)) {
+    colors[`${prefix}-${name}`] = Object.fromEntries(
+      Object.entries(shades).map(([shade, variable]) => [shade, `hsl(var(${variable}) / <alpha-value>)`])
+    );
+  }
+
+  const durations = tuneDurations(motion, tuners.motion);
+  const animations = motifAnimations(theme, tuners);
+  const entrances = motion.behavior.enabled ? Object.keys(ENTRANCE_KEYFRAMES) as (keyof typeof ENTRANCE_KEYFRAMES)[] : [];
+
+  return {
+    colors,
+    spacing: {
+      [`${prefix}-gap`]: overrides['--tuner-gap-base'],
+      [`${prefix}-surface`]: overrides['--tuner-padding-surface'],
+      [`${prefix}-section`]: overrides['--tuner-section-gap'],
+      [`${prefix}-gutter`]: 'var(--ds-density-page-gutter)',
+      [`${prefix}-card`]: 'var(--ds-density-card-padding)',
+      [`${prefix}-card-compact`]: 'var(--ds-density-card-padding-compact)',
+      [`${prefix}-control`]: 'var(--ds-density-control-height)',
+      [`${prefix}-control-sm`]: 'var(--ds-density-control-height-sm)',
+      [`${prefix}-row`]: 'var(--ds-density-table-row-height)',
+      [`${prefix}-row-compact`]: 'var(--ds-density-table-row-height-compact)',
+    },
+    transitionDuration: Object.fromEntries(
+      Object.entries(durations).map(([key, ms]) => [`${prefix}-${key}`, `${ms}ms`])
+    ),
+    transitionTimingFunction: Object.fromEntries(
+      Object.entries(motion.easings).map(([key, easing]) => [`${prefix}-${key}`, easing])
+    ),
+    borderRadius: {
+      [`${prefix}-surface`]: 'var(--ds-radius-surface)',
+      [`${prefix}-control`]: 'var(--ds-radius-control)',
+    },
+    boxShadow: {
+      [`${prefix}-surface`]: 'var(--ds-shadow-surface)',
+      [`${prefix}-popover`]: 'var(--ds-shadow-popover)',
+      [`${prefix}-glow`]: 'var(--ds-shadow-glow)',
+    },
+    keyframes: Object.fromEntries([
+      ...entrances.map(name => [`${prefix}-${name}`, ENTRANCE_KEYFRAMES[name]]),
+      ...animations.map(name => [`${prefix}-motif-${name}`, MOTIF_ANIMATIONS[name].keyframes]),
+    ]),
+    animation: Object.fromEntries([
+      ...entrances.map(name => [
+        `${prefix}-${name}`,
+        `${prefix}-${name} ${durations.slow}ms ${motion.easings.enter} both`,
+      ]),
+      ...animations.map(name => [
+        `${prefix}-motif-${name}`,
+        `${prefix}-motif-${name} ${MOTIF_ANIMATIONS[name].duration} ${motion.easings.default} infinite`,
+      ]),
+    ]),
+  };
+}
+
+// =============================================================================
+// CONFIG SOURCE
+// =============================================================================
+
+/**
+ * Generate a `tailwind.config.{js,ts}` source file for Tailwind v3
+ */
+export function generateTailwindConfig(
+  theme: ThemePack,
+  tuners: Partial<TunerValues> = {},
+  options: TailwindConfigSourceOptions = {}
+): string {
+  const { format = 'ts', ...generatorOptions } = options;
+  const extension = generateTailwindTheme(theme, tuners, generatorOptions);
+  const body = JSON.stringify({ theme: { extend: extension } }, null, 2)
+    // Unquote keys that are valid identifiers
+    .replace(/^(\s*)"([A-Za-z_$][\w$]*)":/gm, '$1$2:')
+    .replace(/"/g, '\'');
+
+  const header = `// Generated by taste-engine from "${theme.name}"`;
+  return format === 'ts'
+    ? `${header}\nimport type { Config } from 'tailwindcss';\n\nexport default ${body.replace(/\n}$/, '\n} satisfies Partial<Config>;')}\n`
+    : `${header}\n/** @type {import('tailwindcss').Config} */\nmodule.exports = ${body};\n`;
+}
+
+// =============================================================================
+// TAILWIND V4
+// =============================================================================
+
+/**
+ * Generate a Tailwind v4 `@theme` block with the same tokens.
+ * Durations have no v4 namespace and are emitted as `--duration-*`
+ * variables for arbitrary values (`duration-(--duration-ds-fast)`).
+ */
+export function generateTailwindV4Theme(
+  theme: ThemePack,
+  tuners: Partial<TunerValues> = {},
+  options: TailwindGeneratorOptions = {}
+): string {
+  const extension = generateTailwindTheme(theme, tuners, options);
+  const lines: string[] = [`/* Generated by taste-engine from "${theme.name}" */`, '@theme {'];
+
+  for (const [name, shades] of Object.entries(extension.colors)) {
+    for (const [shade, value] of Object.entries(shades)) {
+      const key = shade === 'DEFAULT' ? name : `${name}-${shade}`;
+      lines.push(`  --color-${key}: ${value.replace(' / <alpha-value>', '')};`);
+    }
+  }
+
+  const namespaces: [string, Record<string, string>][] = [
+    ['spacing', extension.spacing],
+    ['duration', extension.transitionDuration],
+    ['ease', extension.transitionTimingFunction],
+    ['radius', extension.borderRadius],
+    ['shadow', extension.boxShadow],
+    ['animate', extension.animation],
+  ];
+  for (const [namespace, values] of namespaces) {
+    for (const [key, value] of Object.entries(values)) {
+      lines.push(`  --${namespace}-${key}: ${value};`);
+    }
+  }
+
+  for (const [name, steps] of Object.entries(extension.keyframes)) {
+    lines.push('', `  @keyframes ${name} {`);
+    for (const [step, declarations] of Object.entries(steps)) {
+      const body = Object.entries(declarations).map(([prop, value]) => `${toKebabCase(prop)}: ${value};`).join(' ');
+      lines.push(`    ${step} { ${body} }`);
+    }
+    lines.push('  }');
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  OUTPUT_TARGET_EXTENSIONS,
+  registerOutputTarget,
+  unregisterOutputTarget,
+  getOutputTarget,
+  listOutputTargets,
+  outputTargetForStack,
+  renderComponent,
+  el,
+  show,
+  slot,
+  when,
+  each,
+  type ComponentPlan,
+} from './targets';
+
+const TARGETS = { react: 'tsx', vue: 'vue', svelte: 'svelte', astro: 'astro' } as const;
+
+const badge: ComponentPlan = {
+  name: 'Badge',
+  props: [
+    { name: 'label', type: 'string' },
+    { name: 'icon', type: 'node', optional: true },
+    { name: 'className', type: 'string', optional: true },
+  ],
+  state: [{ name: 'count', type: 'number', initial: 'label.length' }],
+  template: [
+    el('span', { classes: ['inline-flex', { expr: 'className' }] },
+      when({ slot: 'icon' }, [slot('icon')]),
+      show('label'),
+      el('img', { attributes: { src: '/badge.png', alt: '' } })),
+  ],
+};
+
+const list: ComponentPlan = {
+  name: 'List',
+  generic: 'T',
+  props: [
+    { name: 'items', type: 'T[]' },
+    { name: 'label', type: '(item: T) => string' },
+  ],
+  template: [el('ul', {}, each('items', 'item', 'label(item)', el('li', {}, show('label(item)'))))],
+};
+
+describe('output target registry', () => {
+  afterEach(() => {
+    unregisterOutputTarget('plain');
+  });
+
+  it('registers the built-in targets first', () => {
+    expect(listOutputTargets().slice(0, 4)).toEqual(Object.keys(TARGETS));
+    expect(OUTPUT_TARGET_EXTENSIONS).toMatchObject(TARGETS);
+  });
+
+  it('renders through a registered target', () => {
+    registerOutputTarget('plain', {
+      extension: 'txt',
+      utilsImport: '~/utils',
+      render: (plan, target) => [{ path: `${plan.name}.${target.extension}`, code: plan.name }],
+    });
+    expect(listOutputTargets()).toContain('plain');
+    expect(OUTPUT_TARGET_EXTENSIONS.plain).toBe('txt');
+    expect(renderComponent(badge, 'plain')).toMatchObject({ code: 'Badge', files: [{ path: 'Badge.txt', code: 'Badge' }] });
+  });
+
+  it('removes a target and its extension', () => {
+    registerOutputTarget('plain', { extension: 'txt', utilsImport: '~/utils', render: () => [] });
+    expect(unregisterOutputTarget('plain')).toBe(true);
+    expect(getOutputTarget('plain')).toBeNull();
+    expect(OUTPUT_TARGET_EXTENSIONS).not.toHaveProperty('plain');
+    expect(unregisterOutputTarget('plain')).toBe(false);
+  });
+
+  it('rejects invalid names', () => {
+    expect(() => registerOutputTarget('Solid JS', { extension: 'tsx', utilsImport: '~/utils', render: () => [] }))
+      .toThrow('Invalid output target name "Solid JS"');
+  });
+
+  it('names the registered targets for an unknown one', () => {
+    expect(() => renderComponent(badge, 'solid')).toThrow('Unknown output target "solid": registered targets are react, vue, svelte, astro');
+  });
+});
+
+describe('outputTargetForStack', () => {
+  it('maps React frameworks to React and falls back to it', () => {
+    expect((['next', 'remix', 'unknown'] as const).map(stack => outputTargetForStack(stack))).toEqual(['react', 'react', 'react']);
+    expect(outputTargetForStack('svelte')).toBe('svelte');
+  });
+});
+
+describe('renderComponent', () => {
+  it.each(Object.entries(TARGETS))('writes %s files with the target extension', (target, extension) => {
+    const { code, files } = renderComponent(badge, target);
+    expect(files?.map(file => file.path)).toEqual([`Badge.${extension}`]);
+    expect(code).toBe(files?.[0].code);
+    expect(code).toContain('<img src="/badge.png" alt="" />');
+  });
+
+  it('renders React props, state and optional slots', () => {
+    const { code, imports } = renderComponent(badge, 'react');
+    expect(imports).toEqual(['useState from react', 'cn from @/lib/utils']);
+    expect(code).toContain('export function Badge({ label, icon, className }: BadgeProps) {');
+    expect(code).toContain('const [count, setCount] = useState<number>(label.length);');
+    expect(code).toContain('{icon && icon}');
+  });
+
+  it('declares Vue props with defineProps and node props as slots', () => {
+    const { code } = renderComponent(badge, 'vue');
+    expect(code).toContain('const { label, class: className } = defineProps<{');
+    expect(code).toContain('const count = ref<number>(label.length);');
+    expect(code).toContain('<slot v-if="$slots.icon" name="icon" />');
+  });
+
+  it('seeds Svelte state from props without tracking them', () => {
+    const { code, imports } = renderComponent(badge, 'svelte');
+    expect(imports).toContain('untrack from svelte');
+    expect(code).toContain('let { label, icon, class: className }: Props = $props();');
+    expect(code).toContain('let count = $state<number>(untrack(() => label.length));');
+    expect(code).toContain('{@render icon?.()}');
+  });
+
+  it('renders Astro slots and server-side state', () => {
+    const { code } = renderComponent(badge, 'astro');
+    expect(code).toContain('const { label, class: className } = Astro.props;');
+    expect(code).toContain('const count: number = label.length;');
+    expect(code).toContain(`{Astro.slots.has('icon') && <slot name="icon" />}`);
+  });
+
+  it('keeps the type parameter of a generic plan', () => {
+    expect(renderComponent(list, 'react').code).toContain('export function List<T>({ items, label }: ListProps<T>) {');
+    expect(renderComponent(list, 'vue').code).toContain('<script setup lang="ts" generic="T">');
+    expect(renderComponent(list, 'svelte').code).toContain('<script lang="ts" generics="T">');
+    expect(renderComponent(list, 'astro').code).toContain('const { items, label } = Astro.props as Props<Record<string, unknown>>;');
+  });
+
+  it('keys list items where the target needs it', () => {
+    expect(renderComponent(list, 'react').code).toContain('<li key={label(item)}>');
+    expect(renderComponent(list, 'vue').code).toContain('v-for="item in items" :key="label(item)"');
+    expect(renderComponent(list, 'svelte').code).toContain('{#each items as item (label(item))}');
+  });
+});
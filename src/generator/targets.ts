@@ -0,0 +1,1802 @@
+/**
+ * Output Targets
+ *
+ * Renders a framework-neutral component plan (typed props, a markup tree
+ * with conditionals, loops, slots and child components, classes, styles and
+ * client state) to React TSX, Vue SFC, Svelte or Astro. The generator decides
+ * the markup and classes; a target only decides the syntax. Targets live in a
+ * registry, so teams can add their own.
+ */
+
+import type { RepoMetadata } from '../mcp/contract';
+import type { GeneratedCode, GeneratedFile } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type BuiltInOutputTarget = 'react' | 'vue' | 'svelte' | 'astro';
+
+/**
+ * A registered output target: a built-in, or a name passed to
+ * `registerOutputTarget`
+ */
+export type OutputTarget = BuiltInOutputTarget | (string & {});
+
+/**
+ * A JavaScript expression over the component's props, loop variables,
+ * state and declarations
+ */
+export interface PlanExpression {
+  expr: string;
+}
+
+/**
+ * Literal attribute, prop or style value, or an expression
+ */
+export type PlanValue = string | number | boolean | PlanExpression;
+
+/**
+ * One argument of an element's class list. Comments are kept by targets
+ * that write class lists as code (React).
+ */
+export type PlanClass =
+  | string
+  | { classes: string; comment?: string }
+  /** Classes of a variant option, or of a toggle while it is set */
+  | { prop: string; comment?: string }
+  | { when: string; then: string; else?: string; comment?: string }
+  | { expr: string; comment?: string };
+
+/**
+ * Condition of a `when` node: an expression, or whether a slot was given
+ */
+export type PlanCondition = string | { slot: string };
+
+export interface PlanElement {
+  kind: 'element';
+  tag: string;
+  classes?: string | PlanClass[];
+  /** HTML attribute names (`aria-label`, `stroke-width`) */
+  attributes?: Record<string, PlanValue>;
+  /** camelCase CSS properties */
+  style?: Record<string, PlanValue>;
+  children?: PlanNode[];
+  /** Keep the children on the tag's line, where whitespace between them matters */
+  inline?: boolean;
+}
+
+export interface PlanComponentUse {
+  kind: 'component';
+  name: string;
+  /** Module of an external component; parts of the plan need none */
+  from?: string;
+  props?: Record<string, PlanValue>;
+  /** Expression whose fields are passed as props */
+  spread?: string;
+  /** Content for named slots */
+  slots?: Record<string, PlanNode[]>;
+  children?: PlanNode[];
+}
+
+export type PlanNode =
+  | PlanElement
+  | PlanComponentUse
+  | { kind: 'text'; value: string | PlanExpression }
+  /** Content passed to a `node` prop; `children` when unnamed */
+  | { kind: 'slot'; name?: string }
+  /** Content held in data, such as a `node` field of an item */
+  | { kind: 'render'; value: string; args?: string[] }
+  | { kind: 'when'; test: PlanCondition; then: PlanNode[]; else?: PlanNode[] }
+  | { kind: 'each'; items: string; item: string; index?: string; key: string; body: PlanElement };
+
+/**
+ * A typed field. The `node` type is rendered content: a React node, a Vue
+ * VNode, a Svelte snippet, or text in Astro.
+ */
+export interface PlanField {
+  name: string;
+  type: string;
+  optional?: boolean;
+  /** Parameters of `node` content rendered from data, e.g. `row: T` */
+  params?: string;
+  doc?: string;
+}
+
+/**
+ * A component prop. `className` holds the caller's classes (`class` outside
+ * React) and `node` props are slots; `options` makes a variant prop and
+ * `classes` a toggle.
+ */
+export interface PlanProp extends Omit<PlanField, 'type'> {
+  /** TypeScript type; derived for variants and toggles */
+  type?: string;
+  /** Default as a JavaScript expression */
+  default?: string;
+  /** Variant: classes per option */
+  options?: Record<string, string>;
+  /** Toggle: classes while the prop is set (false by default) */
+  classes?: string;
+}
+
+export interface PlanInterface {
+  name: string;
+  /** Type parameters, e.g. `<T>` */
+  params?: string;
+  fields: PlanField[];
+  /** Export from the React module (default: true) */
+  exported?: boolean;
+}
+
+/**
+ * Client behaviors, each binding a name for expressions: `inView`,
+ * `hovered` and `id`. Astro renders on the server, so it shows the in-view,
+ * resting state.
+ */
+export interface PlanBehaviors {
+  /** The root has entered the viewport; with `onScroll: false`, once mounted */
+  inView?: { onScroll?: boolean };
+  /** The pointer is over the root */
+  hover?: boolean;
+  /** Id unique to the instance */
+  id?: boolean;
+}
+
+/**
+ * Local state, updated from effects with `setName(value);` statements
+ */
+export interface PlanState {
+  name: string;
+  type?: string;
+  /** Initial value as a JavaScript expression */
+  initial: string;
+}
+
+/**
+ * Code run after mount and whenever `deps` change; it may return a cleanup
+ */
+export interface PlanEffect {
+  /** Function name, for targets that declare effects as functions */
+  name: string;
+  deps: string[];
+  body: string;
+}
+
+/**
+ * Framework-neutral description of a component
+ */
+export interface ComponentPlan {
+  name: string;
+  /** Props in declaration order */
+  props: PlanProp[];
+  /** Markup; a single element is the root */
+  template: PlanNode[];
+  /** Types the component and its parts share */
+  interfaces?: PlanInterface[];
+  /** Module-level constants and helpers, as TypeScript */
+  declarations?: string[];
+  behaviors?: PlanBehaviors;
+  state?: PlanState[];
+  effects?: PlanEffect[];
+  /** Type parameter, e.g. `T` */
+  generic?: string;
+  /** Pass native attributes through to the root element */
+  forwardAttributes?: boolean;
+  /** Forward the ref to the root element (React) */
+  forwardRef?: boolean;
+  /** Export from the React module (default: true) */
+  exported?: boolean;
+  /** Name of the React module and of the shared types module (default: the plan name) */
+  module?: string;
+  /** Companion components (`CardHeader`, section helpers), rendered alongside */
+  parts?: ComponentPlan[];
+}
+
+/**
+ * An output target in the registry
+ */
+export interface OutputTargetDefinition {
+  /** File extension of components, also the code fence language */
+  extension: string;
+  /** Module the `cn` helper is imported from */
+  utilsImport: string;
+  /** Render a plan and its parts to files, the plan's component first */
+  render: (plan: ComponentPlan, target: OutputTargetDefinition) => GeneratedFile[];
+}
+
+type RenderedComponent = Omit<GeneratedCode, 'explanation'>;
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+const DOM_ELEMENTS: Record<string, string> = {
+  button: 'HTMLButtonElement',
+  a: 'HTMLAnchorElement',
+  div: 'HTMLDivElement',
+  table: 'HTMLTableElement',
+  svg: 'SVGSVGElement',
+};
+
+const REACT_ATTRIBUTES: Record<string, string> = {
+  button: 'ButtonHTMLAttributes',
+  a: 'AnchorHTMLAttributes',
+};
+
+const SVELTE_ATTRIBUTES: Record<string, string> = {
+  button: 'HTMLButtonAttributes',
+  a: 'HTMLAnchorAttributes',
+};
+
+/** Elements Svelte lets close themselves: void HTML elements and SVG */
+const SELF_CLOSING_ELEMENTS = new Set([
+  'area', 'br', 'col', 'embed', 'hr', 'img', 'input', 'source', 'track', 'wbr',
+  'circle', 'ellipse', 'line', 'path', 'polygon', 'polyline', 'rect', 'stop', 'use',
+  'feGaussianBlur', 'feMergeNode', 'feTurbulence',
+]);
+
+const STACK_TARGETS: Record<RepoMetadata['stack'], BuiltInOutputTarget> = {
+  react: 'react',
+  next: 'react',
+  remix: 'react',
+  vue: 'vue',
+  svelte: 'svelte',
+  astro: 'astro',
+  unknown: 'react',
+};
+
+/** Widest line that keeps a text child next to its tag */
+const INLINE_WIDTH = 100;
+
+/** Widest opening tag with three attributes on one line */
+const TAG_WIDTH = 120;
+
+/** Longest class argument that may share a one-line `cn()` call with another long one */
+const ARGUMENT_WIDTH = 80;
+
+const USE_IN_VIEW = `
+function useInView(ref: { current: Element | null }, onScroll = true): boolean {
+  const [inView, setInView] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!onScroll || !element || typeof IntersectionObserver === 'undefined') {
+      setInView(true);
+      return;
+    }
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setInView(true);
+        observer.disconnect();
+      }
+    }, { threshold: 0.2 });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [ref, onScroll]);
+
+  return inView;
+}`.trim();
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const targets = new Map<string, OutputTargetDefinition>();
+const extensions: Record<string, string> = {};
+
+/**
+ * File extension (and code fence language) per registered target
+ */
+export const OUTPUT_TARGET_EXTENSIONS: Readonly<Record<string, string>> = extensions;
+
+/**
+ * Register an output target. Registering a built-in name replaces it, e.g.
+ * to import `cn` from elsewhere.
+ *
+ * @throws {Error} if the name is not lowercase letters, digits and dashes
+ *
+ * @example
+ * ```ts
+ * registerOutputTarget('solid', {
+ *   extension: 'tsx',
+ *   utilsImport: '~/lib/utils',
+ *   render: (plan, target) => [{ path: `${plan.name}.tsx`, code: toSolid(plan, target.utilsImport) }],
+ * });
+ * ```
+ */
+export function registerOutputTarget(name: string, definition: OutputTargetDefinition): void {
+  if (!/^[a-z][a-z0-9-]*$/.test(name)) {
+    throw new Error(`Invalid output target name "${name}": expected lowercase letters, digits and dashes`);
+  }
+  targets.set(name, definition);
+  extensions[name] = definition.extension;
+}
+
+/**
+ * Remove a registered target
+ */
+export function unregisterOutputTarget(name: string): boolean {
+  delete extensions[name];
+  return targets.delete(name);
+}
+
+/**
+ * Get a target by name
+ */
+export function getOutputTarget(name: string): OutputTargetDefinition | null {
+  return targets.get(name) ?? null;
+}
+
+/**
+ * List every registered target name, built-ins first
+ */
+export function listOutputTargets(): string[] {
+  return Array.from(targets.keys());
+}
+
+/**
+ * Output target for a detected stack (React when unknown)
+ */
+export function outputTargetForStack(stack: RepoMetadata['stack']): BuiltInOutputTarget {
+  return STACK_TARGETS[stack];
+}
+
+// =============================================================================
+// PLAN BUILDERS
+// =============================================================================
+
+export function expr(code: string): PlanExpression {
+  return { expr: code };
+}
+
+export function el(
+  tag: string,
+  options: Omit<PlanElement, 'kind' | 'tag' | 'children'> = {},
+  ...children: PlanNode[]
+): PlanElement {
+  return { kind: 'element', tag, ...options, ...(children.length > 0 ? { children } : {}) };
+}
+
+/**
+ * Literal text
+ */
+export function txt(value: string): PlanNode {
+  return { kind: 'text', value };
+}
+
+/**
+ * Text of an expression
+ */
+export function show(code: string): PlanNode {
+  return { kind: 'text', value: expr(code) };
+}
+
+export function slot(name?: string): PlanNode {
+  return name ? { kind: 'slot', name } : { kind: 'slot' };
+}
+
+export function render(value: string, args?: string[]): PlanNode {
+  return args ? { kind: 'render', value, args } : { kind: 'render', value };
+}
+
+export function when(test: PlanCondition, then: PlanNode[], otherwise?: PlanNode[]): PlanNode {
+  return otherwise ? { kind: 'when', test, then, else: otherwise } : { kind: 'when', test, then };
+}
+
+export function each(items: string, item: string, key: string, body: PlanElement, index?: string): PlanNode {
+  return { kind: 'each', items, item, key, body, ...(index ? { index } : {}) };
+}
+
+export function use(
+  name: string,
+  props: Record<string, PlanValue> = {},
+  options: Omit<PlanComponentUse, 'kind' | 'name' | 'props'> = {}
+): PlanComponentUse {
+  return { kind: 'component', name, props, ...options };
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Bookkeeping while rendering one file
+ */
+interface FileContext {
+  plan: ComponentPlan;
+  /** Every component of the root plan, to resolve local component uses */
+  local: Set<string>;
+  cn: boolean;
+  /** External component names by module */
+  external: Map<string, Set<string>>;
+}
+
+function createContext(plan: ComponentPlan, root: ComponentPlan): FileContext {
+  return {
+    plan,
+    local: new Set(components(root).map(component => component.name)),
+    cn: false,
+    external: new Map(),
+  };
+}
+
+function components(plan: ComponentPlan): ComponentPlan[] {
+  return [plan, ...(plan.parts ?? [])];
+}
+
+function isExpression(value: PlanValue): value is PlanExpression {
+  return typeof value === 'object';
+}
+
+function clean(classes: string): string {
+  return classes.replace(/\s+/g, ' ').trim();
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+}
+
+function attributeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * A Vue directive value: expressions are not entity-decoded, so only quotes
+ * are escaped
+ */
+function directiveText(code: string): string {
+  return code.replace(/"/g, '&quot;');
+}
+
+function literal(value: string | number | boolean): string {
+  return typeof value === 'string' ? quote(value) : String(value);
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+function constantName(prop: string): string {
+  return `${prop.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()}_CLASSES`;
+}
+
+function setterName(state: string): string {
+  return `set${state[0].toUpperCase()}${state.slice(1)}`;
+}
+
+function domElement(tag: string): string {
+  return DOM_ELEMENTS[tag] ?? 'HTMLElement';
+}
+
+function indentLines(code: string, indent: string): string {
+  return code.split('\n').map(line => (line ? indent + line : line)).join('\n');
+}
+
+/**
+ * Wrap a condition that would bind looser than `&&`
+ */
+function operand(code: string): string {
+  return /\|\||\?/.test(code) ? `(${code})` : code;
+}
+
+function slotName(name: string | undefined): string {
+  return name ?? 'children';
+}
+
+function rootElement(plan: ComponentPlan): PlanElement | null {
+  const [first] = plan.template;
+  return plan.template.length === 1 && first.kind === 'element' ? first : null;
+}
+
+/**
+ * The root element, where attributes, refs and handlers attach
+ */
+function requireRoot(plan: ComponentPlan): PlanElement | null {
+  const root = rootElement(plan);
+  const needsRoot = plan.forwardAttributes || plan.forwardRef || plan.behaviors?.inView || plan.behaviors?.hover;
+  if (needsRoot && !root) {
+    throw new Error(`${plan.name} forwards attributes or has client behaviors, so its template needs a single root element`);
+  }
+  return root;
+}
+
+function walk(nodes: PlanNode[], visit: (node: PlanNode) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    switch (node.kind) {
+      case 'element':
+        walk(node.children ?? [], visit);
+        break;
+      case 'component':
+        walk(node.children ?? [], visit);
+        Object.values(node.slots ?? {}).forEach(content => walk(content, visit));
+        break;
+      case 'when':
+        walk(node.then, visit);
+        walk(node.else ?? [], visit);
+        break;
+      case 'each':
+        walk([node.body], visit);
+        break;
+    }
+  }
+}
+
+function usesDefaultSlot(plan: ComponentPlan): boolean {
+  let found = false;
+  walk(plan.template, node => {
+    const isDefault = node.kind === 'slot' && !node.name;
+    const isTested = node.kind === 'when' && typeof node.test === 'object' && node.test.slot === 'children';
+    found = found || isDefault || isTested;
+  });
+  return found;
+}
+
+function isOptional(field: PlanProp | PlanField): boolean {
+  const prop = field as PlanProp;
+  return Boolean(prop.optional || prop.default !== undefined || prop.classes !== undefined || prop.options);
+}
+
+function propDefault(prop: PlanProp): string | undefined {
+  return prop.default ?? (prop.classes !== undefined ? 'false' : undefined);
+}
+
+function destructured(prop: PlanProp): string {
+  const value = propDefault(prop);
+  return value === undefined ? prop.name : `${prop.name} = ${value}`;
+}
+
+function findProp(plan: ComponentPlan, name: string): PlanProp {
+  const prop = plan.props.find(entry => entry.name === name);
+  if (!prop || (!prop.options && prop.classes === undefined)) {
+    throw new Error(`${plan.name} styles an element with "${name}", which is not a variant or toggle prop`);
+  }
+  return prop;
+}
+
+/**
+ * TypeScript type of a field or prop, with `node` as the target's content type
+ */
+function fieldType(field: PlanProp | PlanField, nodeType: (params?: string) => string): string {
+  const prop = field as PlanProp;
+  if (prop.options) return Object.keys(prop.options).map(option => `'${option}'`).join(' | ');
+  if (prop.classes !== undefined) return 'boolean';
+  if (field.type === 'node') return nodeType(field.params);
+  if (field.type === undefined) throw new Error(`Prop "${field.name}" needs a type`);
+  return field.type;
+}
+
+function fieldLines(fields: (PlanProp | PlanField)[], nodeType: (params?: string) => string): string[] {
+  return fields.flatMap(field => [
+    ...(field.doc ? [`/** ${field.doc} */`] : []),
+    `${field.name}${isOptional(field) ? '?' : ''}: ${fieldType(field, nodeType)};`,
+  ]);
+}
+
+function block(lines: string[]): string {
+  return lines.map(line => `  ${line}`).join('\n');
+}
+
+function formatInterface(definition: PlanInterface, nodeType: (params?: string) => string, exported: boolean): string {
+  return `${exported ? 'export ' : ''}interface ${definition.name}${definition.params ?? ''} {
+${block(fieldLines(definition.fields, nodeType))}
+}`;
+}
+
+/**
+ * Types of the parameters in `row: T, index: number`
+ */
+function parameterTypes(params: string): string {
+  return params.split(',').map(param => param.slice(param.indexOf(':') + 1).trim()).join(', ');
+}
+
+/**
+ * Effect body with `setName(value);` statements written as assignments
+ */
+function assignState(plan: ComponentPlan, body: string, assign: (name: string, value: string) => string): string {
+  return (plan.state ?? []).reduce(
+    (code, state) => code.replace(
+      new RegExp(`\\b${setterName(state.name)}\\((.*)\\);$`, 'gm'),
+      (_, value: string) => assign(state.name, value)
+    ),
+    body
+  );
+}
+
+// =============================================================================
+// CLASSES AND STYLES
+// =============================================================================
+
+interface ClassArgument {
+  code: string;
+  comment?: string;
+}
+
+interface ClassSyntax {
+  /** Expression selecting a variant's classes */
+  variant: (prop: PlanProp, indent: string) => string;
+  /** Keep class strings as the generator wrote them */
+  raw: boolean;
+  comments: boolean;
+}
+
+function classArguments(plan: ComponentPlan, classes: PlanClass[], syntax: ClassSyntax, indent: string): ClassArgument[] {
+  const text = (value: string) => quote(syntax.raw ? value : clean(value));
+  const comment = (entry: PlanClass) => (syntax.comments && typeof entry === 'object' ? entry.comment : undefined);
+
+  return classes.flatMap((entry): ClassArgument[] => {
+    if (typeof entry === 'string' || 'classes' in entry) {
+      const value = typeof entry === 'string' ? entry : entry.classes;
+      return syntax.raw || clean(value) ? [{ code: text(value), comment: comment(entry) }] : [];
+    }
+    if ('prop' in entry) {
+      const prop = findProp(plan, entry.prop);
+      const code = prop.options ? syntax.variant(prop, indent) : `${entry.prop} && ${text(prop.classes ?? '')}`;
+      return [{ code, comment: comment(entry) }];
+    }
+    if ('when' in entry) {
+      const code = entry.else !== undefined
+        ? `${entry.when} ? ${text(entry.then)} : ${text(entry.else)}`
+        : `${operand(entry.when)} && ${text(entry.then)}`;
+      return [{ code, comment: comment(entry) }];
+    }
+    return [{ code: entry.expr, comment: comment(entry) }];
+  });
+}
+
+function formatCall(args: ClassArgument[], indent: string): string {
+  const long = args.filter(arg => arg.code.length > ARGUMENT_WIDTH).length;
+  if (args.length <= 2 && long <= 1 && args.every(arg => !arg.comment && !arg.code.includes('\n'))) {
+    return `cn(${args.map(arg => arg.code).join(', ')})`;
+  }
+  const lines = args.flatMap((arg, i) => [
+    ...(arg.comment ? [`${indent}  // ${arg.comment}`] : []),
+    `${indent}  ${arg.code}${i < args.length - 1 ? ',' : ''}`,
+  ]);
+  return `cn(\n${lines.join('\n')}\n${indent})`;
+}
+
+/**
+ * An element's classes: a static string, or a `cn()` call
+ */
+function elementClasses(
+  element: PlanElement,
+  context: FileContext,
+  syntax: ClassSyntax,
+  indent: string
+): { value: string; dynamic: boolean } | null {
+  if (element.classes === undefined) return null;
+
+  const entries = typeof element.classes === 'string' ? [element.classes] : element.classes;
+  const [only] = entries;
+  if (entries.length === 1 && typeof only === 'object' && 'expr' in only && !only.comment) {
+    return { value: only.expr, dynamic: true };
+  }
+  const literals = entries.map(entry => {
+    if (typeof entry === 'string') return entry;
+    return 'classes' in entry && !(syntax.comments && entry.comment) ? entry.classes : null;
+  });
+  if (literals.every(value => value !== null)) {
+    const value = literals.join(' ');
+    if (syntax.raw) return { value, dynamic: false };
+    return clean(value) ? { value: clean(value), dynamic: false } : null;
+  }
+
+  context.cn = true;
+  return { value: formatCall(classArguments(context.plan, entries, syntax, indent), indent), dynamic: true };
+}
+
+/**
+ * Inline class map indexed by the prop (React)
+ */
+function inlineVariant(prop: PlanProp, indent: string): string {
+  const options = Object.entries(prop.options ?? {}).map(([option, classes]) => `${indent}    ${option}: ${quote(classes)},`);
+  return `{\n${options.join('\n')}\n${indent}  }[${prop.name}]`;
+}
+
+function constantVariant(prop: PlanProp): string {
+  return `${constantName(prop.name)}[${prop.name}]`;
+}
+
+/**
+ * Class map constants for the variant props (Vue, Svelte, Astro)
+ */
+function classConstants(plan: ComponentPlan): string[] {
+  return plan.props.filter(prop => prop.options).map(prop => `
+const ${constantName(prop.name)} = {
+${Object.entries(prop.options ?? {}).map(([option, classes]) => `  ${option}: ${quote(clean(classes))},`).join('\n')}
+};`.trim());
+}
+
+function styleObject(style: Record<string, PlanValue>): string {
+  const entries = Object.entries(style).map(([property, value]) =>
+    `${property}: ${isExpression(value) ? value.expr : literal(value)}`);
+  return `{ ${entries.join(', ')} }`;
+}
+
+/**
+ * CSS declarations for a style of literals only, or null
+ */
+function staticStyle(style: Record<string, PlanValue>): string | null {
+  const values = Object.entries(style);
+  if (values.some(([, value]) => isExpression(value))) return null;
+  return values.map(([property, value]) => `${kebabCase(property)}: ${String(value)}`).join('; ');
+}
+
+// =============================================================================
+// MARKUP
+// =============================================================================
+
+/**
+ * How a target writes attributes, classes, styles and text
+ */
+interface MarkupSyntax {
+  classes: ClassSyntax;
+  attribute: (name: string, value: PlanValue) => string;
+  classAttribute: (value: string, dynamic: boolean) => string;
+  style: (style: Record<string, PlanValue>) => string[];
+  text: (value: string | PlanExpression) => string;
+  componentProp: (name: string, value: PlanValue) => string;
+  spread: (code: string) => string;
+  /** Whether an empty element closes itself (default: always) */
+  selfClosing?: (tag: string) => boolean;
+}
+
+/**
+ * Attributes an element carries beyond its own
+ */
+interface ElementExtras {
+  /** Before the element's attributes (keys, refs, directives) */
+  before: string[];
+  /** After classes and styles (handlers, spread attributes) */
+  after: string[];
+}
+
+const NO_EXTRAS: ElementExtras = { before: [], after: [] };
+
+/**
+ * Opening tag; attributes go one per line when there are many, when one
+ * spans lines, or when three or more make the line too long
+ */
+function openTag(tag: string, attributes: string[], indent: string, selfClosing: boolean): string {
+  const line = `${indent}<${tag}${attributes.map(attribute => ` ${attribute}`).join('')}${selfClosing ? ' />' : '>'}`;
+  const multiline = attributes.length > 3
+    || attributes.some(attribute => attribute.includes('\n'))
+    || (attributes.length === 3 && line.length > TAG_WIDTH);
+  if (!multiline) return line;
+  return `${indent}<${tag}\n${attributes.map(attribute => `${indent}  ${attribute}`).join('\n')}\n${indent}${selfClosing ? '/>' : '>'}`;
+}
+
+function emptyElement(tag: string, attributes: string[], indent: string, syntax: MarkupSyntax): string {
+  if (syntax.selfClosing?.(tag) ?? true) return openTag(tag, attributes, indent, true);
+  return `${openTag(tag, attributes, indent, false)}</${tag}>`;
+}
+
+/**
+ * Children that may share the tag's line: a single text, or anything marked inline
+ */
+function inlineChildren(element: PlanElement): boolean {
+  const children = element.children ?? [];
+  return Boolean(element.inline) || (children.length === 1 && (children[0].kind === 'text' || children[0].kind === 'render'));
+}
+
+/**
+ * Short text children stay on the tag's line; inline elements always do
+ */
+function fitsLine(element: PlanElement, line: string): boolean {
+  return Boolean(element.inline) || line.length <= INLINE_WIDTH;
+}
+
+function elementAttributes(
+  element: PlanElement,
+  context: FileContext,
+  syntax: MarkupSyntax,
+  extras: ElementExtras,
+  indent: string
+): string[] {
+  const classes = elementClasses(element, context, syntax.classes, `${indent}  `);
+  return [
+    ...extras.before,
+    ...Object.entries(element.attributes ?? {}).map(([name, value]) => syntax.attribute(name, value)),
+    ...(classes ? [syntax.classAttribute(classes.value, classes.dynamic)] : []),
+    ...(element.style ? syntax.style(element.style) : []),
+    ...extras.after,
+  ];
+}
+
+function componentAttributes(node: PlanComponentUse, syntax: MarkupSyntax): string[] {
+  return [
+    ...(node.spread ? [syntax.spread(node.spread)] : []),
+    ...Object.entries(node.props ?? {}).map(([name, value]) => syntax.componentProp(name, value)),
+  ];
+}
+
+function useComponent(node: PlanComponentUse, context: FileContext): void {
+  if (node.from) {
+    const names = context.external.get(node.from) ?? new Set<string>();
+    context.external.set(node.from, names.add(node.name));
+  } else if (!context.local.has(node.name)) {
+    throw new Error(`${context.plan.name} uses <${node.name}>, which is neither a part of the plan nor imported`);
+  }
+}
+
+function renderCall(node: { value: string; args?: string[] }): string {
+  return node.args ? `${node.value}(${node.args.join(', ')})` : node.value;
+}
+
+/**
+ * Element markup, shared by every target; `inline` writes a child on one
+ * line or returns null
+ */
+function markupElement(
+  node: PlanElement,
+  indent: string,
+  context: FileContext,
+  syntax: MarkupSyntax,
+  extras: ElementExtras,
+  inline: (node: PlanNode) => string | null,
+  child: (node: PlanNode, indent: string) => string
+): string {
+  const attributes = elementAttributes(node, context, syntax, extras, indent);
+  if (!node.children) return emptyElement(node.tag, attributes, indent, syntax);
+
+  const open = openTag(node.tag, attributes, indent, false);
+  if (inlineChildren(node) && !open.includes('\n')) {
+    const children = node.children.map(inline);
+    const line = `${open}${children.join('')}</${node.tag}>`;
+    if (children.every(entry => entry !== null) && fitsLine(node, line)) return line;
+  }
+  return `${open}\n${node.children.map(entry => child(entry, `${indent}  `)).join('\n')}\n${indent}</${node.tag}>`;
+}
+
+/**
+ * Element on a single line, or null
+ */
+function inlineElement(
+  node: PlanElement,
+  context: FileContext,
+  syntax: MarkupSyntax,
+  extras: ElementExtras,
+  inline: (node: PlanNode) => string | null
+): string | null {
+  const attributes = elementAttributes(node, context, syntax, extras, '');
+  const tag = node.children ? openTag(node.tag, attributes, '', false) : emptyElement(node.tag, attributes, '', syntax);
+  if (tag.includes('\n')) return null;
+  if (!node.children) return tag;
+  if (!inlineChildren(node)) return null;
+  const children = node.children.map(inline);
+  const line = `${tag}${children.join('')}</${node.tag}>`;
+  return children.every(entry => entry !== null) && fitsLine(node, line) ? line : null;
+}
+
+// =============================================================================
+// JSX (REACT, ASTRO)
+// =============================================================================
+
+interface JsxSyntax extends MarkupSyntax {
+  keyed: boolean;
+  /** Slot content as an expression */
+  slot: (name: string) => string;
+  slotTest: (name: string) => string;
+  /** Data content as an expression */
+  render: (call: string) => string;
+  /** Named slot content for a component: props (React) or fragments (Astro) */
+  namedSlots: 'props' | 'fragments';
+  /** Write `slot ?? fallback` for a slot with fallback content */
+  slotFallback: boolean;
+}
+
+function jsxText(value: string | PlanExpression): string {
+  return isExpression(value) ? `{${value.expr}}` : value.replace(/[{}<>]/g, character => `{'${character}'}`);
+}
+
+function jsxCondition(test: PlanCondition, syntax: JsxSyntax): string {
+  return typeof test === 'string' ? test : syntax.slotTest(test.slot);
+}
+
+/**
+ * A node on a single line in child position, or null
+ */
+function jsxInline(node: PlanNode, context: FileContext, syntax: JsxSyntax): string | null {
+  switch (node.kind) {
+    case 'text':
+      return syntax.text(node.value);
+    case 'render':
+    case 'slot': {
+      const value = jsxExpression(node, context, syntax) as string;
+      return value.startsWith('<') ? value : `{${value}}`;
+    }
+    case 'element':
+      return inlineElement(node, context, syntax, NO_EXTRAS, child => jsxInline(child, context, syntax));
+    case 'component': {
+      if (node.children || (node.slots && syntax.namedSlots === 'fragments')) return null;
+      useComponent(node, context);
+      const slots = Object.entries(node.slots ?? {}).map(([name, content]) => {
+        const markup = content.map(entry => jsxExpression(entry, context, syntax));
+        if (markup.some(entry => entry === null)) return null;
+        return `${name}={${markup.length === 1 ? markup[0] : `<>${markup.join('')}</>`}}`;
+      });
+      if (slots.some(entry => entry === null)) return null;
+      const tag = openTag(node.name, [...componentAttributes(node, syntax), ...(slots as string[])], '', true);
+      return tag.includes('\n') ? null : tag;
+    }
+    case 'when': {
+      if (node.else || node.then.length !== 1) return null;
+      const branch = jsxExpression(node.then[0], context, syntax);
+      return branch === null ? null : `{${operand(jsxCondition(node.test, syntax))} && ${branch}}`;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * A node as a single-line expression, or null
+ */
+function jsxExpression(node: PlanNode, context: FileContext, syntax: JsxSyntax): string | null {
+  switch (node.kind) {
+    case 'text':
+      return isExpression(node.value) ? node.value.expr : quote(node.value);
+    case 'render':
+      return syntax.render(renderCall(node));
+    case 'slot':
+      return syntax.slot(slotName(node.name));
+    case 'element':
+    case 'component':
+      return jsxInline(node, context, syntax);
+    default:
+      return null;
+  }
+}
+
+function jsxBranch(nodes: PlanNode[], indent: string, context: FileContext, syntax: JsxSyntax): string {
+  if (nodes.length === 1) {
+    const inline = jsxExpression(nodes[0], context, syntax);
+    if (inline !== null) return inline;
+    return `(\n${jsxNode(nodes[0], `${indent}  `, context, syntax)}\n${indent})`;
+  }
+  return `(\n${indent}  <>\n${jsxChildren(nodes, `${indent}    `, context, syntax)}\n${indent}  </>\n${indent})`;
+}
+
+function jsxChildren(nodes: PlanNode[], indent: string, context: FileContext, syntax: JsxSyntax): string {
+  return nodes.map(node => jsxNode(node, indent, context, syntax)).join('\n');
+}
+
+function jsxElement(node: PlanElement, indent: string, context: FileContext, syntax: JsxSyntax, extras = NO_EXTRAS): string {
+  return markupElement(
+    node, indent, context, syntax, extras,
+    child => jsxInline(child, context, syntax),
+    (child, pad) => jsxNode(child, pad, context, syntax)
+  );
+}
+
+function jsxComponent(node: PlanComponentUse, indent: string, context: FileContext, syntax: JsxSyntax): string {
+  const inline = jsxInline(node, context, syntax);
+  if (inline !== null) return indent + inline;
+
+  useComponent(node, context);
+  const slots = Object.entries(node.slots ?? {});
+  const slotProps = syntax.namedSlots === 'props'
+    ? slots.map(([name, content]) => `${name}={${jsxBranch(content, indent, context, syntax)}}`)
+    : [];
+  const slotFragments = syntax.namedSlots === 'fragments'
+    ? slots.map(([name, content]) =>
+      `${indent}  <Fragment slot="${name}">\n${jsxChildren(content, `${indent}    `, context, syntax)}\n${indent}  </Fragment>`)
+    : [];
+  const children = [...slotFragments, ...(node.children ? [jsxChildren(node.children, `${indent}  `, context, syntax)] : [])];
+
+  const attributes = [...componentAttributes(node, syntax), ...slotProps];
+  if (children.length === 0) return openTag(node.name, attributes, indent, true);
+  return `${openTag(node.name, attributes, indent, false)}\n${children.join('\n')}\n${indent}</${node.name}>`;
+}
+
+function jsxNode(node: PlanNode, indent: string, context: FileContext, syntax: JsxSyntax): string {
+  switch (node.kind) {
+    case 'element':
+      return jsxElement(node, indent, context, syntax);
+    case 'component':
+      return jsxComponent(node, indent, context, syntax);
+    case 'text':
+    case 'render':
+    case 'slot':
+      return indent + jsxInline(node, context, syntax);
+    case 'when': {
+      const test = jsxCondition(node.test, syntax);
+      if (!node.else) return `${indent}{${operand(test)} && ${jsxBranch(node.then, indent, context, syntax)}}`;
+      const [only] = node.then;
+      const isFallback = syntax.slotFallback && typeof node.test === 'object' && node.then.length === 1
+        && only.kind === 'slot' && slotName(only.name) === node.test.slot;
+      if (isFallback) return `${indent}{${test} ?? ${jsxBranch(node.else, indent, context, syntax)}}`;
+      return `${indent}{${operand(test)} ? ${jsxBranch(node.then, indent, context, syntax)} : ${jsxBranch(node.else, indent, context, syntax)}}`;
+    }
+    case 'each': {
+      const params = node.index ? `(${node.item}, ${node.index})` : node.item;
+      const key: ElementExtras = { before: syntax.keyed ? [`key={${node.key}}`] : [], after: [] };
+      return `${indent}{${node.items}.map(${params} => (\n${jsxElement(node.body, `${indent}  `, context, syntax, key)}\n${indent}))}`;
+    }
+  }
+}
+
+/**
+ * Template markup: the root element with its extras, or a fragment
+ */
+function jsxTemplate(plan: ComponentPlan, indent: string, context: FileContext, syntax: JsxSyntax, extras: ElementExtras): string {
+  const root = rootElement(plan);
+  if (root) return jsxElement(root, indent, context, syntax, extras);
+  return `${indent}<>\n${jsxChildren(plan.template, `${indent}  `, context, syntax)}\n${indent}</>`;
+}
+
+// =============================================================================
+// REACT
+// =============================================================================
+
+interface ReactContext extends FileContext {
+  react: Set<string>;
+  inView: boolean;
+}
+
+function reactNodeType(params?: string): string {
+  return params ? `(${params}) => React.ReactNode` : 'React.ReactNode';
+}
+
+function reactValue(name: string, value: PlanValue): string {
+  if (value === true) return name;
+  if (typeof value === 'string') return `${name}="${attributeText(value)}"`;
+  return `${name}={${isExpression(value) ? value.expr : String(value)}}`;
+}
+
+const REACT_MARKUP: JsxSyntax = {
+  classes: { variant: inlineVariant, raw: true, comments: true },
+  attribute: (name, value) =>
+    reactValue(/^(aria|data)-/.test(name) ? name : name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase()), value),
+  classAttribute: (value, dynamic) => (dynamic ? `className={${value}}` : `className="${value}"`),
+  style: style => [`style={${styleObject(style)}}`],
+  text: jsxText,
+  componentProp: reactValue,
+  spread: code => `{...${code}}`,
+  keyed: true,
+  slot: name => name,
+  slotTest: name => name,
+  render: call => call,
+  namedSlots: 'props',
+  slotFallback: true,
+};
+
+function reactComponent(plan: ComponentPlan, context: ReactContext): string {
+  context.plan = plan;
+  const root = requireRoot(plan);
+  const elementType = domElement(root?.tag ?? 'div');
+  const { behaviors = {} } = plan;
+  if (plan.forwardRef && behaviors.inView) {
+    throw new Error(`${plan.name} cannot both forward its ref and observe itself`);
+  }
+
+  const generic = plan.generic ? `<${plan.generic}>` : '';
+  const propsName = `${plan.name}Props${generic}`;
+  const own = plan.forwardAttributes
+    ? plan.props.filter(prop => prop.name !== 'className' && prop.name !== 'children')
+    : plan.props;
+  const fields = fieldLines(own, reactNodeType);
+  const names = plan.forwardAttributes
+    ? ['className', ...own.map(destructured), ...(usesDefaultSlot(plan) ? ['children'] : []), '...props']
+    : plan.props.map(destructured);
+
+  // Props extend the root's attributes, get a named interface, or stay inline
+  const exported = plan.exported !== false;
+  const simple = plan.props.every(prop => prop.name === 'children' || prop.name === 'className');
+  let declaration = '';
+  let type = propsName;
+  if (plan.forwardAttributes) {
+    const attributes = REACT_ATTRIBUTES[root?.tag ?? ''] ?? 'HTMLAttributes';
+    declaration = `export interface ${propsName} extends React.${attributes}<${elementType}> {\n${block(fields)}\n}`;
+  } else if (exported && !simple) {
+    declaration = `export interface ${propsName} {\n${block(fields)}\n}`;
+  } else {
+    type = fields.some(line => line.startsWith('/**'))
+      ? `{\n${block(fields)}\n}`
+      : `{ ${fields.map(line => line.slice(0, -1)).join('; ')} }`;
+  }
+
+  const state = [
+    ...(behaviors.id ? ['const id = useId().replace(/:/g, \'\');'] : []),
+    ...(behaviors.inView ? [
+      `const ref = useRef<${elementType}>(null);`,
+      `const inView = useInView(ref${behaviors.inView.onScroll === false ? ', false' : ''});`,
+    ] : []),
+    ...(behaviors.hover ? ['const [hovered, setHovered] = useState(false);'] : []),
+    ...(plan.state ?? []).map(entry =>
+      `const [${entry.name}, ${setterName(entry.name)}] = useState${entry.type ? `<${entry.type}>` : ''}(${entry.initial});`),
+  ];
+  const effects = (plan.effects ?? []).map(effect =>
+    `useEffect(() => {\n${indentLines(effect.body, '  ')}\n}, [${effect.deps.join(', ')}]);`);
+
+  if (behaviors.id) context.react.add('useId');
+  if (behaviors.inView) {
+    context.react.add('useRef').add('useState').add('useEffect');
+    context.inView = true;
+  }
+  if (behaviors.hover || plan.state?.length) context.react.add('useState');
+  if (effects.length > 0) context.react.add('useEffect');
+
+  const extras: ElementExtras = {
+    before: plan.forwardRef || behaviors.inView ? ['ref={ref}'] : [],
+    after: [
+      ...(behaviors.hover ? ['onMouseEnter={() => setHovered(true)}', 'onMouseLeave={() => setHovered(false)}'] : []),
+      ...(plan.forwardAttributes ? ['{...props}'] : []),
+    ],
+  };
+  const statements = [...(state.length > 0 ? [state.join('\n')] : []), ...effects].join('\n\n');
+  const preamble = [...(plan.declarations ?? []), ...(declaration ? [declaration] : [])];
+
+  if (plan.forwardRef) {
+    context.react.add('forwardRef');
+    const markup = jsxTemplate(plan, '      ', context, REACT_MARKUP, extras);
+    return [...preamble, `export const ${plan.name} = forwardRef<${elementType}, ${propsName}>(
+  ({ ${names.join(', ')} }, ref) => {
+${statements ? `${indentLines(statements, '    ')}\n\n` : ''}    return (
+${markup}
+    );
+  }
+);
+
+${plan.name}.displayName = '${plan.name}';`].join('\n\n');
+  }
+
+  const markup = jsxTemplate(plan, '    ', context, REACT_MARKUP, extras);
+  const keyword = `${exported ? 'export ' : ''}function ${plan.name}${generic}`;
+  let signature = names.length > 0 ? `${keyword}({ ${names.join(', ')} }: ${type}) {` : `${keyword}() {`;
+  if (signature.length > 120 && type.startsWith('{ ')) {
+    signature = `${keyword}({ ${names.join(', ')} }: {\n${block(fields)}\n}) {`;
+  }
+  return [...preamble, `${signature}
+${statements ? `${indentLines(statements, '  ')}\n\n` : ''}  return (
+${markup}
+  );
+}`].join('\n\n');
+}
+
+function renderReact(plan: ComponentPlan, target: OutputTargetDefinition): GeneratedFile[] {
+  const context: ReactContext = { ...createContext(plan, plan), react: new Set(), inView: false };
+  const rendered = components(plan).map(component => reactComponent(component, context));
+  const interfaces = components(plan).flatMap(component => component.interfaces ?? [])
+    .map(definition => formatInterface(definition, reactNodeType, definition.exported !== false));
+
+  const imports = [
+    ...(context.react.size > 0 ? [`import { ${Array.from(context.react).sort().join(', ')} } from 'react';`] : []),
+    ...(context.cn ? [`import { cn } from '${target.utilsImport}';`] : []),
+    ...Array.from(context.external).map(([from, names]) => `import { ${Array.from(names).join(', ')} } from '${from}';`),
+  ];
+  const code = [
+    ...(imports.length > 0 ? [imports.join('\n')] : []),
+    ...interfaces,
+    ...(context.inView ? [USE_IN_VIEW] : []),
+    ...rendered,
+  ].join('\n\n');
+
+  return [{ path: `${plan.module ?? plan.name}.${target.extension}`, code }];
+}
+
+// =============================================================================
+// SINGLE-FILE COMPONENTS
+// =============================================================================
+
+/**
+ * How a single-file-component target writes content types and files
+ */
+interface SfcTarget {
+  nodeType: (params?: string) => string;
+  /** Import of the content type, for the types module */
+  nodeTypeImport?: string;
+  renderFile: (plan: ComponentPlan, root: ComponentPlan, target: OutputTargetDefinition) => string;
+}
+
+function typesModule(root: ComponentPlan): string {
+  return `${root.module ?? root.name}.types`;
+}
+
+/**
+ * The plan's interfaces as a TypeScript module next to the components
+ */
+function typesFile(root: ComponentPlan, sfc: SfcTarget): GeneratedFile | null {
+  const interfaces = components(root).flatMap(component => component.interfaces ?? []);
+  if (interfaces.length === 0) return null;
+
+  const hasNodes = interfaces.some(definition => definition.fields.some(field => field.type === 'node'));
+  const code = interfaces.map(definition => formatInterface(definition, sfc.nodeType, true)).join('\n\n');
+  return {
+    path: `${typesModule(root)}.ts`,
+    code: `${hasNodes && sfc.nodeTypeImport ? `${sfc.nodeTypeImport}\n\n` : ''}${code}\n`,
+  };
+}
+
+/**
+ * Imports of a component file: types from the types module, then parts and
+ * external components as default imports
+ */
+function sfcImports(plan: ComponentPlan, root: ComponentPlan, context: FileContext, script: string, extension: string): string[] {
+  const types = components(root).flatMap(component => component.interfaces ?? [])
+    .map(definition => definition.name)
+    .filter(name => new RegExp(`\\b${name}\\b`).test(script));
+  const parts = new Set<string>();
+  walk(plan.template, node => {
+    if (node.kind === 'component' && !node.from) parts.add(node.name);
+  });
+
+  return [
+    ...(types.length > 0 ? [`import type { ${types.join(', ')} } from './${typesModule(root)}';`] : []),
+    ...Array.from(parts).map(name => `import ${name} from './${name}.${extension}';`),
+    ...Array.from(context.external).flatMap(([from, names]) =>
+      Array.from(names).map(name => `import ${name} from '${from}/${name}.${extension}';`)),
+  ];
+}
+
+function renderFiles(sfc: SfcTarget) {
+  return (plan: ComponentPlan, target: OutputTargetDefinition): GeneratedFile[] => {
+    const files = components(plan).map(component => ({
+      path: `${component.name}.${target.extension}`,
+      code: sfc.renderFile(component, plan, target),
+    }));
+    const types = typesFile(plan, sfc);
+    return types ? [...files, types] : files;
+  };
+}
+
+function sfcValue(name: string, value: PlanValue, bind: (name: string, code: string) => string): string {
+  if (value === true) return name;
+  if (typeof value === 'string') return `${name}="${attributeText(value)}"`;
+  return bind(name, isExpression(value) ? value.expr : String(value));
+}
+
+function sfcScript(sections: string[]): string {
+  return sections.filter(Boolean).join('\n\n');
+}
+
+// =============================================================================
+// VUE
+// =============================================================================
+
+interface VueContext extends FileContext {
+  vue: Set<string>;
+}
+
+function vueNodeType(params?: string): string {
+  return params ? `(${params}) => VNode` : 'VNode';
+}
+
+function vueBind(name: string, code: string): string {
+  return `:${name}="${directiveText(code)}"`;
+}
+
+const VUE_MARKUP: MarkupSyntax = {
+  classes: { variant: constantVariant, raw: false, comments: false },
+  attribute: (name, value) => sfcValue(name, value, vueBind),
+  classAttribute: (value, dynamic) => (dynamic ? vueBind('class', value) : `class="${value}"`),
+  style: style => {
+    const declarations = staticStyle(style);
+    return [declarations !== null ? `style="${attributeText(declarations)}"` : vueBind('style', styleObject(style))];
+  },
+  text: value => (isExpression(value) ? `{{ ${value.expr} }}` : value.replace(/</g, '&lt;').replace(/{{/g, '&#123;&#123;')),
+  componentProp: (name, value) => sfcValue(name === 'className' ? 'class' : name, value, vueBind),
+  spread: code => `v-bind="${directiveText(code)}"`,
+};
+
+function vueCondition(test: PlanCondition): string {
+  if (typeof test === 'string') return test;
+  return `$slots.${test.slot === 'children' ? 'default' : test.slot}`;
+}
+
+function vueInline(node: PlanNode, context: VueContext, directives: string[] = []): string | null {
+  const extras = { before: directives, after: [] };
+  switch (node.kind) {
+    case 'text':
+      return directives.length > 0 ? null : VUE_MARKUP.text(node.value);
+    case 'render':
+      return openTag('component', [...directives, vueBind('is', renderCall(node))], '', true);
+    case 'slot':
+      return openTag('slot', [...directives, ...(node.name ? [`name="${node.name}"`] : [])], '', true);
+    case 'element':
+      return inlineElement(node, context, VUE_MARKUP, extras, child => vueInline(child, context));
+    case 'component': {
+      if (node.children || node.slots) return null;
+      useComponent(node, context);
+      const tag = openTag(node.name, [...directives, ...componentAttributes(node, VUE_MARKUP)], '', true);
+      return tag.includes('\n') ? null : tag;
+    }
+    case 'when':
+      if (directives.length > 0 || node.else || node.then.length !== 1) return null;
+      return vueInline(node.then[0], context, [`v-if="${directiveText(vueCondition(node.test))}"`]);
+    default:
+      return null;
+  }
+}
+
+/**
+ * A branch of a condition: the directive goes on a single element,
+ * component or slot; anything else is wrapped in a `<template>`
+ */
+function vueBranch(nodes: PlanNode[], directive: string, indent: string, context: VueContext): string {
+  const [only] = nodes;
+  if (nodes.length === 1 && only.kind !== 'text' && only.kind !== 'when' && only.kind !== 'each') {
+    return vueNode(only, indent, context, [directive]);
+  }
+  return `${indent}<template ${directive}>\n${nodes.map(node => vueNode(node, `${indent}  `, context)).join('\n')}\n${indent}</template>`;
+}
+
+function vueElement(node: PlanElement, indent: string, context: VueContext, extras: ElementExtras): string {
+  return markupElement(
+    node, indent, context, VUE_MARKUP, extras,
+    child => vueInline(child, context),
+    (child, pad) => vueNode(child, pad, context)
+  );
+}
+
+function vueNode(node: PlanNode, indent: string, context: VueContext, directives: string[] = []): string {
+  switch (node.kind) {
+    case 'text':
+    case 'render':
+    case 'slot':
+      return indent + vueInline(node, context, directives);
+    case 'element':
+      return vueElement(node, indent, context, { before: directives, after: [] });
+    case 'component': {
+      const inline = vueInline(node, context, directives);
+      if (inline !== null) return indent + inline;
+      useComponent(node, context);
+      const slots = Object.entries(node.slots ?? {}).map(([name, content]) =>
+        `${indent}  <template #${name}>\n${content.map(child => vueNode(child, `${indent}    `, context)).join('\n')}\n${indent}  </template>`);
+      const children = (node.children ?? []).map(child => vueNode(child, `${indent}  `, context));
+      const open = openTag(node.name, [...directives, ...componentAttributes(node, VUE_MARKUP)], indent, false);
+      return `${open}\n${[...slots, ...children].join('\n')}\n${indent}</${node.name}>`;
+    }
+    case 'when': {
+      const test = `v-if="${directiveText(vueCondition(node.test))}"`;
+      return [
+        vueBranch(node.then, test, indent, context),
+        ...(node.else ? [vueBranch(node.else, 'v-else', indent, context)] : []),
+      ].join('\n');
+    }
+    case 'each': {
+      const params = node.index ? `(${node.item}, ${node.index})` : node.item;
+      return vueElement(node.body, indent, context, {
+        before: [...directives, `v-for="${directiveText(`${params} in ${node.items}`)}"`, vueBind('key', node.key)],
+        after: [],
+      });
+    }
+  }
+}
+
+function vueInView(element: PlanElement, onScroll: boolean, context: VueContext): string {
+  context.vue.add('ref').add('onMounted');
+  if (!onScroll) {
+    return `const inView = ref(false);
+
+onMounted(() => {
+  inView.value = true;
+});`;
+  }
+  context.vue.add('useTemplateRef').add('onBeforeUnmount');
+  return `const root = useTemplateRef<${domElement(element.tag)}>('root');
+const inView = ref(false);
+let observer: IntersectionObserver | undefined;
+
+onMounted(() => {
+  const element = root.value;
+  if (!element || typeof IntersectionObserver === 'undefined') {
+    inView.value = true;
+    return;
+  }
+  observer = new IntersectionObserver(([entry]) => {
+    if (entry.isIntersecting) {
+      inView.value = true;
+      observer?.disconnect();
+    }
+  }, { threshold: 0.2 });
+  observer.observe(element);
+});
+
+onBeforeUnmount(() => observer?.disconnect());`;
+}
+
+function renderVueFile(plan: ComponentPlan, root: ComponentPlan, target: OutputTargetDefinition): string {
+  const context: VueContext = { ...createContext(plan, root), vue: new Set() };
+  const { behaviors = {} } = plan;
+  const element = requireRoot(plan);
+  const onScroll = behaviors.inView?.onScroll !== false;
+
+  const extras: ElementExtras = {
+    before: behaviors.inView && onScroll ? ['ref="root"'] : [],
+    after: behaviors.hover ? ['@mouseenter="hovered = true"', '@mouseleave="hovered = false"'] : [],
+  };
+  const markup = element
+    ? vueElement(element, '  ', context, extras)
+    : plan.template.map(node => vueNode(node, '  ', context)).join('\n');
+
+  // Rendered content arrives as slots, not props
+  const own = plan.props.filter(prop => prop.type !== 'node' && prop.name !== 'className');
+  const hasClass = plan.forwardAttributes || plan.props.some(prop => prop.name === 'className');
+  const fields = [...fieldLines(own, vueNodeType), ...(hasClass ? [`class?: HTMLAttributes['class'];`] : [])];
+  const names = [...own.map(destructured), ...(hasClass ? ['class: className'] : [])];
+
+  const state = [
+    ...(behaviors.id ? ['const id = useId();'] : []),
+    ...(behaviors.hover ? ['const hovered = ref(false);'] : []),
+    ...(plan.state ?? []).map(entry => `const ${entry.name} = ref${entry.type ? `<${entry.type}>` : ''}(${entry.initial});`),
+  ];
+  if (behaviors.id) context.vue.add('useId');
+  if (behaviors.hover || plan.state?.length) context.vue.add('ref');
+
+  const script = sfcScript([
+    ...(plan.declarations ?? []),
+    ...classConstants(plan),
+    fields.length > 0 ? `const { ${names.join(', ')} } = defineProps<{\n${block(fields)}\n}>();` : '',
+    state.join('\n'),
+    behaviors.inView && element ? vueInView(element, onScroll, context) : '',
+    ...(plan.effects ?? []).flatMap(effect => {
+      context.vue.add('watchEffect');
+      const body = assignState(plan, effect.body, (name, value) => `${name}.value = ${value};`);
+      return [
+        `function ${effect.name}() {\n${indentLines(body, '  ')}\n}`,
+        `watchEffect(onCleanup => {\n  const cleanup = ${effect.name}();\n  if (cleanup) onCleanup(cleanup);\n});`,
+      ];
+    }),
+  ]);
+
+  const types = [...(hasClass ? ['HTMLAttributes'] : []), ...(/\bVNode\b/.test(script) ? ['VNode'] : [])];
+  const imports = [
+    ...(context.vue.size > 0 ? [`import { ${Array.from(context.vue).sort().join(', ')} } from 'vue';`] : []),
+    ...(types.length > 0 ? [`import type { ${types.join(', ')} } from 'vue';`] : []),
+    ...(context.cn ? [`import { cn } from '${target.utilsImport}';`] : []),
+    ...sfcImports(plan, root, context, script, target.extension),
+  ];
+
+  const template = `<template>\n${markup}\n</template>\n`;
+  const body = sfcScript([imports.join('\n'), script]);
+  if (!body) return template;
+
+  return `<script setup lang="ts"${plan.generic ? ` generic="${plan.generic}"` : ''}>
+${body}
+</script>
+
+${template}`;
+}
+
+// =============================================================================
+// SVELTE
+// =============================================================================
+
+function svelteNodeType(params?: string): string {
+  return params ? `Snippet<[${parameterTypes(params)}]>` : 'Snippet';
+}
+
+function svelteBind(name: string, code: string): string {
+  return `${name}={${code}}`;
+}
+
+const SVELTE_MARKUP: MarkupSyntax = {
+  classes: { variant: constantVariant, raw: false, comments: false },
+  attribute: (name, value) => sfcValue(name, value, svelteBind),
+  classAttribute: (value, dynamic) => (dynamic ? svelteBind('class', value) : `class="${value}"`),
+  style: style => {
+    const declarations = staticStyle(style);
+    if (declarations !== null) return [`style="${attributeText(declarations)}"`];
+    return Object.entries(style).map(([property, value]) => sfcValue(`style:${kebabCase(property)}`, value, svelteBind));
+  },
+  text: value => (isExpression(value) ? `{${value.expr}}` : value.replace(/[{}<]/g, character => `&#${character.charCodeAt(0)};`)),
+  componentProp: (name, value) => sfcValue(name === 'className' ? 'class' : name, value, svelteBind),
+  spread: code => `{...${code}}`,
+  selfClosing: tag => SELF_CLOSING_ELEMENTS.has(tag),
+};
+
+function svelteCondition(test: PlanCondition): string {
+  return typeof test === 'string' ? test : test.slot;
+}
+
+function svelteInline(node: PlanNode, context: FileContext): string | null {
+  switch (node.kind) {
+    case 'text':
+      return SVELTE_MARKUP.text(node.value);
+    case 'render':
+      return `{@render ${node.value}(${(node.args ?? []).join(', ')})}`;
+    case 'slot': {
+      const name = slotName(node.name);
+      const prop = context.plan.props.find(entry => entry.name === name);
+      return `{@render ${name}${prop && !isOptional(prop) ? '' : '?.'}()}`;
+    }
+    case 'element':
+      return inlineElement(node, context, SVELTE_MARKUP, NO_EXTRAS, child => svelteInline(child, context));
+    case 'component': {
+      if (node.children || node.slots) return null;
+      useComponent(node, context);
+      const tag = openTag(node.name, componentAttributes(node, SVELTE_MARKUP), '', true);
+      return tag.includes('\n') ? null : tag;
+    }
+    case 'when': {
+      if (node.else || node.then.length !== 1) return null;
+      const branch = svelteInline(node.then[0], context);
+      return branch === null ? null : `{#if ${svelteCondition(node.test)}}${branch}{/if}`;
+    }
+    default:
+      return null;
+  }
+}
+
+function svelteElement(node: PlanElement, indent: string, context: FileContext, extras: ElementExtras): string {
+  return markupElement(
+    node, indent, context, SVELTE_MARKUP, extras,
+    child => svelteInline(child, context),
+    (child, pad) => svelteNode(child, pad, context)
+  );
+}
+
+function svelteNode(node: PlanNode, indent: string, context: FileContext): string {
+  const children = (nodes: PlanNode[], pad: string) => nodes.map(child => svelteNode(child, pad, context)).join('\n');
+  switch (node.kind) {
+    case 'text':
+    case 'render':
+    case 'slot':
+      return indent + svelteInline(node, context);
+    case 'element':
+      return svelteElement(node, indent, context, NO_EXTRAS);
+    case 'component': {
+      const inline = svelteInline(node, context);
+      if (inline !== null) return indent + inline;
+      useComponent(node, context);
+      const snippets = Object.entries(node.slots ?? {}).map(([name, content]) =>
+        `${indent}  {#snippet ${name}()}\n${children(content, `${indent}    `)}\n${indent}  {/snippet}`);
+      const content = [...snippets, ...(node.children ? [children(node.children, `${indent}  `)] : [])];
+      return `${openTag(node.name, componentAttributes(node, SVELTE_MARKUP), indent, false)}\n${content.join('\n')}\n${indent}</${node.name}>`;
+    }
+    case 'when':
+      return [
+        `${indent}{#if ${svelteCondition(node.test)}}`,
+        children(node.then, `${indent}  `),
+        ...(node.else ? [`${indent}{:else}`, children(node.else, `${indent}  `)] : []),
+        `${indent}{/if}`,
+      ].join('\n');
+    case 'each':
+      return [
+        `${indent}{#each ${node.items} as ${node.item}${node.index ? `, ${node.index}` : ''} (${node.key})}`,
+        svelteElement(node.body, `${indent}  `, context, NO_EXTRAS),
+        `${indent}{/each}`,
+      ].join('\n');
+  }
+}
+
+function svelteInView(onScroll: boolean): string {
+  if (!onScroll) {
+    return `$effect(() => {
+  inView = true;
+});`;
+  }
+  return `$effect(() => {
+  if (!root || typeof IntersectionObserver === 'undefined') {
+    inView = true;
+    return;
+  }
+  const observer = new IntersectionObserver(([entry]) => {
+    if (entry.isIntersecting) {
+      inView = true;
+      observer.disconnect();
+    }
+  }, { threshold: 0.2 });
+  observer.observe(root);
+  return () => observer.disconnect();
+});`;
+}
+
+function renderSvelteFile(plan: ComponentPlan, root: ComponentPlan, target: OutputTargetDefinition): string {
+  const context = createContext(plan, root);
+  const { behaviors = {} } = plan;
+  const element = requireRoot(plan);
+  const onScroll = behaviors.inView?.onScroll !== false;
+
+  const extras: ElementExtras = {
+    before: behaviors.inView && onScroll ? ['bind:this={root}'] : [],
+    after: [
+      // Hover only changes presentation; Svelte asks handlers on a plain element for a role
+      ...(behaviors.hover && !element?.attributes?.role ? ['role="presentation"'] : []),
+      ...(behaviors.hover ? ['onmouseenter={() => (hovered = true)}', 'onmouseleave={() => (hovered = false)}'] : []),
+      ...(plan.forwardAttributes ? ['{...rest}'] : []),
+    ],
+  };
+  const markup = element
+    ? svelteElement(element, '', context, extras)
+    : plan.template.map(node => svelteNode(node, '', context)).join('\n');
+
+  const attributes = SVELTE_ATTRIBUTES[element?.tag ?? ''] ?? `HTMLAttributes<${domElement(element?.tag ?? 'div')}>`;
+  const own = plan.props.filter(prop => prop.name !== 'className' && !(plan.forwardAttributes && prop.name === 'children'));
+  const hasClass = plan.forwardAttributes || plan.props.some(prop => prop.name === 'className');
+  const fields = fieldLines(own, svelteNodeType);
+  const props = plan.forwardAttributes
+    ? `interface Props extends ${attributes} {\n${block(fields)}\n}`
+    : `interface Props {\n${block([...fields, ...(hasClass ? ['class?: string;'] : [])])}\n}`;
+  const names = [
+    ...own.map(destructured),
+    ...(hasClass ? ['class: className'] : []),
+    ...(plan.forwardAttributes && usesDefaultSlot(plan) ? ['children'] : []),
+    ...(plan.forwardAttributes ? ['...rest'] : []),
+  ];
+
+  const state = [
+    ...(behaviors.id ? ['const id = $props.id();'] : []),
+    ...(behaviors.inView && onScroll && element ? [`let root = $state<${domElement(element.tag)}>();`] : []),
+    ...(behaviors.inView ? ['let inView = $state(false);'] : []),
+    ...(behaviors.hover ? ['let hovered = $state(false);'] : []),
+    ...(plan.state ?? []).map(entry => {
+      // State seeded from a prop takes its first value on purpose
+      const seeded = plan.props.some(prop => new RegExp(`\\b${prop.name}\\b`).test(entry.initial));
+      return `let ${entry.name} = $state${entry.type ? `<${entry.type}>` : ''}(${seeded ? `untrack(() => ${entry.initial})` : entry.initial});`;
+    }),
+  ];
+
+  const script = sfcScript([
+    ...(plan.declarations ?? []),
+    ...classConstants(plan),
+    names.length > 0 ? `${props}\n\nlet { ${names.join(', ')} }: Props = $props();` : '',
+    state.join('\n'),
+    behaviors.inView ? svelteInView(onScroll) : '',
+    ...(plan.effects ?? []).flatMap(effect => [
+      `function ${effect.name}() {\n${indentLines(assignState(plan, effect.body, (name, value) => `${name} = ${value};`), '  ')}\n}`,
+      `$effect(() => ${effect.name}());`,
+    ]),
+  ]);
+
+  const imports = [
+    ...(/\buntrack\(/.test(script) ? [`import { untrack } from 'svelte';`] : []),
+    ...(/\bSnippet\b/.test(script) ? [`import type { Snippet } from 'svelte';`] : []),
+    ...(plan.forwardAttributes ? [`import type { ${attributes.split('<')[0]} } from 'svelte/elements';`] : []),
+    ...(context.cn ? [`import { cn } from '${target.utilsImport}';`] : []),
+    ...sfcImports(plan, root, context, script, target.extension),
+  ];
+
+  // Without a TypeScript script, importers see the component as untyped
+  const body = sfcScript([imports.join('\n'), script]);
+  if (!body) return `<script lang="ts"></script>\n\n${markup}\n`;
+
+  return `<script lang="ts"${plan.generic ? ` generics="${plan.generic}"` : ''}>
+${indentLines(body, '  ')}
+</script>
+
+${markup}
+`;
+}
+
+// =============================================================================
+// ASTRO
+// =============================================================================
+
+/**
+ * Render props return text, which Astro escapes like any expression; pass
+ * markup through slots rather than as an HTML string
+ */
+function astroNodeType(params?: string): string {
+  return params ? `(${params}) => string` : 'string';
+}
+
+const ASTRO_MARKUP: JsxSyntax = {
+  classes: { variant: constantVariant, raw: false, comments: false },
+  attribute: (name, value) => sfcValue(name, value, svelteBind),
+  classAttribute: (value, dynamic) => (dynamic ? svelteBind('class', value) : `class="${value}"`),
+  style: style => {
+    const declarations = staticStyle(style);
+    return [declarations !== null ? `style="${attributeText(declarations)}"` : svelteBind('style', styleObject(style))];
+  },
+  text: jsxText,
+  componentProp: (name, value) => sfcValue(name === 'className' ? 'class' : name, value, svelteBind),
+  spread: code => `{...${code}}`,
+  keyed: false,
+  slot: name => (name === 'children' ? '<slot />' : `<slot name="${name}" />`),
+  slotTest: name => `Astro.slots.has('${name === 'children' ? 'default' : name}')`,
+  render: call => call,
+  namedSlots: 'fragments',
+  slotFallback: false,
+};
+
+function renderAstroFile(plan: ComponentPlan, root: ComponentPlan, target: OutputTargetDefinition): string {
+  const context = createContext(plan, root);
+  const { behaviors = {} } = plan;
+  const element = requireRoot(plan);
+  const extras: ElementExtras = { before: [], after: plan.forwardAttributes ? ['{...rest}'] : [] };
+  const markup = jsxTemplate(plan, '', context, ASTRO_MARKUP, extras);
+
+  // Rendered content arrives as slots, not props
+  const own = plan.props.filter(prop => prop.type !== 'node' && prop.name !== 'className');
+  const hasClass = plan.forwardAttributes || plan.props.some(prop => prop.name === 'className');
+  const fields = fieldLines(own, astroNodeType);
+  // Astro infers a generic component from the parameters of `Props`
+  const generic = plan.generic ? `<${plan.generic}>` : '';
+  const props = plan.forwardAttributes
+    ? `interface Props${generic} extends HTMLAttributes<'${element?.tag}'> {\n${block(fields)}\n}`
+    : `interface Props${generic} {\n${block([...fields, ...(hasClass ? ['class?: string;'] : [])])}\n}`;
+  const names = [
+    ...own.map(destructured),
+    ...(hasClass ? ['class: className'] : []),
+    ...(plan.forwardAttributes ? ['...rest'] : []),
+  ];
+
+  const state = [
+    ...(behaviors.id ? ['const id = `ds-${Math.random().toString(36).slice(2, 8)}`;'] : []),
+    ...(behaviors.inView ? ['const inView = true;'] : []),
+    ...(behaviors.hover ? ['const hovered = false;'] : []),
+    ...(plan.state ?? []).map(entry => `const ${entry.name}${entry.type ? `: ${entry.type}` : ''} = ${entry.initial};`),
+  ];
+  const isStatic = behaviors.inView || behaviors.hover || (plan.effects?.length ?? 0) > 0;
+  // Inside the frontmatter the type parameter stays unknown, so rows read as records
+  const propsType = plan.generic ? ' as Props<Record<string, unknown>>' : '';
+
+  const script = sfcScript([
+    ...(plan.declarations ?? []),
+    ...classConstants(plan),
+    names.length > 0 ? `${props}\n\nconst { ${names.join(', ')} } = Astro.props${propsType};` : '',
+    [...(isStatic ? ['// Rendered on the server: in-view, hover and effect state keep their resting value'] : []), ...state].join('\n'),
+  ]);
+
+  const imports = [
+    ...(plan.forwardAttributes ? [`import type { HTMLAttributes } from 'astro/types';`] : []),
+    ...(context.cn ? [`import { cn } from '${target.utilsImport}';`] : []),
+    ...sfcImports(plan, root, context, script, target.extension),
+  ];
+
+  const body = sfcScript([imports.join('\n'), script]);
+  if (!body) return `${markup}\n`;
+
+  return `---
+${body}
+---
+
+${markup}
+`;
+}
+
+// =============================================================================
+// RENDERING
+// =============================================================================
+
+registerOutputTarget('react', { extension: 'tsx', utilsImport: '@/lib/utils', render: renderReact });
+registerOutputTarget('vue', {
+  extension: 'vue',
+  utilsImport: '@/lib/utils',
+  render: renderFiles({ nodeType: vueNodeType, nodeTypeImport: `import type { VNode } from 'vue';`, renderFile: renderVueFile }),
+});
+registerOutputTarget('svelte', {
+  extension: 'svelte',
+  utilsImport: '$lib/utils',
+  render: renderFiles({ nodeType: svelteNodeType, nodeTypeImport: `import type { Snippet } from 'svelte';`, renderFile: renderSvelteFile }),
+});
+registerOutputTarget('astro', {
+  extension: 'astro',
+  utilsImport: '@/lib/utils',
+  render: renderFiles({ nodeType: astroNodeType, renderFile: renderAstroFile }),
+});
+
+/**
+ * `imports` entries (`cn from @/lib/utils`) for the value imports of the files
+ */
+function importsOf(files: GeneratedFile[]): string[] {
+  const imports = files.flatMap(file => Array.from(file.code.matchAll(/^\s*import (?!type )(.+?) from '([^']+)';$/gm))
+    .map(([, names, from]) => `${names.replace(/^\{ | \}$/g, '')} from ${from}`));
+  return Array.from(new Set(imports));
+}
+
+/**
+ * Render a component plan for a registered target. React keeps the parts in
+ * one module; the single-file-component targets emit one file per component,
+ * plus a types module for the plan's interfaces.
+ *
+ * @throws {Error} if the target is not registered
+ *
+ * @example
+ * ```ts
+ * const { files } = renderComponent(generator.planCard('MetricCard'), 'vue');
+ * files?.map(file => file.path); // ['MetricCard.vue', 'MetricCardHeader.vue', ...]
+ * ```
+ */
+export function renderComponent(plan: ComponentPlan, target: OutputTarget = 'react'): RenderedComponent {
+  const definition = targets.get(target);
+  if (!definition) {
+    throw new Error(`Unknown output target "${target}": registered targets are ${listOutputTargets().join(', ')}`);
+  }
+
+  const files = definition.render(plan, definition);
+  return { code: files[0].code, files, imports: importsOf(files), dependencies: [] };
+}
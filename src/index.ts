@@ -101,9 +101,51 @@ export type {
   TasteConfig,
   GeneratedCode,
   GenerationContext,
+  GenerationThemeOptions,
+  GenerationOptions,
+  GeneratedFile,
+  OutputTarget,
+  OutputTargetDefinition,
+  ComponentPlan,
+  GeneratedComponentType,
+  ProductComponentType,
+  MarketingPageOptions,
+  SignatureComponentType,
+  TypeScaleLevel,
+  TailwindThemeExtension,
+  TailwindKeyframes,
+  TailwindGeneratorOptions,
+  TailwindConfigSourceOptions,
 } from './generator';
 
-export { generateCode, createGenerator, CodeGenerator } from './generator';
+export {
+  generateCode,
+  createGenerator,
+  CodeGenerator,
+  GENERATED_COMPONENT_TYPES,
+  OUTPUT_TARGET_EXTENSIONS,
+  registerOutputTarget,
+  unregisterOutputTarget,
+  getOutputTarget,
+  listOutputTargets,
+  renderComponent,
+  outputTargetForStack,
+  PRODUCT_COMPONENT_RECIPES,
+  generateMarketingPage,
+  resolveStoryboard,
+  resolveMotifLayers,
+  SIGNATURE_COMPONENT_BLOCKS,
+  generateSignatureBlock,
+  generateSignatureBlocks,
+  generateTailwindTheme,
+  generateTailwindConfig,
+  generateTailwindV4Theme,
+  surfaceClasses,
+  typeClasses,
+  colorClass,
+  dsColor,
+  tokenVariable,
+} from './generator';
 
 // Inspiration (THE CORRECT APPROACH)
 export type {
@@ -224,6 +224,9 @@ export interface TunerValues {
 
   /** Narrative strength: section spacing, hero height, ribbon prominence */
   narrative?: number;
+
+  /** Custom dimensions registered with `registerTunerDimension` */
+  [dimension: string]: number | undefined;
 }
 
 /**
@@ -425,6 +428,8 @@ export interface AppliedTuners {
   motion: number;
   contrast: number;
   narrative: number;
+  /** Custom dimensions registered with `registerTunerDimension` */
+  [dimension: string]: number;
 }
 
 /**
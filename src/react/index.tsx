@@ -4,10 +4,16 @@
  * Provides React hooks and components for theme management.
  */
 
-import { createContext, useContext, useState, useEffect, useMemo, useCallback } from 'react';
+import { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import type { ReactNode } from 'react';
 import type { ThemePack, PageContext, ProductRecipes, MarketingRecipes, ThemeTokens, ThemeMode } from '../core/types';
 import { themeEngine, ThemeEngine } from '../core/engine';
+import {
+  transitionCSSVariables,
+  getMotionTransition,
+  type TransitionTiming,
+  type CSSTransitionHandle,
+} from '../core/transition';
 import type { TunerValues, AppliedTuners } from '../mcp/contract';
 import {
   normalizeTuners,
@@ -15,8 +21,32 @@ import {
   applyCSSOverridesToDocument,
   removeCSSOverridesFromDocument,
   parseTunersFromURL,
+  resolveTunedRecipes,
+  detectUserPreferences,
+  watchUserPreferences,
+  applyUserPreferences,
+  resolvePreferredTheme,
+  inheritTuners,
+  resolveRouteTuners,
+  applyTunerScope,
+  removeTunerScope,
+  parseTunerShareFromURL,
+  encodeTunerShareToken,
+  createTunerHistory,
+  pushTunerHistory,
+  undoTunerHistory,
+  redoTunerHistory,
+  listTunerDimensions,
+  TUNER_SHARE_PARAM,
+  DEFAULT_TUNER_HISTORY_LIMIT,
   DEFAULT_TUNERS,
   type TunerOutput,
+  type TunerCSSOverrides,
+  type TunerHistory,
+  type TunerSnapshot,
+  type TunerRoute,
+  type UserPreferences,
+  type PreferenceAdjustmentOptions,
 } from '../tuners';
 
 // =============================================================================
@@ -40,8 +70,10 @@ interface ThemeContextValue {
   setContext: (context: PageContext) => void;
   /** Available theme names */
   availableThemes: string[];
-  /** Current recipes for context */
+  /** Current recipes for context (tuned when tuners are active) */
   recipes: ProductRecipes | MarketingRecipes;
+  /** Active tuners, or null when recipes are untuned */
+  tuners: AppliedTuners | null;
   /** Current theme tokens */
   tokens: ThemeTokens | null;
   /** Theme engine instance */
@@ -50,6 +82,20 @@ interface ThemeContextValue {
 
 const ThemeContext = createContext<ThemeContextValue | null>(null);
 
+/**
+ * Transition timing keyed on its fields: an inline `transition={{ duration: 300 }}`
+ * is a new object every render and would restart the transition effects
+ */
+function useTransitionTiming(transition: boolean | Partial<TransitionTiming>): Partial<TransitionTiming> | null {
+  const enabled = transition !== false;
+  const duration = typeof transition === 'object' ? transition.duration : undefined;
+  const easing = typeof transition === 'object' ? transition.easing : undefined;
+  return useMemo(() => (enabled ? {
+    ...(duration !== undefined ? { duration } : {}),
+    ...(easing !== undefined ? { easing } : {}),
+  } : null), [enabled, duration, easing]);
+}
+
 // =============================================================================
 // THEME PROVIDER
 // =============================================================================
@@ -61,10 +107,26 @@ interface TasteProviderProps {
   defaultTheme?: string;
   /** Default page context */
   defaultContext?: PageContext;
-  /** Use URL params for theme/context persistence */
+  /** Use URL params (or a `taste` share token) for theme/context persistence */
   useUrlParam?: boolean;
   /** Custom theme engine instance */
   engine?: ThemeEngine;
+  /**
+   * Theme only this provider's wrapper element instead of the document.
+   * Use for nested providers, e.g. a marketing preview inside an admin screen.
+   */
+  scoped?: boolean;
+  /** Class name for the scoped wrapper element */
+  className?: string;
+  /** Tuner values applied to the recipes returned by `useRecipes` */
+  tuners?: Partial<TunerValues>;
+  /** Switch to the family member matching `prefers-color-scheme` */
+  followColorScheme?: boolean;
+  /**
+   * Cross-fade `--ds-*` variables when the theme changes, over the theme's
+   * normal motion duration (or the given timing). Skipped under reduced motion.
+   */
+  transition?: boolean | Partial<TransitionTiming>;
 }
 
 /**
@@ -82,6 +144,29 @@ interface TasteProviderProps {
  *   );
  * }
  * ```
+ *
+ * @example Tuned recipes
+ * ```tsx
+ * function App() {
+ *   const { tuners } = useTuners();
+ *   return (
+ *     <TasteProvider defaultTheme="ops-calm" tuners={tuners}>
+ *       <Dashboard />
+ *     </TasteProvider>
+ *   );
+ * }
+ * ```
+ *
+ * @example Scoped preview
+ * ```tsx
+ * <TasteProvider defaultTheme="ops-calm">
+ *   <AdminScreen>
+ *     <TasteProvider scoped defaultTheme="hospitality-warm" defaultContext="marketing">
+ *       <MarketingPreviewCard />
+ *     </TasteProvider>
+ *   </AdminScreen>
+ * </TasteProvider>
+ * ```
  */
 export function TasteProvider({
   children,
@@ -89,16 +174,30 @@ export function TasteProvider({
   defaultContext = 'product',
   useUrlParam = false,
   engine = themeEngine,
+  scoped = false,
+  className,
+  tuners,
+  followColorScheme = false,
+  transition = false,
 }: TasteProviderProps) {
   const [themeName, setThemeName] = useState<string>(defaultTheme);
   const [context, setContextState] = useState<PageContext>(defaultContext);
+  const scopeRef = useRef<HTMLDivElement>(null);
+  const preferences = useUserPreferences();
+  const timing = useTransitionTiming(transition);
+
+  const resolveTheme = useCallback((name: string) => {
+    const loaded = engine.loadTheme(name);
+    return loaded && followColorScheme ? resolvePreferredTheme(engine, loaded, preferences) : loaded;
+  }, [engine, followColorScheme, preferences]);
 
   // Initialize from URL on mount
   useEffect(() => {
     if (useUrlParam && typeof window !== 'undefined') {
       const params = new URLSearchParams(window.location.search);
-      const urlTheme = params.get('theme');
-      const urlContext = params.get('context') as PageContext;
+      const shared = parseTunerShareFromURL(params);
+      const urlTheme = params.get('theme') ?? shared?.theme;
+      const urlContext = (params.get('context') ?? shared?.context) as PageContext;
 
       if (urlTheme && engine.loadTheme(urlTheme)) {
         setThemeName(urlTheme);
@@ -109,11 +208,17 @@ export function TasteProvider({
     }
   }, [useUrlParam, engine]);
 
-  // Apply theme when name or context changes
+  // Apply theme when name, context or color scheme changes
   useEffect(() => {
-    const theme = engine.loadTheme(themeName);
-    if (theme) {
-      engine.applyTheme(theme, context);
+    const theme = resolveTheme(themeName);
+    const target = scoped ? scopeRef.current : undefined;
+    let handle: CSSTransitionHandle | undefined;
+    if (theme && target !== null) {
+      if (timing) {
+        handle = engine.transitionTheme(theme, context, target, { ...timing, reducedMotion: preferences.reducedMotion });
+      } else {
+        engine.applyTheme(theme, context, target);
+      }
 
       // Update URL if enabled
       if (useUrlParam && typeof window !== 'undefined') {
@@ -123,9 +228,25 @@ export function TasteProvider({
         window.history.replaceState({}, '', url.toString());
       }
     }
-  }, [themeName, context, useUrlParam, engine]);
+    return () => handle?.cancel();
+  }, [themeName, context, useUrlParam, engine, scoped, resolveTheme, timing, preferences.reducedMotion]);
 
-  const theme = engine.loadTheme(themeName);
+  // Remove scoped variables when the wrapper unmounts
+  useEffect(() => {
+    const element = scopeRef.current;
+    if (!scoped || !element) return;
+    return () => engine.clearTheme(element);
+  }, [scoped, engine]);
+
+  const theme = resolveTheme(themeName);
+  const appliedTuners = useMemo(() => (tuners ? normalizeTuners(tuners) : null), [tuners]);
+
+  const recipes = useMemo(() => {
+    if (!theme) return {} as ProductRecipes;
+    return appliedTuners
+      ? resolveTunedRecipes(theme, context, appliedTuners)
+      : engine.getRecipesForContext(theme, context);
+  }, [theme, context, appliedTuners, engine]);
 
   const value: ThemeContextValue = useMemo(() => ({
     theme,
@@ -136,14 +257,19 @@ export function TasteProvider({
     setTheme: setThemeName,
     setContext: setContextState,
     availableThemes: engine.getAvailableThemes(),
-    recipes: theme ? engine.getRecipesForContext(theme, context) : ({} as ProductRecipes),
+    recipes,
+    tuners: appliedTuners,
     tokens: theme?.tokens || null,
     engine,
-  }), [theme, themeName, context, engine]);
+  }), [theme, themeName, context, recipes, appliedTuners, engine]);
 
   return (
     <ThemeContext.Provider value={value}>
-      {children}
+      {scoped ? (
+        <div ref={scopeRef} className={className} data-taste-scope="">
+          {children}
+        </div>
+      ) : children}
     </ThemeContext.Provider>
   );
 }
@@ -164,11 +290,17 @@ export function useTaste(): ThemeContextValue {
 }
 
 /**
- * Hook to access current recipes
+ * Hook to access current recipes (with tuner effects when the provider
+ * has `tuners` or the component is inside a `TunerScope`)
  */
 export function useRecipes(): ProductRecipes | MarketingRecipes {
-  const { recipes } = useTaste();
-  return recipes;
+  const { recipes, theme, context } = useTaste();
+  const scopeTuners = useContext(TunerScopeContext);
+
+  return useMemo(() => {
+    if (!theme || !scopeTuners) return recipes;
+    return resolveTunedRecipes(theme, context, scopeTuners);
+  }, [recipes, theme, context, scopeTuners]);
 }
 
 /**
@@ -187,6 +319,21 @@ export function useIsDarkMode(): boolean {
   return isDarkMode;
 }
 
+/**
+ * Hook to read OS-level motion, contrast and color scheme preferences,
+ * updating live when they change
+ */
+export function useUserPreferences(): UserPreferences {
+  const [preferences, setPreferences] = useState<UserPreferences>(detectUserPreferences);
+
+  useEffect(() => {
+    setPreferences(detectUserPreferences());
+    return watchUserPreferences(setPreferences);
+  }, []);
+
+  return preferences;
+}
+
 /**
  * Hook to access page context
  */
@@ -199,82 +346,297 @@ export function usePageContext(): { context: PageContext; setContext: (ctx: Page
 // TUNER HOOKS
 // =============================================================================
 
+interface UseTunersOptions extends PreferenceAdjustmentOptions {
+  /** Clamp tuners to reduced-motion and contrast preferences (default: true) */
+  respectPreferences?: boolean;
+  /** Undo steps kept in history (default: 50) */
+  historyLimit?: number;
+  /**
+   * Animate `--tuner-*` variables between tuner states, over the provider
+   * theme's normal motion duration (or the given timing)
+   */
+  transition?: boolean | Partial<TransitionTiming>;
+}
+
 interface UseTunersReturn {
-  /** Current tuner values */
+  /** Current tuner values, adjusted to user preferences */
   tuners: AppliedTuners;
+  /** Tuner values as set, before preference adjustments */
+  requestedTuners: AppliedTuners;
+  /** Current user preferences */
+  preferences: UserPreferences;
   /** Complete tuner output with CSS overrides */
   output: TunerOutput;
   /** Set a single tuner value */
-  setTuner: (key: keyof AppliedTuners, value: number) => void;
+  setTuner: (key: string, value: number) => void;
   /** Set multiple tuner values */
   setTuners: (newTuners: Partial<TunerValues>) => void;
   /** Reset tuners to defaults */
   resetTuners: () => void;
-  /** Sync current tuners to URL */
-  syncToURL: () => void;
+  /** Sync current tuners to URL, as one share token with `{ share: true }` */
+  syncToURL: (options?: { share?: boolean }) => void;
+  /** Step back to the previous tuners */
+  undo: () => void;
+  /** Step forward to the next tuners */
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Named snapshots, oldest first */
+  snapshots: TunerSnapshot[];
+  /** Save the current tuners (and theme/context inside a TasteProvider) under a name */
+  saveSnapshot: (name: string) => TunerSnapshot;
+  /** Restore a snapshot by name; returns false if it does not exist */
+  restoreSnapshot: (name: string) => boolean;
+  /** Delete a snapshot by name */
+  deleteSnapshot: (name: string) => void;
+  /** Token restoring the current tuners, theme and context */
+  shareToken: string;
 }
 
 /**
- * Hook for managing tuner state with URL sync
+ * Hook for managing tuner state with URL sync, undo/redo history and
+ * named snapshots.
+ * Reduced-motion and contrast preferences are applied live unless
+ * `respectPreferences` is false.
+ *
+ * @example
+ * ```tsx
+ * const { tuners, setTuner, undo, canUndo, saveSnapshot, syncToURL } = useTuners();
+ * saveSnapshot('Investor deck');
+ * syncToURL({ share: true }); // ?taste=eyJ2Ijox...
+ * ```
  */
-export function useTuners(initialTuners?: Partial<TunerValues>): UseTunersReturn {
-  // Parse initial values from URL or props
-  const [tuners, setTunersState] = useState<AppliedTuners>(() => {
+export function useTuners(
+  initialTuners?: Partial<TunerValues>,
+  options: UseTunersOptions = {}
+): UseTunersReturn {
+  const {
+    respectPreferences = true,
+    historyLimit = DEFAULT_TUNER_HISTORY_LIMIT,
+    transition = false,
+    reducedMotionCeiling,
+    moreContrastFloor,
+    lessContrastCeiling,
+  } = options;
+  const preferences = useUserPreferences();
+  const timing = useTransitionTiming(transition);
+  // Theme and context are included in snapshots and share tokens when available
+  const taste = useContext(ThemeContext);
+
+  // Parse initial values from URL (share token or per-key params) or props
+  const [history, setHistory] = useState<TunerHistory>(() => {
     if (typeof window !== 'undefined') {
       const urlParams = new URLSearchParams(window.location.search);
       const urlTuners = parseTunersFromURL(urlParams);
-      return normalizeTuners({ ...DEFAULT_TUNERS, ...initialTuners, ...urlTuners });
+      return createTunerHistory(normalizeTuners({ ...DEFAULT_TUNERS, ...initialTuners, ...urlTuners }));
     }
-    return normalizeTuners({ ...DEFAULT_TUNERS, ...initialTuners });
+    return createTunerHistory(normalizeTuners({ ...DEFAULT_TUNERS, ...initialTuners }));
   });
+  const [snapshots, setSnapshots] = useState<TunerSnapshot[]>([]);
+  const tuners = history.present;
+
+  const record = useCallback((update: (prev: AppliedTuners) => AppliedTuners) => {
+    setHistory(prev => pushTunerHistory(prev, update(prev.present), historyLimit));
+  }, [historyLimit]);
+
+  // Adjust to user preferences
+  const effectiveTuners = useMemo(() => {
+    if (!respectPreferences) return tuners;
+    return applyUserPreferences(tuners, preferences, {
+      reducedMotionCeiling,
+      moreContrastFloor,
+      lessContrastCeiling,
+    });
+  }, [tuners, preferences, respectPreferences, reducedMotionCeiling, moreContrastFloor, lessContrastCeiling]);
 
   // Compute output
-  const output = useMemo(() => applyTuners(tuners), [tuners]);
+  const output = useMemo(() => applyTuners(effectiveTuners), [effectiveTuners]);
 
-  // Apply CSS overrides when tuners change
+  // Apply CSS overrides when tuners change, animating from the previous ones
+  const previousOverrides = useRef<TunerCSSOverrides | null>(null);
+  const motion = taste?.recipes.motion;
   useEffect(() => {
-    applyCSSOverridesToDocument(output.cssOverrides);
-    return () => removeCSSOverridesFromDocument(output.cssOverrides);
-  }, [output.cssOverrides]);
+    const from = previousOverrides.current;
+    previousOverrides.current = output.cssOverrides;
+
+    if (!timing || !from || typeof document === 'undefined') {
+      applyCSSOverridesToDocument(output.cssOverrides);
+      return () => removeCSSOverridesFromDocument(output.cssOverrides);
+    }
+
+    const handle = transitionCSSVariables(document.documentElement, from, output.cssOverrides, {
+      ...(motion ? getMotionTransition(motion) : {}),
+      ...timing,
+      reducedMotion: preferences.reducedMotion,
+    });
+    return () => {
+      handle.cancel();
+      removeCSSOverridesFromDocument(output.cssOverrides);
+    };
+  }, [output.cssOverrides, timing, motion, preferences.reducedMotion]);
 
   // Set individual tuner
-  const setTuner = useCallback((key: keyof AppliedTuners, value: number) => {
-    setTunersState(prev => ({
-      ...prev,
-      [key]: Math.max(0, Math.min(1, value)),
-    }));
-  }, []);
+  const setTuner = useCallback((key: string, value: number) => {
+    record(prev => normalizeTuners({ ...prev, [key]: value }));
+  }, [record]);
 
   // Set all tuners
   const setTuners = useCallback((newTuners: Partial<TunerValues>) => {
-    setTunersState(prev => normalizeTuners({ ...prev, ...newTuners }));
-  }, []);
+    record(prev => normalizeTuners({ ...prev, ...newTuners }));
+  }, [record]);
 
   // Reset to defaults
   const resetTuners = useCallback(() => {
-    setTunersState(DEFAULT_TUNERS);
+    record(() => normalizeTuners({}));
+  }, [record]);
+
+  // History
+  const undo = useCallback(() => setHistory(undoTunerHistory), []);
+  const redo = useCallback(() => setHistory(redoTunerHistory), []);
+
+  const themeName = taste?.themeName;
+  const context = taste?.context;
+  const setTheme = taste?.setTheme;
+  const setContext = taste?.setContext;
+
+  // Snapshots
+  const saveSnapshot = useCallback((name: string) => {
+    const snapshot: TunerSnapshot = { name, tuners, theme: themeName, context, createdAt: Date.now() };
+    setSnapshots(prev => [...prev.filter(s => s.name !== name), snapshot]);
+    return snapshot;
+  }, [tuners, themeName, context]);
+
+  const restoreSnapshot = useCallback((name: string) => {
+    const snapshot = snapshots.find(s => s.name === name);
+    if (!snapshot) return false;
+    record(() => normalizeTuners(snapshot.tuners));
+    if (snapshot.theme && setTheme) setTheme(snapshot.theme);
+    if (snapshot.context && setContext) setContext(snapshot.context);
+    return true;
+  }, [snapshots, record, setTheme, setContext]);
+
+  const deleteSnapshot = useCallback((name: string) => {
+    setSnapshots(prev => prev.filter(s => s.name !== name));
   }, []);
 
+  const shareToken = useMemo(
+    () => encodeTunerShareToken({ tuners, theme: themeName, context }),
+    [tuners, themeName, context]
+  );
+
   // Sync to URL
-  const syncToURL = useCallback(() => {
+  const syncToURL = useCallback((syncOptions: { share?: boolean } = {}) => {
     if (typeof window === 'undefined') return;
     const url = new URL(window.location.href);
-    Object.entries(tuners).forEach(([key, value]) => {
-      url.searchParams.set(key, value.toFixed(1));
-    });
+    if (syncOptions.share) {
+      listTunerDimensions().forEach(({ key }) => url.searchParams.delete(key));
+      url.searchParams.set(TUNER_SHARE_PARAM, shareToken);
+    } else {
+      url.searchParams.delete(TUNER_SHARE_PARAM);
+      Object.entries(tuners).forEach(([key, value]) => {
+        url.searchParams.set(key, value.toFixed(1));
+      });
+    }
     window.history.replaceState({}, '', url.toString());
-  }, [tuners]);
+  }, [tuners, shareToken]);
 
   return {
-    tuners,
+    tuners: effectiveTuners,
+    requestedTuners: tuners,
+    preferences,
     output,
     setTuner,
     setTuners,
     resetTuners,
     syncToURL,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    snapshots,
+    saveSnapshot,
+    restoreSnapshot,
+    deleteSnapshot,
+    shareToken,
   };
 }
 
+// =============================================================================
+// TUNER SCOPES
+// =============================================================================
+
+const TunerScopeContext = createContext<AppliedTuners | null>(null);
+
+interface TunerScopeProps {
+  /** Child components */
+  children: ReactNode;
+  /** Overrides on top of the inherited tuners */
+  tuners?: Partial<TunerValues>;
+  /** Route table resolved against `pathname` before `tuners` are applied */
+  routes?: TunerRoute[];
+  /** Current pathname (default: `window.location.pathname`) */
+  pathname?: string;
+  /** Class name for the wrapper element */
+  className?: string;
+}
+
+/**
+ * TunerScope - scopes tuner overrides to its subtree.
+ *
+ * Inherits from the nearest enclosing `TunerScope` (or the provider's
+ * tuners), writes `--tuner-*` variables on its wrapper element only, and
+ * removes them on unmount. `useRecipes()` inside the scope returns recipes
+ * tuned for it.
+ *
+ * @example
+ * ```tsx
+ * <TunerScope routes={tunerRoutes} pathname={location.pathname}>
+ *   <Page>
+ *     <TunerScope tuners={{ narrative: 0.9 }}>
+ *       <StorySection />
+ *     </TunerScope>
+ *   </Page>
+ * </TunerScope>
+ * ```
+ */
+export function TunerScope({ children, tuners, routes, pathname, className }: TunerScopeProps) {
+  const parentTuners = useContext(TunerScopeContext);
+  const theme = useContext(ThemeContext);
+  const scopeRef = useRef<HTMLDivElement>(null);
+
+  const inherited = parentTuners ?? theme?.tuners ?? DEFAULT_TUNERS;
+  const path = pathname ?? (typeof window !== 'undefined' ? window.location.pathname : '/');
+  const routed = routes ? resolveRouteTuners(routes, path, inherited) : inherited;
+
+  // Inline `tuners`/`routes` objects change identity every render; key by value
+  const resolvedKey = JSON.stringify(inheritTuners(routed, tuners ?? {}));
+  const scopeTuners = useMemo<AppliedTuners>(() => JSON.parse(resolvedKey), [resolvedKey]);
+
+  useEffect(() => {
+    const element = scopeRef.current;
+    if (!element) return;
+    applyTunerScope(element, scopeTuners, scopeTuners);
+    return () => removeTunerScope(element);
+  }, [scopeTuners]);
+
+  return (
+    <TunerScopeContext.Provider value={scopeTuners}>
+      <div ref={scopeRef} className={className}>
+        {children}
+      </div>
+    </TunerScopeContext.Provider>
+  );
+}
+
+/**
+ * Hook to read the tuners in effect for the current subtree
+ */
+export function useScopedTuners(): AppliedTuners {
+  const scopeTuners = useContext(TunerScopeContext);
+  const theme = useContext(ThemeContext);
+  return scopeTuners ?? theme?.tuners ?? DEFAULT_TUNERS;
+}
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
@@ -19,12 +19,42 @@ import {
 import { existsSync } from 'fs';
 
 import { analyzeCodebase, type CodebaseAnalysis } from '../analyzer';
-import { generateCode, type TasteConfig, type GeneratedCode } from '../generator';
+import {
+  generateCode,
+  GENERATED_COMPONENT_TYPES,
+  PRODUCT_COMPONENT_RECIPES,
+  SIGNATURE_COMPONENT_BLOCKS,
+  OUTPUT_TARGET_EXTENSIONS,
+  listOutputTargets,
+  outputTargetForStack,
+  type OutputTarget,
+  type TasteConfig,
+  type GeneratedCode,
+  type GeneratedComponentType,
+} from '../generator';
+import {
+  listTunerDimensions,
+  getTunerBounds,
+  getTunerImpact,
+  formatTunerImpactReport,
+  type TunerDimension,
+} from '../tuners';
+import {
+  toThemeKey,
+  normalizeThemePack,
+  type ThemePack,
+  type PageContext,
+  type MarketingAudience,
+} from '../core';
+import type { RepoMetadata } from '../mcp/contract';
+import { chronicleDark, opsCalm, hospitalityWarm } from '../themes';
 
 // =============================================================================
 // TOOL DEFINITIONS
 // =============================================================================
 
+const BUILT_IN_THEMES: ThemePack[] = [chronicleDark, opsCalm, hospitalityWarm].map(normalizeThemePack);
+
 const TOOLS = [
   {
     name: 'analyze_codebase',
@@ -53,8 +83,40 @@ Output:
     },
   },
   {
+    name: 'get_taste_from_reference',
+    description: `Get a taste configuration based on a reference brand/site.
+
+Known references:
+- linear: Clean, minimal, geometric (abstraction: 0.7, motion: 0.6)
+- stripe: Polished, gradient-heavy (abstraction: 0.5, motion: 0.7)
+- vercel: Ultra-minimal, stark contrast (abstraction: 0.8, contrast: 0.8)
+- notion: Friendly, content-focused (abstraction: 0.3, narrative: 0.6)
+- apple: Premium, spacious (abstraction: 0.6, narrative: 0.8)
+- github: Developer-focused, dense (density: 0.6, contrast: 0.6)
+- airbnb: Warm, photo-forward (narrative: 0.7, contrast: 0.5)
+
+Returns a TasteConfig that can be passed to generate_component.`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        reference: {
+          type: 'string',
+          description: 'Reference brand name (linear, stripe, vercel, etc.)',
+        },
+      },
+      required: ['reference'],
+    },
+  },
+];
+
+/**
+ * generate_component offers every registered output target, so it is built
+ * when tools are listed rather than at module load
+ */
+function generateComponentTool() {
+  return {
     name: 'generate_component',
-    description: `Generates a React component based on:
+    description: `Generates a component based on:
 1. Codebase analysis (must run analyze_codebase first)
 2. Taste configuration (abstraction, density, motion, contrast, narrative)
 
@@ -66,6 +128,12 @@ Taste parameters (all 0-1):
 - narrative: Low = minimal, High = storytelling (for marketing pages)
 
 Component types: button, card, layout, hero, features, cta
+Product recipe types (require a theme): app-shell, stat-card, section-header, data-table, hero-header, activity-table, toolbar
+marketing-page (requires a theme): a full page from the theme's storyboard, ordered for the audience
+Signature blocks (require a theme): signal-path-graphic, stacked-cards, metric-ribbon, or signature-blocks for the module marketing pages import
+
+Pass a theme (and context) to take classes from its recipes and --ds-* tokens instead of the taste mappings.
+Pass a target to render any type for another framework (${listOutputTargets().join(', ')}), or the stack to pick the framework the repo uses.
 
 The generated code will:
 - Match patterns found in your codebase
@@ -91,65 +159,85 @@ The generated code will:
         },
         component_type: {
           type: 'string',
-          enum: ['button', 'card', 'layout', 'hero', 'features', 'cta'],
+          enum: [...GENERATED_COMPONENT_TYPES],
           description: 'Type of component to generate',
         },
         name: {
           type: 'string',
           description: 'Name for the generated component',
         },
-      },
-      required: ['analysis', 'taste', 'component_type'],
-    },
-  },
-  {
-    name: 'get_taste_from_reference',
-    description: `Get a taste configuration based on a reference brand/site.
-
-Known references:
-- linear: Clean, minimal, geometric (abstraction: 0.7, motion: 0.6)
-- stripe: Polished, gradient-heavy (abstraction: 0.5, motion: 0.7)
-- vercel: Ultra-minimal, stark contrast (abstraction: 0.8, contrast: 0.8)
-- notion: Friendly, content-focused (abstraction: 0.3, narrative: 0.6)
-- apple: Premium, spacious (abstraction: 0.6, narrative: 0.8)
-- github: Developer-focused, dense (density: 0.6, contrast: 0.6)
-- airbnb: Warm, photo-forward (narrative: 0.7, contrast: 0.5)
-
-Returns a TasteConfig that can be passed to generate_component.`,
-    inputSchema: {
-      type: 'object',
-      properties: {
-        reference: {
+        theme: {
           type: 'string',
-          description: 'Reference brand name (linear, stripe, vercel, etc.)',
+          enum: BUILT_IN_THEMES.map(theme => toThemeKey(theme.name)),
+          description: 'Theme whose recipes drive the classes (optional)',
+        },
+        context: {
+          type: 'string',
+          enum: ['product', 'marketing'],
+          description: 'Page context of the theme recipes (default: product)',
+        },
+        audience: {
+          type: 'string',
+          enum: ['hotel-owner', 'developer'],
+          description: 'Audience for marketing-page (storyboard order and motif overrides)',
+        },
+        target: {
+          type: 'string',
+          enum: listOutputTargets(),
+          description: 'Framework to render to (default: the one for stack, else react)',
+        },
+        stack: {
+          type: 'string',
+          enum: ['react', 'next', 'remix', 'vue', 'svelte', 'astro', 'unknown'],
+          description: 'Detected stack of the repo, used when target is omitted',
         },
       },
-      required: ['reference'],
+      required: ['analysis', 'taste', 'component_type'],
     },
-  },
-  {
+  };
+}
+
+/**
+ * explain_taste covers every registered tuner dimension, so it is built
+ * when tools are listed rather than at module load
+ */
+function explainTasteTool() {
+  const dimensions = listTunerDimensions();
+  return {
     name: 'explain_taste',
     description: `Explains what each taste parameter does and provides examples.
 
 Use this to understand how taste settings affect generated code:
-- abstraction: How literal vs abstract the visual language is
-- density: How spacious vs compact the layout is
-- motion: How static vs animated interactions are
-- contrast: How subtle vs bold visual hierarchy is
-- narrative: How minimal vs storytelling the content presentation is`,
+${dimensions.map(d => `- ${d.key}: ${d.description}`).join('\n')}
+
+Pass a theme to add an impact report listing every CSS variable and recipe field the parameter moves.`,
     inputSchema: {
       type: 'object',
       properties: {
         parameter: {
           type: 'string',
-          enum: ['abstraction', 'density', 'motion', 'contrast', 'narrative', 'all'],
+          enum: [...dimensions.map(d => d.key), 'all'],
           description: 'Which parameter to explain',
         },
+        theme: {
+          type: 'string',
+          enum: BUILT_IN_THEMES.map(theme => toThemeKey(theme.name)),
+          description: 'Theme to report the impact on (optional)',
+        },
+        context: {
+          type: 'string',
+          enum: ['product', 'marketing'],
+          description: 'Page context for the impact report (default: product)',
+        },
+        value: {
+          type: 'number',
+          description: 'Report the impact of moving from neutral to this value instead of sweeping the full range',
+        },
       },
       required: ['parameter'],
     },
-  },
-];
+  };
+}
 
 // =============================================================================
 // TASTE REFERENCES
@@ -442,7 +530,7 @@ class TasteEngineServer {
   private setupHandlers() {
     // List tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: TOOLS,
+      tools: [...TOOLS, generateComponentTool(), explainTasteTool()],
     }));
 
     // Call tools
@@ -458,15 +546,23 @@ class TasteEngineServer {
             return await this.handleGenerateComponent(args as {
               analysis: CodebaseAnalysis;
               taste: TasteConfig;
-              component_type: 'button' | 'card' | 'layout' | 'hero' | 'features' | 'cta';
+              component_type: GeneratedComponentType;
               name?: string;
+              theme?: string;
+              context?: PageContext;
+              audience?: MarketingAudience;
             });
 
           case 'get_taste_from_reference':
             return this.handleGetTasteFromReference(args as { reference: string });
 
           case 'explain_taste':
-            return this.handleExplainTaste(args as { parameter: string });
+            return this.handleExplainTaste(args as {
+              parameter: string;
+              theme?: string;
+              context?: PageContext;
+              value?: number;
+            });
 
           default:
             throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
@@ -519,10 +615,35 @@ class TasteEngineServer {
   private async handleGenerateComponent(args: {
     analysis: CodebaseAnalysis;
     taste: TasteConfig;
-    component_type: 'button' | 'card' | 'layout' | 'hero' | 'features' | 'cta';
+    component_type: GeneratedComponentType;
     name?: string;
+    theme?: string;
+    context?: PageContext;
+    audience?: MarketingAudience;
+    target?: OutputTarget;
+    stack?: RepoMetadata['stack'];
   }) {
-    const { analysis, taste, component_type, name } = args;
+    const { analysis, taste, component_type, name, stack } = args;
+    const target = args.target ?? (stack ? outputTargetForStack(stack) : 'react');
+    const theme = this.findTheme(args.theme);
+
+    const themed = component_type in PRODUCT_COMPONENT_RECIPES
+      || component_type in SIGNATURE_COMPONENT_BLOCKS
+      || component_type === 'marketing-page'
+      || component_type === 'signature-blocks';
+    if (themed && !theme) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `"${component_type}" follows a theme's recipes: pass a theme (${BUILT_IN_THEMES.map(t => toThemeKey(t.name)).join(', ')})`
+      );
+    }
+
+    if (!listOutputTargets().includes(target)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown output target "${target}": expected ${listOutputTargets().join(', ')}`
+      );
+    }
 
     // Validate taste values
     for (const [key, value] of Object.entries(taste)) {
@@ -535,7 +656,17 @@ class TasteEngineServer {
     }
 
     // Generate code
-    const result: GeneratedCode = generateCode(analysis, taste, component_type, name);
+    const result: GeneratedCode = generateCode(analysis, taste, component_type, name, {
+      theme,
+      context: args.context,
+      audience: args.audience,
+      target,
+    });
+
+    // Fence each file by its own extension: shared types sit in .ts files
+    const code = result.files && result.files.length > 1
+      ? result.files.map(file => `#### ${file.path}\n\`\`\`${file.path.split('.').pop()}\n${file.code.trim()}\n\`\`\``).join('\n\n')
+      : `\`\`\`${OUTPUT_TARGET_EXTENSIONS[target]}\n${result.code.trim()}\n\`\`\``;
 
     return {
       content: [
@@ -547,9 +678,7 @@ class TasteEngineServer {
 ${result.explanation}
 
 ### Code
-\`\`\`tsx
-${result.code}
-\`\`\`
+${code}
 
 ### Dependencies
 ${result.dependencies.length > 0 ? result.dependencies.join(', ') : 'None'}
@@ -611,12 +740,34 @@ Use this with \`generate_component\` to create ${reference}-inspired components.
       };
   }
 
-  private handleExplainTaste(args: { parameter: string }) {
+  /**
+   * Look up a built-in theme by key (undefined when no key is given)
+   */
+  private findTheme(key?: string): ThemePack | undefined {
+    if (!key) return undefined;
+
+    const theme = BUILT_IN_THEMES.find(t => toThemeKey(t.name) === toThemeKey(key));
+    if (!theme) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown theme: "${key}". Available: ${BUILT_IN_THEMES.map(t => toThemeKey(t.name)).join(', ')}`
+      );
+    }
+    return theme;
+  }
+
+  private handleExplainTaste(args: { parameter: string; theme?: string; context?: PageContext; value?: number }) {
     const { parameter } = args;
+    const theme = this.findTheme(args.theme);
+
+    const explain = (dimension: TunerDimension) => {
+      const text = this.explainDimension(dimension);
+      return theme ? `${text}\n\n${this.explainImpact(dimension, theme, args.context ?? 'product', args.value)}` : text;
+    };
 
     if (parameter === 'all') {
-      const allExplanations = Object.entries(TASTE_EXPLANATIONS)
-        .map(([key, exp]) => this.formatExplanation(key, exp))
+      const allExplanations = listTunerDimensions()
+        .map(explain)
         .join('\n\n---\n\n');
 
       return {
@@ -629,16 +780,16 @@ Use this with \`generate_component\` to create ${reference}-inspired components.
       };
     }
 
-    const explanation = TASTE_EXPLANATIONS[parameter as keyof typeof TASTE_EXPLANATIONS];
+    const dimension = listTunerDimensions().find(d => d.key === parameter);
 
-    if (!explanation) {
+    if (!dimension) {
       return {
         content: [
           {
             type: 'text',
             text: `Unknown parameter: "${parameter}"
 
-Available parameters: abstraction, density, motion, contrast, narrative, all`,
+Available parameters: ${[...listTunerDimensions().map(d => d.key), 'all'].join(', ')}`,
           },
         ],
       };
@@ -648,12 +799,47 @@ Available parameters: abstraction, density, motion, contrast, narrative, all`,
       content: [
         {
           type: 'text',
-          text: this.formatExplanation(parameter, explanation),
+          text: explain(dimension),
         },
       ],
     };
   }
 
+  /**
+   * Impact report for one dimension: neutral -> value, or the full range
+   */
+  private explainImpact(dimension: TunerDimension, theme: ThemePack, context: PageContext, value?: number): string {
+    const { min, max } = getTunerBounds(dimension);
+    const report = value === undefined
+      ? getTunerImpact(theme, context, { [dimension.key]: max }, { [dimension.key]: min })
+      : getTunerImpact(theme, context, { [dimension.key]: value });
+
+    return `### Impact
+
+\`\`\`
+${formatTunerImpactReport(report)}
+\`\`\``;
+  }
+
+  private explainDimension(dimension: TunerDimension): string {
+    const explanation = TASTE_EXPLANATIONS[dimension.key as keyof typeof TASTE_EXPLANATIONS];
+    if (explanation) return this.formatExplanation(dimension.key, explanation);
+
+    // Custom dimensions are described from the registry
+    const { min, max } = getTunerBounds(dimension);
+    const variables = (dimension.css ?? []).map(mapping => `- \`${mapping.variable}\``);
+    return `## ${dimension.name}
+
+${dimension.description}
+
+- **Range**: ${min} - ${max} (default ${dimension.default})
+- **Low**: ${dimension.low ?? 'n/a'}
+- **High**: ${dimension.high ?? 'n/a'}${variables.length > 0 ? `
+
+### CSS variables
+${variables.join('\n')}` : ''}`;
+  }
+
   private formatExplanation(key: string, exp: typeof TASTE_EXPLANATIONS.abstraction): string {
     return `## ${exp.name}
 
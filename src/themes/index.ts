@@ -8,3 +8,6 @@
 export { chronicleDark } from './chronicle-dark';
 export { opsCalm } from './ops-calm';
 export { hospitalityWarm } from './hospitality-warm';
+
+export { createThemeFromSeed } from './seed';
+export type { ThemeSeedOptions, SeedTemperature, SeedRadius, SeedDensity } from './seed';
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { createThemeFromSeed } from './seed';
+import { auditThemeContrast } from '../core/contrast';
+import { validateThemeDefinition } from '../core/validation';
+import { opsCalm } from './ops-calm';
+
+const ACCENTS = ['#7c5cff', '#0f766e', '#f59e0b', '#e11d48', '210 90% 55%', '#ffffff'];
+
+describe('createThemeFromSeed', () => {
+  it.each(ACCENTS.flatMap(accent => (['light', 'dark'] as const).map(mode => [accent, mode] as const)))(
+    'passes the contrast audit for %s in %s mode',
+    (accent, mode) => {
+      const theme = createThemeFromSeed({ accent, mode });
+      expect(auditThemeContrast(theme).failures).toEqual([]);
+      expect(validateThemeDefinition(theme).errors).toEqual([]);
+    }
+  );
+
+  it('applies the radius and density presets', () => {
+    const { tokens } = createThemeFromSeed({ accent: '#7c5cff', radius: 'round', density: 'compact' });
+    expect([tokens.radiusSurface, tokens.radiusControl]).toEqual(['16px', '10px']);
+    expect(tokens.density.tableRowHeight).toBe('36px');
+  });
+
+  it('ignores inherited keys as radius presets', () => {
+    const { tokens } = createThemeFromSeed({ accent: '#7c5cff', radius: 'toString' });
+    expect([tokens.radiusSurface, tokens.radiusControl]).toEqual(['10px', '6px']);
+  });
+
+  it('does not share the type scale with the built-in theme', () => {
+    const theme = createThemeFromSeed({ accent: '#7c5cff' });
+    theme.tokens.typeScale.h1.fontSize = '4rem';
+    expect(opsCalm.tokens.typeScale.h1.fontSize).not.toBe('4rem');
+  });
+
+  it('rejects an accent that is not a color', () => {
+    expect(() => createThemeFromSeed({ accent: 'purple' })).toThrow('Invalid seed accent "purple"');
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Seed Themes
+ *
+ * Builds a complete theme pack from a single brand color, so onboarding a
+ * client does not require hand-writing a full theme file.
+ */
+
+import type {
+  ThemeMode,
+  ThemePack,
+  ThemeTokens,
+  DensityTokens,
+  PartialProductRecipes,
+  PartialMarketingRecipes,
+  ContextRecipeOverrides,
+} from '../core/types';
+import { normalizeThemePack } from '../core/engine';
+import { toContextRecipes } from '../core/merge';
+import { parseColor, formatHSL, hslToRgb, pickReadableForeground } from '../core/color';
+import type { HSLColor } from '../core/color';
+import { repairThemeContrast } from '../core/contrast';
+import { SURFACE_LADDER, MUTED_LIGHTNESS } from '../core/variants';
+import { chronicleDark } from './chronicle-dark';
+import { opsCalm } from './ops-calm';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type SeedTemperature = 'cool' | 'neutral' | 'warm';
+export type SeedRadius = 'sharp' | 'soft' | 'round';
+export type SeedDensity = 'compact' | 'comfortable' | 'spacious';
+
+/**
+ * Options for seeding a theme
+ */
+export interface ThemeSeedOptions {
+  /** Brand color as an HSL triple (`'255 70% 62%'`) or hex (`'#7c5cff'`) */
+  accent: string;
+  /** Theme name (default: "Seeded Theme") */
+  name?: string;
+  /** Theme mode (default: light) */
+  mode?: ThemeMode;
+  /** Tint of the neutral ladder (default: neutral = tinted toward the accent) */
+  temperature?: SeedTemperature;
+  /** Corner radius preset, or a CSS length for surfaces */
+  radius?: SeedRadius | string;
+  /** Density preset (default: comfortable) */
+  density?: SeedDensity;
+  /** Recipe overrides on top of the seeded defaults (flat product, or per context) */
+  recipes?: PartialProductRecipes | ContextRecipeOverrides;
+}
+
+// =============================================================================
+// PRESETS
+// =============================================================================
+
+const TEMPERATURE_HUES: Record<Exclude<SeedTemperature, 'neutral'>, number> = {
+  cool: 215,
+  warm: 35,
+};
+
+const RADIUS_PRESETS: Record<SeedRadius, { surface: string; control: string }> = {
+  sharp: { surface: '4px', control: '2px' },
+  soft: { surface: '10px', control: '6px' },
+  round: { surface: '16px', control: '10px' },
+};
+
+const DENSITY_PRESETS: Record<SeedDensity, DensityTokens> = {
+  compact: {
+    tableRowHeight: '36px',
+    tableRowHeightCompact: '30px',
+    controlHeight: '32px',
+    controlHeightSm: '28px',
+    pageGutter: '16px',
+    sectionGap: '20px',
+    cardPadding: '14px',
+    cardPaddingCompact: '10px',
+  },
+  comfortable: {
+    tableRowHeight: '44px',
+    tableRowHeightCompact: '36px',
+    controlHeight: '34px',
+    controlHeightSm: '30px',
+    pageGutter: '20px',
+    sectionGap: '28px',
+    cardPadding: '18px',
+    cardPaddingCompact: '14px',
+  },
+  spacious: {
+    tableRowHeight: '52px',
+    tableRowHeightCompact: '44px',
+    controlHeight: '40px',
+    controlHeightSm: '34px',
+    pageGutter: '32px',
+    sectionGap: '40px',
+    cardPadding: '24px',
+    cardPaddingCompact: '18px',
+  },
+};
+
+/** Base hues of the semantic colors before harmonising */
+const SEMANTIC_HUES = { success: 142, warning: 38, danger: 0 } as const;
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Move `hue` toward `target` by `amount` (0-1) along the shortest arc
+ */
+function mixHue(hue: number, target: number, amount: number): number {
+  const delta = ((target - hue + 540) % 360) - 180;
+  return (hue + delta * amount + 360) % 360;
+}
+
+function getRadius(radius: SeedRadius | string): { surface: string; control: string } {
+  if (Object.hasOwn(RADIUS_PRESETS, radius)) return RADIUS_PRESETS[radius as SeedRadius];
+
+  const match = /^(\d*\.?\d+)([a-z%]*)$/.exec(radius.trim());
+  if (!match) return RADIUS_PRESETS.soft;
+  const value = parseFloat(match[1]);
+  const unit = match[2] || 'px';
+  return { surface: `${value}${unit}`, control: `${Math.round(value * 0.6 * 100) / 100}${unit}` };
+}
+
+function rgba(color: HSLColor, alpha: number): string {
+  const [r, g, b] = hslToRgb(color);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+// =============================================================================
+// TOKEN GENERATION
+// =============================================================================
+
+function buildTokens(accentInput: HSLColor, options: Required<Omit<ThemeSeedOptions, 'name' | 'recipes'>>): ThemeTokens {
+  const { mode, temperature, radius, density } = options;
+  const isDark = mode === 'dark';
+  const ladder = SURFACE_LADDER[mode];
+
+  const accent: HSLColor = {
+    ...accentInput,
+    l: isDark ? clamp(accentInput.l, 52, 70) : clamp(accentInput.l, 35, 55),
+  };
+
+  // Neutral ladder tinted toward the accent (or the chosen temperature)
+  const neutralHue = temperature === 'neutral'
+    ? accent.h
+    : mixHue(accent.h, TEMPERATURE_HUES[temperature], 0.75);
+  const neutralSat = isDark ? clamp(accent.s * 0.45, 8, 40) : clamp(accent.s * 0.2, 5, 20);
+  const neutral = (l: number, satScale = 1): string =>
+    formatHSL({ h: neutralHue, s: neutralSat * satScale, l });
+
+  // Semantic colors pulled slightly toward the accent hue and saturation
+  const semanticSat = clamp(accent.s, 50, 75);
+  const semantic = (hue: number, l: number) => ({
+    strong: formatHSL({ h: mixHue(hue, accent.h, 0.1), s: semanticSat, l }),
+    muted: formatHSL({ h: mixHue(hue, accent.h, 0.1), s: semanticSat * 0.7, l: MUTED_LIGHTNESS[mode] }),
+  });
+  const success = semantic(SEMANTIC_HUES.success, isDark ? 48 : 36);
+  const warning = semantic(SEMANTIC_HUES.warning, isDark ? 52 : 38);
+  const danger = semantic(SEMANTIC_HUES.danger, isDark ? 58 : 45);
+
+  const radii = getRadius(radius);
+  const shadowAlpha = isDark ? [0.4, 0.5] : [0.08, 0.12];
+
+  return {
+    bg: neutral(ladder.bg),
+    surface: neutral(ladder.surface, isDark ? 0.8 : 0),
+    surface2: neutral(ladder.surface2, 0.8),
+    surfaceInset: neutral(ladder.surfaceInset),
+    border: neutral(ladder.border, 0.8),
+    borderSubtle: neutral(ladder.borderSubtle, 0.8),
+    text: neutral(isDark ? 96 : 15, isDark ? 1 : 1.5),
+    textMuted: neutral(isDark ? 62 : 42),
+    accent: formatHSL(accent),
+    accentFg: formatHSL(pickReadableForeground(accent)),
+    accentMuted: formatHSL({ ...accent, s: accent.s * 0.6, l: MUTED_LIGHTNESS[mode] }),
+    accentSecondary: formatHSL({ ...accent, h: (accent.h + 30) % 360, s: clamp(accent.s + 10, 0, 90) }),
+    ring: formatHSL({ ...accent, l: accent.l + (isDark ? -6 : 5) }),
+    success: success.strong,
+    successMuted: success.muted,
+    warning: warning.strong,
+    warningMuted: warning.muted,
+    danger: danger.strong,
+    dangerMuted: danger.muted,
+    shadowSurface: `0 2px 8px rgba(0, 0, 0, ${shadowAlpha[0]})`,
+    shadowPopover: `0 8px 24px rgba(0, 0, 0, ${shadowAlpha[1]})`,
+    shadowGlow: `0 0 40px ${rgba(accent, isDark ? 0.12 : 0.08)}`,
+    radiusSurface: radii.surface,
+    radiusControl: radii.control,
+    // Built-in type scales are tuned for the same dark/light split; copied so
+    // edits to the seeded theme stay out of the built-ins
+    typeScale: structuredClone((isDark ? chronicleDark : opsCalm).tokens.typeScale),
+    density: { ...DENSITY_PRESETS[density] },
+  };
+}
+
+function buildRecipes(options: Required<Omit<ThemeSeedOptions, 'name' | 'recipes'>>): PartialProductRecipes {
+  const base = toContextRecipes<PartialProductRecipes, PartialMarketingRecipes>(
+    (options.mode === 'dark' ? chronicleDark : opsCalm).recipes
+  ).product ?? {};
+  const tableDensity = options.density === 'spacious' ? 'comfortable'
+    : options.density === 'compact' ? 'compact'
+    : base.DataTable?.density ?? 'comfortable';
+
+  return {
+    ...base,
+    ...(base.DataTable ? { DataTable: { ...base.DataTable, density: tableDensity } } : {}),
+    ...(base.ActivityTable ? { ActivityTable: { ...base.ActivityTable, density: tableDensity } } : {}),
+  };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Create a complete theme pack from a single brand color.
+ *
+ * The neutral ladder is tinted toward the accent, semantic colors are
+ * harmonised with it, and any text pairs that fall short of WCAG AA are
+ * nudged until they pass. Recipes start from the built-in theme of the
+ * same mode and are run through `normalizeThemePack`, so both product and
+ * marketing recipes are populated.
+ *
+ * @example
+ * ```ts
+ * const theme = createThemeFromSeed({
+ *   name: 'Harbor',
+ *   accent: '#0f766e',
+ *   mode: 'light',
+ *   temperature: 'cool',
+ *   radius: 'soft',
+ *   density: 'compact',
+ * });
+ * themeEngine.registerTheme(theme);
+ * ```
+ */
+export function createThemeFromSeed(options: ThemeSeedOptions): ThemePack {
+  const accent = parseColor(options.accent);
+  if (!accent) {
+    throw new Error(`Invalid seed accent "${options.accent}": expected an HSL triple or hex color`);
+  }
+
+  const resolved = {
+    accent: options.accent,
+    mode: options.mode ?? 'light',
+    temperature: options.temperature ?? 'neutral',
+    radius: options.radius ?? 'soft',
+    density: options.density ?? 'comfortable',
+  };
+
+  const overrides = toContextRecipes<PartialProductRecipes, PartialMarketingRecipes>(options.recipes);
+  const definition = {
+    name: options.name ?? 'Seeded Theme',
+    mode: resolved.mode,
+    tokens: buildTokens(accent, resolved),
+    recipes: {
+      product: { ...buildRecipes(resolved), ...overrides.product },
+      marketing: overrides.marketing,
+    },
+  };
+
+  return normalizeThemePack(repairThemeContrast(definition).definition);
+}
@@ -0,0 +1,299 @@
+/**
+ * Tuner Constraint Solver
+ *
+ * Reconciles requested tuners with the hard `Constraints` of a Visual MCP
+ * input (accessibility, performance, brand colors). Each constraint becomes
+ * a bound on one tuner, next to any bounds the caller adds; the solver returns
+ * the closest feasible tuners with the adjustments it made, or a
+ * `CONSTRAINT_CONFLICT` error when the bounds contradict each other or the
+ * theme's colors cannot satisfy every constraint.
+ */
+
+import type {
+  AppliedTuners,
+  TunerValues,
+  Constraints,
+  VisualMCPError,
+  A11yStandard,
+} from '../mcp/contract';
+import type { ThemePack } from '../core/types';
+import { parseColor, contrastRatio } from '../core/color';
+import { CONTRAST_THRESHOLDS } from '../core/contrast';
+import { normalizeTuners } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A bound one constraint places on one tuner
+ */
+export interface TunerBound {
+  tuner: string;
+  min?: number;
+  max?: number;
+  /** Constraint path, e.g. `accessibility.motionReduced` */
+  constraint: string;
+  reason: string;
+}
+
+/**
+ * A change the solver made to a requested tuner
+ */
+export interface TunerAdjustment {
+  tuner: string;
+  requested: number;
+  applied: number;
+  constraint: string;
+  reason: string;
+}
+
+export type TunerConstraintResult =
+  | { ok: true; tuners: AppliedTuners; adjustments: TunerAdjustment[]; warnings: string[] }
+  | { ok: false; error: VisualMCPError };
+
+/**
+ * Options for constraint resolution
+ */
+export interface TunerConstraintOptions {
+  /** Theme whose colors brand colors and contrast requirements are checked against */
+  theme?: ThemePack;
+  /** Extra bounds, e.g. a product's own motion ceiling, applied with the constraint bounds */
+  bounds?: TunerBound[];
+}
+
+// =============================================================================
+// CONSTANTS
+// =============================================================================
+
+/** Bundle budgets below this (KB) are treated as tight */
+export const TIGHT_BUNDLE_BUDGET_KB = 150;
+
+/** Highest contrast ratio WCAG can measure (white on black) */
+const MAX_CONTRAST_RATIO = 21;
+
+// =============================================================================
+// BOUNDS
+// =============================================================================
+
+function standardFor(ratio: number): A11yStandard {
+  return ratio >= CONTRAST_THRESHOLDS['WCAG-AAA'].normal ? 'WCAG-AAA' : 'WCAG-AA';
+}
+
+/**
+ * Translate constraints into tuner bounds
+ */
+export function getConstraintBounds(constraints: Constraints): TunerBound[] {
+  const bounds: TunerBound[] = [];
+  const { accessibility, performance } = constraints;
+
+  if (accessibility?.motionReduced) {
+    bounds.push({
+      tuner: 'motion',
+      max: 0.1,
+      constraint: 'accessibility.motionReduced',
+      reason: 'Reduced motion is required',
+    });
+  }
+  if (accessibility?.minContrastRatio !== undefined) {
+    const ratio = accessibility.minContrastRatio;
+    if (ratio >= CONTRAST_THRESHOLDS['WCAG-AAA'].normal) {
+      bounds.push({
+        tuner: 'contrast',
+        min: 0.8,
+        constraint: 'accessibility.minContrastRatio',
+        reason: `WCAG-AAA (${ratio}:1) needs strong borders and muted text`,
+      });
+    } else if (ratio >= CONTRAST_THRESHOLDS['WCAG-AA'].normal) {
+      bounds.push({
+        tuner: 'contrast',
+        min: 0.5,
+        constraint: 'accessibility.minContrastRatio',
+        reason: `WCAG-AA (${ratio}:1) rules out faded borders and muted text`,
+      });
+    }
+  }
+  if (accessibility?.screenReaderOptimized) {
+    bounds.push({
+      tuner: 'abstraction',
+      max: 0.5,
+      constraint: 'accessibility.screenReaderOptimized',
+      reason: 'Abstract decoration carries no meaning for assistive technology',
+    });
+  }
+
+  if (performance?.noHeavyAnimations) {
+    bounds.push({
+      tuner: 'motion',
+      max: 0.3,
+      constraint: 'performance.noHeavyAnimations',
+      reason: 'Path drawing, card expansion and hover glow are disabled',
+    });
+    bounds.push({
+      tuner: 'abstraction',
+      max: 0.5,
+      constraint: 'performance.noHeavyAnimations',
+      reason: 'Fewer blurred background layers',
+    });
+  }
+  if (performance?.maxBundleSizeKb !== undefined && performance.maxBundleSizeKb < TIGHT_BUNDLE_BUDGET_KB) {
+    bounds.push({
+      tuner: 'motion',
+      max: 0.3,
+      constraint: 'performance.maxBundleSizeKb',
+      reason: `A ${performance.maxBundleSizeKb}KB budget leaves no room for animation code`,
+    });
+    bounds.push({
+      tuner: 'abstraction',
+      max: 0.4,
+      constraint: 'performance.maxBundleSizeKb',
+      reason: `A ${performance.maxBundleSizeKb}KB budget favors simple signal graphics`,
+    });
+  }
+
+  return bounds;
+}
+
+// =============================================================================
+// ERRORS
+// =============================================================================
+
+function conflict(message: string, details: string, suggestions: string[]): TunerConstraintResult {
+  return {
+    ok: false,
+    error: { code: 'CONSTRAINT_CONFLICT', message, details, recoverable: true, suggestions },
+  };
+}
+
+/**
+ * Check the theme's text and brand colors against the required ratio
+ */
+function checkColors(
+  constraints: Constraints,
+  theme: ThemePack,
+  warnings: string[]
+): TunerConstraintResult | null {
+  const background = parseColor(theme.tokens.bg);
+  if (!background) return null;
+
+  const required = constraints.accessibility?.minContrastRatio ?? CONTRAST_THRESHOLDS['WCAG-AA'].normal;
+  const standard = standardFor(required);
+
+  const text = parseColor(theme.tokens.text);
+  if (text) {
+    const ratio = contrastRatio(text, background);
+    if (ratio < required) {
+      return conflict(
+        `Theme "${theme.name}" text contrast is ${ratio.toFixed(2)}:1, below the required ${required}:1`,
+        'The contrast tuner adjusts borders and muted text, not the base text color.',
+        ['Use repairThemeContrast() or choose a theme that meets the requirement', 'Lower minContrastRatio']
+      );
+    }
+  }
+
+  for (const [name, value] of Object.entries(constraints.brandColors ?? {})) {
+    const color = value ? parseColor(value) : null;
+    if (!color) continue;
+
+    const ratio = contrastRatio(color, background);
+    if (ratio < CONTRAST_THRESHOLDS[standard].large) {
+      return conflict(
+        `Brand color "${name}" (${value}) has ${ratio.toFixed(2)}:1 contrast on "${theme.name}", below ${standard} even for large text`,
+        `Brand colors must be used as given, and ${standard} needs ${CONTRAST_THRESHOLDS[standard].large}:1 for large text on the background.`,
+        [
+          `Use "${name}" for non-text decoration only`,
+          'Pick a theme with a background that suits the brand color',
+          'Provide a darker or lighter shade of the brand color',
+        ]
+      );
+    }
+    if (ratio < CONTRAST_THRESHOLDS[standard].normal) {
+      warnings.push(`Brand color "${name}" (${ratio.toFixed(2)}:1) meets ${standard} for large text only`);
+    }
+  }
+
+  return null;
+}
+
+// =============================================================================
+// SOLVER
+// =============================================================================
+
+/**
+ * Resolve requested tuners against hard constraints.
+ *
+ * @example
+ * ```ts
+ * const result = resolveTunerConstraints(input.tuners ?? {}, input.constraints ?? {}, { theme });
+ * if (!result.ok) return result.error; // CONSTRAINT_CONFLICT
+ * result.adjustments;
+ * // [{ tuner: 'motion', requested: 0.9, applied: 0.1, constraint: 'accessibility.motionReduced', ... }]
+ *
+ * // WCAG-AAA needs contrast >= 0.8, so a softer house style conflicts
+ * resolveTunerConstraints({}, { accessibility: { minContrastRatio: 7 } }, {
+ *   bounds: [{ tuner: 'contrast', max: 0.6, constraint: 'brand.softContrast', reason: 'House style' }],
+ * }); // { ok: false, error: { code: 'CONSTRAINT_CONFLICT', ... } }
+ * ```
+ */
+export function resolveTunerConstraints(
+  requested: Partial<TunerValues>,
+  constraints: Constraints = {},
+  options: TunerConstraintOptions = {}
+): TunerConstraintResult {
+  const ratio = constraints.accessibility?.minContrastRatio;
+  if (ratio !== undefined && ratio > MAX_CONTRAST_RATIO) {
+    return conflict(
+      `minContrastRatio ${ratio}:1 is above the maximum possible ${MAX_CONTRAST_RATIO}:1`,
+      'No pair of colors can meet this ratio.',
+      [`Use ${CONTRAST_THRESHOLDS['WCAG-AAA'].normal} for WCAG-AAA`]
+    );
+  }
+
+  const warnings: string[] = [];
+  if (options.theme) {
+    const colorConflict = checkColors(constraints, options.theme, warnings);
+    if (colorConflict) return colorConflict;
+  }
+
+  const tuners = normalizeTuners(requested);
+  const bounds = [...getConstraintBounds(constraints), ...(options.bounds ?? [])];
+  const adjustments: TunerAdjustment[] = [];
+
+  for (const tuner of new Set(bounds.map(bound => bound.tuner))) {
+    const applicable = bounds.filter(bound => bound.tuner === tuner);
+    const floor = applicable.reduce((max, bound) => Math.max(max, bound.min ?? -Infinity), -Infinity);
+    const ceiling = applicable.reduce((min, bound) => Math.min(min, bound.max ?? Infinity), Infinity);
+
+    if (floor > ceiling) {
+      const describe = (bound: TunerBound) => {
+        const limits = [bound.min !== undefined ? `>= ${bound.min}` : '', bound.max !== undefined ? `<= ${bound.max}` : ''];
+        return `${bound.constraint} (${limits.filter(Boolean).join(', ')})`;
+      };
+      return conflict(
+        `Constraints on "${tuner}" cannot all be met`,
+        applicable.map(describe).join(', '),
+        ['Relax one of the conflicting constraints']
+      );
+    }
+
+    // Caller bounds may name a dimension that is not registered
+    const value = tuners[tuner];
+    if (value === undefined) continue;
+    const applied = Math.max(floor, Math.min(ceiling, value));
+    if (applied === value) continue;
+
+    // Report the bound that moved the value
+    const binding = applicable.find(bound => (applied < value ? bound.max === applied : bound.min === applied))
+      ?? applicable[0];
+    tuners[tuner] = applied;
+    adjustments.push({
+      tuner,
+      requested: value,
+      applied,
+      constraint: binding.constraint,
+      reason: binding.reason,
+    });
+  }
+
+  return { ok: true, tuners, adjustments, warnings };
+}
@@ -0,0 +1,223 @@
+/**
+ * Tuner Dimensions
+ *
+ * Registry of tuner axes. Each dimension declares its bounds, default,
+ * CSS variable mappings, recipe mappings and a human description; the
+ * tuner functions (normalize, CSS, URL, description) work over every
+ * registered dimension, so teams can add axes like `warmth` or `roundness`.
+ */
+
+import type { PageContext } from '../core/types';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Maps a dimension value to a CSS variable
+ */
+export interface TunerCSSMapping {
+  /** CSS variable name, e.g. `--tuner-warmth-hue` */
+  variable: string;
+  /** Convert the tuner value to the CSS value */
+  value: (value: number) => string;
+}
+
+/**
+ * Maps a dimension value to a recipe field
+ */
+export interface TunerRecipeMapping {
+  /** Context whose recipes are changed (default: both) */
+  context?: PageContext;
+  /** Dot path into the context recipes, e.g. `Surface.default.borderOpacity` */
+  path: string;
+  /** Convert the tuner value to the recipe value */
+  value: (value: number) => unknown;
+}
+
+/**
+ * A tuner axis
+ */
+export interface TunerDimension {
+  /** Key used in tuner objects and URL params */
+  key: string;
+  /** Display name */
+  name: string;
+  /** What the dimension controls */
+  description: string;
+  /** Word for the low end, used in tuner descriptions (e.g. "cool") */
+  low?: string;
+  /** Word for the high end, used in tuner descriptions (e.g. "warm") */
+  high?: string;
+  /** Lower bound (default: 0) */
+  min?: number;
+  /** Upper bound (default: 1) */
+  max?: number;
+  /** Neutral value */
+  default: number;
+  /** CSS variables derived from the value */
+  css?: TunerCSSMapping[];
+  /** Recipe fields derived from the value */
+  recipes?: TunerRecipeMapping[];
+}
+
+// =============================================================================
+// BUILT-IN DIMENSIONS
+// =============================================================================
+
+/**
+ * The five built-in axes. Their recipe effects are applied by
+ * `generateRecipeOverrides`; CSS effects are declared here.
+ */
+export const BUILT_IN_TUNER_DIMENSIONS: TunerDimension[] = [
+  {
+    key: 'abstraction',
+    name: 'Abstraction',
+    description: 'Motif intensity, signal complexity, background layers',
+    low: 'concrete',
+    high: 'highly abstract',
+    default: 0.5,
+    css: [
+      { variable: '--tuner-motif-opacity', value: v => (0.02 + v * 0.18).toFixed(2) }, // 0.02 to 0.2
+      { variable: '--tuner-motif-blur', value: v => `${Math.round(v * 8)}px` }, // 0 to 8px
+    ],
+  },
+  {
+    key: 'density',
+    name: 'Density',
+    description: 'Gaps, maxWidth, table density, surface padding',
+    low: 'spacious',
+    high: 'dense',
+    default: 0.5,
+    css: [
+      { variable: '--tuner-spacing-scale', value: v => (0.6 + v * 0.8).toFixed(2) }, // 0.6 to 1.4
+      { variable: '--tuner-gap-base', value: v => `${Math.round(24 * (1.5 - v))}px` }, // 12-36px
+      { variable: '--tuner-padding-surface', value: v => `${Math.round(16 * (1.5 - v * 0.5))}px` }, // 12-24px
+      { variable: '--tuner-max-content-width', value: v => (v > 0.6 ? '1400px' : v < 0.4 ? '1000px' : '1200px') },
+    ],
+  },
+  {
+    key: 'motion',
+    name: 'Motion',
+    description: 'Path draw, card expansion, hover glow',
+    low: 'static',
+    high: 'animated',
+    default: 0.5,
+    css: [
+      { variable: '--tuner-transition-fast', value: v => `${Math.round((150 + v * 350) * 0.5)}ms` },
+      { variable: '--tuner-transition-base', value: v => `${Math.round(150 + v * 350)}ms` }, // 150-500ms
+      { variable: '--tuner-transition-slow', value: v => `${Math.round((150 + v * 350) * 2)}ms` },
+    ],
+  },
+  {
+    key: 'contrast',
+    name: 'Contrast',
+    description: 'Border opacity, text muted levels',
+    low: 'low-contrast',
+    high: 'high-contrast',
+    default: 0.5,
+    css: [
+      { variable: '--tuner-border-opacity', value: v => (0.05 + v * 0.15).toFixed(2) }, // 0.05 to 0.2
+      { variable: '--tuner-text-muted-opacity', value: v => (0.4 + v * 0.3).toFixed(2) }, // 0.4 to 0.7
+    ],
+  },
+  {
+    key: 'narrative',
+    name: 'Narrative',
+    description: 'Section spacing, hero height, ribbon prominence',
+    low: 'compact',
+    high: 'narrative-focused',
+    default: 0.5,
+    css: [
+      { variable: '--tuner-section-gap', value: v => `${Math.round(80 + v * 80)}px` }, // 80-160px
+      { variable: '--tuner-hero-min-height', value: v => `${Math.round(70 + v * 30)}vh` }, // 70-100vh
+    ],
+  },
+];
+
+/** Keys that cannot be used for dimensions (URL params with other meanings) */
+const RESERVED_KEYS = ['preset', 'theme', 'context', 'taste'];
+
+const dimensions: Map<string, TunerDimension> = new Map(
+  BUILT_IN_TUNER_DIMENSIONS.map(dimension => [dimension.key, dimension])
+);
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/**
+ * Register (or replace) a tuner dimension
+ *
+ * @throws {Error} if the key is not a camelCase identifier, is reserved, or
+ * the bounds/default are inconsistent
+ *
+ * @example
+ * ```ts
+ * registerTunerDimension({
+ *   key: 'warmth',
+ *   name: 'Warmth',
+ *   description: 'Shifts neutrals and glows from cool to warm',
+ *   low: 'cool',
+ *   high: 'warm',
+ *   default: 0.5,
+ *   css: [{ variable: '--tuner-warmth-hue', value: v => `${Math.round(220 - v * 190)}` }],
+ *   recipes: [{ context: 'marketing', path: 'AppShell.glowOpacity', value: v => (0.1 + v * 0.2).toFixed(2) }],
+ * });
+ * ```
+ */
+export function registerTunerDimension(dimension: TunerDimension): void {
+  const { key, min = 0, max = 1 } = dimension;
+
+  if (!/^[a-z][a-zA-Z0-9]*$/.test(key)) {
+    throw new Error(`Invalid tuner dimension key "${key}": expected a camelCase identifier`);
+  }
+  if (RESERVED_KEYS.includes(key)) {
+    throw new Error(`Tuner dimension key "${key}" is reserved`);
+  }
+  if (!(min < max) || dimension.default < min || dimension.default > max) {
+    throw new Error(`Tuner dimension "${key}" needs min < max and a default within [${min}, ${max}]`);
+  }
+
+  dimensions.set(key, dimension);
+}
+
+/**
+ * Remove a registered dimension. Built-in dimensions feed the recipe
+ * overrides, so they stay registered (re-register one to replace it).
+ *
+ * @returns false if the key is a built-in or not registered
+ */
+export function unregisterTunerDimension(key: string): boolean {
+  if (BUILT_IN_TUNER_DIMENSIONS.some(dimension => dimension.key === key)) return false;
+  return dimensions.delete(key);
+}
+
+/**
+ * Get a dimension by key
+ */
+export function getTunerDimension(key: string): TunerDimension | null {
+  return dimensions.get(key) ?? null;
+}
+
+/**
+ * List every registered dimension, built-ins first
+ */
+export function listTunerDimensions(): TunerDimension[] {
+  return Array.from(dimensions.values());
+}
+
+/**
+ * Get the bounds of a dimension
+ */
+export function getTunerBounds(dimension: TunerDimension): { min: number; max: number } {
+  return { min: dimension.min ?? 0, max: dimension.max ?? 1 };
+}
+
+/**
+ * Position of a value within a dimension's bounds (0-1)
+ */
+export function getTunerPosition(dimension: TunerDimension, value: number): number {
+  const { min, max } = getTunerBounds(dimension);
+  return (value - min) / (max - min);
+}
@@ -0,0 +1,91 @@
+/**
+ * Tuner History
+ *
+ * Bounded undo/redo history and named snapshots of tuner positions, so
+ * good configurations are not lost as soon as a slider moves.
+ */
+
+import type { AppliedTuners } from '../mcp/contract';
+import type { TunerShareState } from './share';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Undo/redo stacks around the current tuners
+ */
+export interface TunerHistory {
+  past: AppliedTuners[];
+  present: AppliedTuners;
+  future: AppliedTuners[];
+}
+
+/**
+ * A named, restorable tuner configuration
+ */
+export interface TunerSnapshot extends TunerShareState {
+  name: string;
+  /** Creation time (ms since epoch) */
+  createdAt: number;
+}
+
+/** Entries kept in the undo stack by default */
+export const DEFAULT_TUNER_HISTORY_LIMIT = 50;
+
+// =============================================================================
+// HISTORY
+// =============================================================================
+
+function sameTuners(a: AppliedTuners, b: AppliedTuners): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => a[key] === b[key]);
+}
+
+/**
+ * Start a history at the given tuners
+ */
+export function createTunerHistory(present: AppliedTuners): TunerHistory {
+  return { past: [], present, future: [] };
+}
+
+/**
+ * Record new tuners. Clears the redo stack and drops the oldest entries
+ * beyond `limit`; unchanged tuners are not recorded.
+ */
+export function pushTunerHistory(
+  history: TunerHistory,
+  tuners: AppliedTuners,
+  limit: number = DEFAULT_TUNER_HISTORY_LIMIT
+): TunerHistory {
+  if (sameTuners(history.present, tuners)) return history;
+  return {
+    past: [...history.past, history.present].slice(-Math.max(0, limit)),
+    present: tuners,
+    future: [],
+  };
+}
+
+/**
+ * Step back to the previous tuners (no-op at the start of the history)
+ */
+export function undoTunerHistory(history: TunerHistory): TunerHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+/**
+ * Step forward to the next tuners (no-op at the end of the history)
+ */
+export function redoTunerHistory(history: TunerHistory): TunerHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
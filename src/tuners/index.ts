@@ -15,6 +15,10 @@
  */
 
 import type { TunerValues, AppliedTuners } from '../mcp/contract';
+import { toThemeKey } from '../core/css';
+import { getTunerPreset } from './presets';
+import { parseTunerShareFromURL } from './share';
+import { listTunerDimensions, getTunerBounds, getTunerPosition } from './dimensions';
 
 // =============================================================================
 // TYPES
@@ -59,14 +63,8 @@ export interface TunerRecipeOverrides {
   /** Hover glow enabled */
   hoverGlowEnabled?: boolean;
 
-  /** Surface padding scale */
-  surfacePaddingScale?: number;
-
   /** Table density */
   tableDensity?: 'compact' | 'normal' | 'spacious';
-
-  /** Max content width */
-  maxContentWidth?: string;
 }
 
 /**
@@ -91,7 +89,8 @@ export interface TunerOutput {
 // =============================================================================
 
 /**
- * Default tuner values (neutral position)
+ * Default tuner values (neutral position) of the built-in dimensions.
+ * `normalizeTuners({})` also includes registered custom dimensions.
  */
 export const DEFAULT_TUNERS: AppliedTuners = {
   abstraction: 0.5,
@@ -102,7 +101,7 @@ export const DEFAULT_TUNERS: AppliedTuners = {
 };
 
 /**
- * Tuner value bounds
+ * Tuner value bounds of the built-in dimensions
  */
 export const TUNER_BOUNDS = {
   min: 0,
@@ -115,19 +114,21 @@ export const TUNER_BOUNDS = {
 // =============================================================================
 
 /**
- * Normalize tuner values (clamp to 0-1)
+ * Normalize tuner values: clamp every registered dimension to its bounds
+ * and fill in defaults. Unknown keys are dropped.
  */
 export function normalizeTuners(input: Partial<TunerValues>): AppliedTuners {
-  const clamp = (v: number | undefined, def: number) =>
-    v !== undefined ? Math.max(0, Math.min(1, v)) : def;
+  const result: Record<string, number> = {};
+
+  for (const dimension of listTunerDimensions()) {
+    const { min, max } = getTunerBounds(dimension);
+    const value = input[dimension.key];
+    result[dimension.key] = typeof value === 'number' && !isNaN(value)
+      ? Math.max(min, Math.min(max, value))
+      : dimension.default;
+  }
 
-  return {
-    abstraction: clamp(input.abstraction, DEFAULT_TUNERS.abstraction),
-    density: clamp(input.density, DEFAULT_TUNERS.density),
-    motion: clamp(input.motion, DEFAULT_TUNERS.motion),
-    contrast: clamp(input.contrast, DEFAULT_TUNERS.contrast),
-    narrative: clamp(input.narrative, DEFAULT_TUNERS.narrative),
-  };
+  return result as AppliedTuners;
 }
 
 /**
@@ -136,35 +137,12 @@ export function normalizeTuners(input: Partial<TunerValues>): AppliedTuners {
 export function generateCSSOverrides(tuners: AppliedTuners): TunerCSSOverrides {
   const overrides: TunerCSSOverrides = {};
 
-  // Density -> spacing and padding
-  const densityScale = 0.6 + tuners.density * 0.8; // 0.6 to 1.4
-  overrides['--tuner-spacing-scale'] = densityScale.toFixed(2);
-  overrides['--tuner-gap-base'] = `${Math.round(24 * (1.5 - tuners.density))}px`; // 12-36px
-  overrides['--tuner-padding-surface'] = `${Math.round(16 * (1.5 - tuners.density * 0.5))}px`; // 12-24px
-
-  // Contrast -> border and text opacity
-  const borderOpacity = 0.05 + tuners.contrast * 0.15; // 0.05 to 0.2
-  const textMutedOpacity = 0.4 + tuners.contrast * 0.3; // 0.4 to 0.7
-  overrides['--tuner-border-opacity'] = borderOpacity.toFixed(2);
-  overrides['--tuner-text-muted-opacity'] = textMutedOpacity.toFixed(2);
-
-  // Narrative -> section spacing and heights
-  const sectionGap = 80 + tuners.narrative * 80; // 80-160px
-  const heroHeight = 70 + tuners.narrative * 30; // 70-100vh
-  overrides['--tuner-section-gap'] = `${Math.round(sectionGap)}px`;
-  overrides['--tuner-hero-min-height'] = `${Math.round(heroHeight)}vh`;
-
-  // Abstraction -> motif opacity and blur
-  const motifOpacity = 0.02 + tuners.abstraction * 0.18; // 0.02 to 0.2
-  const motifBlur = Math.round(tuners.abstraction * 8); // 0 to 8px
-  overrides['--tuner-motif-opacity'] = motifOpacity.toFixed(2);
-  overrides['--tuner-motif-blur'] = `${motifBlur}px`;
-
-  // Motion -> transition durations and animation
-  const transitionBase = 150 + tuners.motion * 350; // 150-500ms
-  overrides['--tuner-transition-fast'] = `${Math.round(transitionBase * 0.5)}ms`;
-  overrides['--tuner-transition-base'] = `${Math.round(transitionBase)}ms`;
-  overrides['--tuner-transition-slow'] = `${Math.round(transitionBase * 2)}ms`;
+  for (const dimension of listTunerDimensions()) {
+    const value = tuners[dimension.key] ?? dimension.default;
+    for (const mapping of dimension.css ?? []) {
+      overrides[mapping.variable] = mapping.value(value);
+    }
+  }
 
   return overrides;
 }
@@ -182,11 +160,8 @@ export function generateRecipeOverrides(tuners: AppliedTuners): TunerRecipeOverr
   overrides.backgroundLayers = Math.round(1 + tuners.abstraction * 3); // 1-4 layers
 
   // Density
-  overrides.surfacePaddingScale = 0.6 + (1 - tuners.density) * 0.8; // Inverse: low density = more padding
   overrides.tableDensity = tuners.density < 0.3 ? 'spacious' :
                            tuners.density > 0.7 ? 'compact' : 'normal';
-  overrides.maxContentWidth = tuners.density > 0.6 ? '1400px' :
-                              tuners.density < 0.4 ? '1000px' : '1200px';
 
   // Motion
   overrides.pathDrawEnabled = tuners.motion > 0.3;
@@ -208,25 +183,14 @@ export function generateRecipeOverrides(tuners: AppliedTuners): TunerRecipeOverr
 export function generateTunerDescription(tuners: AppliedTuners): string {
   const parts: string[] = [];
 
-  // Abstraction
-  if (tuners.abstraction > 0.7) parts.push('highly abstract');
-  else if (tuners.abstraction < 0.3) parts.push('concrete');
-
-  // Density
-  if (tuners.density > 0.7) parts.push('dense');
-  else if (tuners.density < 0.3) parts.push('spacious');
-
-  // Motion
-  if (tuners.motion > 0.7) parts.push('animated');
-  else if (tuners.motion < 0.3) parts.push('static');
-
-  // Contrast
-  if (tuners.contrast > 0.7) parts.push('high-contrast');
-  else if (tuners.contrast < 0.3) parts.push('low-contrast');
+  for (const dimension of listTunerDimensions()) {
+    const value = tuners[dimension.key];
+    if (value === undefined) continue;
 
-  // Narrative
-  if (tuners.narrative > 0.7) parts.push('narrative-focused');
-  else if (tuners.narrative < 0.3) parts.push('compact');
+    const position = getTunerPosition(dimension, value);
+    if (position > 0.7 && dimension.high) parts.push(dimension.high);
+    else if (position < 0.3 && dimension.low) parts.push(dimension.low);
+  }
 
   if (parts.length === 0) return 'balanced';
   return parts.join(', ');
@@ -254,45 +218,52 @@ export function applyTuners(input: Partial<TunerValues>): TunerOutput {
 // =============================================================================
 
 /**
- * Parse tuner values from URL search params
+ * Parse tuner values from URL search params.
+ * A share token (`taste`) or `preset` param supplies the base values;
+ * per-tuner params override it.
  */
 export function parseTunersFromURL(searchParams: URLSearchParams): Partial<TunerValues> {
-  const result: Partial<TunerValues> = {};
-
-  const parseFloat01 = (key: string): number | undefined => {
-    const value = searchParams.get(key);
-    if (value === null) return undefined;
+  const presetName = searchParams.get('preset');
+  const preset = presetName ? getTunerPreset(presetName) : null;
+  const shared = parseTunerShareFromURL(searchParams);
+  const result: Partial<TunerValues> = { ...shared?.tuners, ...preset?.tuners };
+
+  for (const dimension of listTunerDimensions()) {
+    const value = searchParams.get(dimension.key);
+    if (value === null) continue;
     const num = parseFloat(value);
-    if (isNaN(num)) return undefined;
-    return Math.max(0, Math.min(1, num));
-  };
-
-  const abstraction = parseFloat01('abstraction');
-  const density = parseFloat01('density');
-  const motion = parseFloat01('motion');
-  const contrast = parseFloat01('contrast');
-  const narrative = parseFloat01('narrative');
-
-  if (abstraction !== undefined) result.abstraction = abstraction;
-  if (density !== undefined) result.density = density;
-  if (motion !== undefined) result.motion = motion;
-  if (contrast !== undefined) result.contrast = contrast;
-  if (narrative !== undefined) result.narrative = narrative;
+    if (isNaN(num)) continue;
+    const { min, max } = getTunerBounds(dimension);
+    result[dimension.key] = Math.max(min, Math.min(max, num));
+  }
 
   return result;
 }
 
 /**
- * Serialize tuner values to URL search params
+ * Serialize tuner values to URL search params.
+ * With a `preset`, the preset name is written and only values that differ
+ * from it are added.
+ *
+ * @throws {Error} if `options.preset` is not a registered preset
  */
-export function tunersToURLParams(tuners: Partial<TunerValues>): URLSearchParams {
+export function tunersToURLParams(
+  tuners: Partial<TunerValues>,
+  options: { preset?: string } = {}
+): URLSearchParams {
   const params = new URLSearchParams();
+  const preset = options.preset ? getTunerPreset(options.preset) : null;
+  if (options.preset && !preset) {
+    throw new Error(`Unknown tuner preset "${options.preset}"`);
+  }
+  if (preset) params.set('preset', toThemeKey(preset.name));
 
-  if (tuners.abstraction !== undefined) params.set('abstraction', tuners.abstraction.toFixed(1));
-  if (tuners.density !== undefined) params.set('density', tuners.density.toFixed(1));
-  if (tuners.motion !== undefined) params.set('motion', tuners.motion.toFixed(1));
-  if (tuners.contrast !== undefined) params.set('contrast', tuners.contrast.toFixed(1));
-  if (tuners.narrative !== undefined) params.set('narrative', tuners.narrative.toFixed(1));
+  for (const { key } of listTunerDimensions()) {
+    const value = tuners[key];
+    if (value === undefined) continue;
+    if (preset && preset.tuners[key]?.toFixed(1) === value.toFixed(1)) continue;
+    params.set(key, value.toFixed(1));
+  }
 
   return params;
 }
@@ -301,15 +272,30 @@ export function tunersToURLParams(tuners: Partial<TunerValues>): URLSearchParams
 // DOM INTEGRATION
 // =============================================================================
 
+/**
+ * Apply CSS variable overrides to an element
+ */
+export function applyCSSOverridesToElement(element: HTMLElement, overrides: TunerCSSOverrides): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    element.style.setProperty(key, value);
+  }
+}
+
+/**
+ * Remove CSS variable overrides from an element
+ */
+export function removeCSSOverridesFromElement(element: HTMLElement, overrides: TunerCSSOverrides): void {
+  for (const key of Object.keys(overrides)) {
+    element.style.removeProperty(key);
+  }
+}
+
 /**
  * Apply CSS variable overrides to document
  */
 export function applyCSSOverridesToDocument(overrides: TunerCSSOverrides): void {
   if (typeof document === 'undefined') return;
-  const root = document.documentElement;
-  for (const [key, value] of Object.entries(overrides)) {
-    root.style.setProperty(key, value);
-  }
+  applyCSSOverridesToElement(document.documentElement, overrides);
 }
 
 /**
@@ -317,12 +303,124 @@ export function applyCSSOverridesToDocument(overrides: TunerCSSOverrides): void
  */
 export function removeCSSOverridesFromDocument(overrides: TunerCSSOverrides): void {
   if (typeof document === 'undefined') return;
-  const root = document.documentElement;
-  for (const key of Object.keys(overrides)) {
-    root.style.removeProperty(key);
-  }
+  removeCSSOverridesFromElement(document.documentElement, overrides);
 }
 
+// =============================================================================
+// TUNED RECIPES
+// =============================================================================
+
+export { resolveTunedRecipes, tuneProductRecipes, tuneMarketingRecipes } from './recipes';
+
+// =============================================================================
+// PRESETS
+// =============================================================================
+
+export {
+  BUILT_IN_TUNER_PRESETS,
+  registerTunerPreset,
+  getTunerPreset,
+  listTunerPresets,
+  findTunerPreset,
+  interpolateTuners,
+  blendTuners,
+} from './presets';
+export type { TunerPreset, WeightedTuners } from './presets';
+
+// =============================================================================
+// USER PREFERENCES
+// =============================================================================
+
+export {
+  PREFERENCE_MEDIA_QUERIES,
+  DEFAULT_USER_PREFERENCES,
+  detectUserPreferences,
+  watchUserPreferences,
+  applyUserPreferences,
+  resolvePreferredTheme,
+  generatePreferenceCSS,
+} from './preferences';
+
+// =============================================================================
+// SCOPES
+// =============================================================================
+
+export {
+  TUNER_SCOPE_ATTRIBUTE,
+  inheritTuners,
+  matchTunerRoute,
+  resolveRouteTuners,
+  getElementTuners,
+  applyTunerScope,
+  removeTunerScope,
+  getTunerScope,
+} from './scopes';
+export type { TunerRoute, TunerScopeState } from './scopes';
+
+// =============================================================================
+// CONSTRAINTS
+// =============================================================================
+
+export { TIGHT_BUNDLE_BUDGET_KB, getConstraintBounds, resolveTunerConstraints } from './constraints';
+export type { TunerBound, TunerAdjustment, TunerConstraintResult, TunerConstraintOptions } from './constraints';
+
+// =============================================================================
+// SENSITIVITY
+// =============================================================================
+
+export { sweepTuner, exploreTunerSensitivity, getTunerImpact, formatTunerImpactReport } from './sensitivity';
+export type {
+  TunerField,
+  TunerFieldSweep,
+  TunerSensitivity,
+  TunerFieldChange,
+  TunerImpactReport,
+  TunerSensitivityOptions,
+} from './sensitivity';
+
+// =============================================================================
+// SHARING & HISTORY
+// =============================================================================
+
+export {
+  TUNER_SHARE_PARAM,
+  encodeTunerShareToken,
+  decodeTunerShareToken,
+  parseTunerShareFromURL,
+  tunerShareToURLParams,
+} from './share';
+export type { TunerShareState } from './share';
+
+export {
+  DEFAULT_TUNER_HISTORY_LIMIT,
+  createTunerHistory,
+  pushTunerHistory,
+  undoTunerHistory,
+  redoTunerHistory,
+} from './history';
+export type { TunerHistory, TunerSnapshot } from './history';
+
+// =============================================================================
+// DIMENSIONS
+// =============================================================================
+
+export {
+  BUILT_IN_TUNER_DIMENSIONS,
+  registerTunerDimension,
+  unregisterTunerDimension,
+  getTunerDimension,
+  listTunerDimensions,
+  getTunerBounds,
+  getTunerPosition,
+} from './dimensions';
+export type { TunerDimension, TunerCSSMapping, TunerRecipeMapping } from './dimensions';
+export type {
+  ContrastPreference,
+  UserPreferences,
+  PreferenceAdjustmentOptions,
+  PreferenceCSSOptions,
+} from './preferences';
+
 // =============================================================================
 // EXPORTS
 // =============================================================================
@@ -0,0 +1,243 @@
+/**
+ * User Preferences
+ *
+ * Adjusts tuners to the OS-level `prefers-reduced-motion`,
+ * `prefers-contrast` and `prefers-color-scheme` settings, at runtime via
+ * `matchMedia` and statically as `@media` blocks in generated CSS.
+ */
+
+import type { AppliedTuners, TunerValues } from '../mcp/contract';
+import type { ThemePack, ThemeMode, PageContext } from '../core/types';
+import type { ThemeEngine } from '../core/engine';
+import { generateThemeCSS } from '../core/css';
+import { normalizeTuners, generateCSSOverrides } from './index';
+import type { TunerCSSOverrides } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ContrastPreference = 'no-preference' | 'more' | 'less';
+
+/**
+ * Accessibility and appearance preferences reported by the user agent
+ */
+export interface UserPreferences {
+  reducedMotion: boolean;
+  contrast: ContrastPreference;
+  /** Preferred color scheme, or null when the user agent has none */
+  colorScheme: ThemeMode | null;
+}
+
+/**
+ * How strongly preferences adjust tuners
+ */
+export interface PreferenceAdjustmentOptions {
+  /** Highest motion value under reduced motion (default: 0.1) */
+  reducedMotionCeiling?: number;
+  /** Lowest contrast value under `prefers-contrast: more` (default: 0.8) */
+  moreContrastFloor?: number;
+  /** Highest contrast value under `prefers-contrast: less` (default: 0.4) */
+  lessContrastCeiling?: number;
+}
+
+/**
+ * Options for preference CSS
+ */
+export interface PreferenceCSSOptions extends PreferenceAdjustmentOptions {
+  /** Selector the tuner variables are scoped to (default: `:root`) */
+  selector?: string;
+  /** Dark and light family members to switch between with `prefers-color-scheme` */
+  colorSchemes?: { dark: ThemePack; light: ThemePack; context?: PageContext };
+  /** Remove whitespace */
+  minify?: boolean;
+}
+
+// =============================================================================
+// MEDIA QUERIES
+// =============================================================================
+
+export const PREFERENCE_MEDIA_QUERIES = {
+  reducedMotion: '(prefers-reduced-motion: reduce)',
+  moreContrast: '(prefers-contrast: more)',
+  lessContrast: '(prefers-contrast: less)',
+  dark: '(prefers-color-scheme: dark)',
+  light: '(prefers-color-scheme: light)',
+} as const;
+
+/**
+ * Preferences used when `matchMedia` is unavailable (SSR)
+ */
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  reducedMotion: false,
+  contrast: 'no-preference',
+  colorScheme: null,
+};
+
+function canMatchMedia(): boolean {
+  return typeof window !== 'undefined' && typeof window.matchMedia === 'function';
+}
+
+/**
+ * Read the current user preferences
+ */
+export function detectUserPreferences(): UserPreferences {
+  if (!canMatchMedia()) return { ...DEFAULT_USER_PREFERENCES };
+
+  const matches = (query: string) => window.matchMedia(query).matches;
+
+  return {
+    reducedMotion: matches(PREFERENCE_MEDIA_QUERIES.reducedMotion),
+    contrast: matches(PREFERENCE_MEDIA_QUERIES.moreContrast) ? 'more'
+      : matches(PREFERENCE_MEDIA_QUERIES.lessContrast) ? 'less'
+      : 'no-preference',
+    colorScheme: matches(PREFERENCE_MEDIA_QUERIES.dark) ? 'dark'
+      : matches(PREFERENCE_MEDIA_QUERIES.light) ? 'light'
+      : null,
+  };
+}
+
+/**
+ * Call `callback` with fresh preferences whenever an OS setting changes
+ *
+ * @returns Unsubscribe function
+ */
+export function watchUserPreferences(callback: (preferences: UserPreferences) => void): () => void {
+  if (!canMatchMedia()) return () => {};
+
+  const lists = Object.values(PREFERENCE_MEDIA_QUERIES).map(query => window.matchMedia(query));
+  const onChange = () => callback(detectUserPreferences());
+
+  lists.forEach(list => list.addEventListener('change', onChange));
+  return () => lists.forEach(list => list.removeEventListener('change', onChange));
+}
+
+// =============================================================================
+// TUNER ADJUSTMENT
+// =============================================================================
+
+/**
+ * Clamp tuners to the user's preferences: reduced motion caps `motion`,
+ * `prefers-contrast` raises or lowers `contrast`.
+ *
+ * @example
+ * ```ts
+ * const tuners = applyUserPreferences({ motion: 0.9 }, detectUserPreferences());
+ * // { ..., motion: 0.1 } when reduced motion is requested
+ * ```
+ */
+export function applyUserPreferences(
+  input: Partial<TunerValues>,
+  preferences: Partial<UserPreferences>,
+  options: PreferenceAdjustmentOptions = {}
+): AppliedTuners {
+  const {
+    reducedMotionCeiling = 0.1,
+    moreContrastFloor = 0.8,
+    lessContrastCeiling = 0.4,
+  } = options;
+  const tuners = normalizeTuners(input);
+
+  if (preferences.reducedMotion) {
+    tuners.motion = Math.min(tuners.motion, reducedMotionCeiling);
+  }
+  if (preferences.contrast === 'more') {
+    tuners.contrast = Math.max(tuners.contrast, moreContrastFloor);
+  } else if (preferences.contrast === 'less') {
+    tuners.contrast = Math.min(tuners.contrast, lessContrastCeiling);
+  }
+
+  return tuners;
+}
+
+/**
+ * Pick the registered family member matching the preferred color scheme.
+ * Returns the theme unchanged without a preference or counterpart.
+ */
+export function resolvePreferredTheme(
+  engine: ThemeEngine,
+  theme: ThemePack,
+  preferences: Partial<UserPreferences>
+): ThemePack {
+  if (!preferences.colorScheme || preferences.colorScheme === theme.mode) return theme;
+  return engine.getThemeVariant(theme, preferences.colorScheme) ?? theme;
+}
+
+// =============================================================================
+// CSS OUTPUT
+// =============================================================================
+
+function diffOverrides(base: TunerCSSOverrides, adjusted: TunerCSSOverrides): TunerCSSOverrides {
+  const diff: TunerCSSOverrides = {};
+  for (const [key, value] of Object.entries(adjusted)) {
+    if (base[key] !== value) diff[key] = value;
+  }
+  return diff;
+}
+
+function mediaBlock(query: string, selector: string, overrides: TunerCSSOverrides, minify: boolean): string | null {
+  const entries = Object.entries(overrides);
+  if (entries.length === 0) return null;
+
+  if (minify) {
+    return `@media ${query}{${selector}{${entries.map(([key, value]) => `${key}:${value}`).join(';')}}}`;
+  }
+  const declarations = entries.map(([key, value]) => `    ${key}: ${value};`).join('\n');
+  return `@media ${query} {\n  ${selector} {\n${declarations}\n  }\n}`;
+}
+
+function indent(css: string): string {
+  return css.split('\n').map(line => (line ? `  ${line}` : line)).join('\n');
+}
+
+/**
+ * Generate tuner variables plus `@media` blocks that apply the same
+ * preference adjustments without JavaScript.
+ *
+ * @example
+ * ```ts
+ * const css = generatePreferenceCSS(tuners, {
+ *   colorSchemes: { dark: chronicleDarkPack, light: chronicleLightPack },
+ * });
+ * ```
+ */
+export function generatePreferenceCSS(
+  input: Partial<TunerValues>,
+  options: PreferenceCSSOptions = {}
+): string {
+  const { selector = ':root', colorSchemes, minify = false, ...adjustment } = options;
+  const base = generateCSSOverrides(normalizeTuners(input));
+  const variant = (preferences: Partial<UserPreferences>) =>
+    diffOverrides(base, generateCSSOverrides(applyUserPreferences(input, preferences, adjustment)));
+
+  const blocks: string[] = [];
+
+  if (minify) {
+    blocks.push(`${selector}{${Object.entries(base).map(([key, value]) => `${key}:${value}`).join(';')}}`);
+  } else {
+    const declarations = Object.entries(base).map(([key, value]) => `  ${key}: ${value};`).join('\n');
+    blocks.push(`${selector} {\n${declarations}\n}`);
+  }
+
+  const media: [string, TunerCSSOverrides][] = [
+    [PREFERENCE_MEDIA_QUERIES.reducedMotion, variant({ reducedMotion: true })],
+    [PREFERENCE_MEDIA_QUERIES.moreContrast, variant({ contrast: 'more' })],
+    [PREFERENCE_MEDIA_QUERIES.lessContrast, variant({ contrast: 'less' })],
+  ];
+  for (const [query, overrides] of media) {
+    const block = mediaBlock(query, selector, overrides, minify);
+    if (block) blocks.push(block);
+  }
+
+  if (colorSchemes) {
+    const context = colorSchemes.context ?? 'product';
+    for (const mode of ['dark', 'light'] as const) {
+      const themeCSS = generateThemeCSS(colorSchemes[mode], context, { selector, minify });
+      blocks.push(minify
+        ? `@media ${PREFERENCE_MEDIA_QUERIES[mode]}{${themeCSS}}`
+        : `@media ${PREFERENCE_MEDIA_QUERIES[mode]} {\n${indent(themeCSS)}\n}`);
+    }
+  }
+
+  return blocks.join(minify ? '' : '\n\n');
+}
@@ -0,0 +1,188 @@
+/**
+ * Tuner Presets
+ *
+ * Named tuner combinations ("Ops night shift", "Investor deck", ...) with
+ * interpolation and weighted blending, so a single slider can morph from
+ * one taste to another.
+ */
+
+import type { AppliedTuners, TunerValues } from '../mcp/contract';
+import { toThemeKey } from '../core/css';
+import { normalizeTuners } from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A named tuner combination
+ */
+export interface TunerPreset {
+  name: string;
+  description?: string;
+  tuners: AppliedTuners;
+}
+
+/**
+ * A preset (by name or values) and its weight in a blend
+ */
+export interface WeightedTuners {
+  preset: string | Partial<TunerValues>;
+  weight: number;
+}
+
+// =============================================================================
+// BUILT-IN PRESETS
+// =============================================================================
+
+/**
+ * Built-in presets spanning the calm-to-expressive range
+ */
+export const BUILT_IN_TUNER_PRESETS: TunerPreset[] = [
+  {
+    name: 'calm',
+    description: 'Quiet and operational: dense, static, low abstraction',
+    tuners: { abstraction: 0.2, density: 0.7, motion: 0.2, contrast: 0.5, narrative: 0.2 },
+  },
+  {
+    name: 'balanced',
+    description: 'Neutral position of every tuner',
+    tuners: { abstraction: 0.5, density: 0.5, motion: 0.5, contrast: 0.5, narrative: 0.5 },
+  },
+  {
+    name: 'expressive',
+    description: 'Narrative and animated: spacious, abstract, high contrast',
+    tuners: { abstraction: 0.8, density: 0.3, motion: 0.8, contrast: 0.7, narrative: 0.9 },
+  },
+];
+
+const presets: Map<string, TunerPreset> = new Map(
+  BUILT_IN_TUNER_PRESETS.map(preset => [toThemeKey(preset.name), preset])
+);
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+/**
+ * Register (or replace) a tuner preset. Values are clamped to each
+ * dimension's bounds.
+ *
+ * @example
+ * ```ts
+ * registerTunerPreset({
+ *   name: 'Ops night shift',
+ *   tuners: { abstraction: 0.1, density: 0.9, motion: 0.1, contrast: 0.8, narrative: 0.1 },
+ * });
+ * ```
+ */
+export function registerTunerPreset(preset: {
+  name: string;
+  description?: string;
+  tuners: Partial<TunerValues>;
+}): TunerPreset {
+  const registered: TunerPreset = { ...preset, tuners: normalizeTuners(preset.tuners) };
+  presets.set(toThemeKey(preset.name), registered);
+  return registered;
+}
+
+/**
+ * Get a preset by name (case and spacing insensitive)
+ */
+export function getTunerPreset(name: string): TunerPreset | null {
+  return presets.get(toThemeKey(name)) ?? null;
+}
+
+/**
+ * List every registered preset
+ */
+export function listTunerPresets(): TunerPreset[] {
+  return Array.from(presets.values());
+}
+
+/**
+ * Find the preset whose values match the given tuners (to one decimal)
+ */
+export function findTunerPreset(tuners: Partial<TunerValues>): TunerPreset | null {
+  const target = normalizeTuners(tuners);
+  const same = (a: number, b: number) => Math.abs(a - b) < 0.05;
+
+  for (const preset of presets.values()) {
+    const values = normalizeTuners(preset.tuners);
+    if (Object.keys(target).every(key => same(values[key], target[key]))) {
+      return preset;
+    }
+  }
+  return null;
+}
+
+function resolvePreset(preset: string | Partial<TunerValues>): AppliedTuners {
+  if (typeof preset !== 'string') return normalizeTuners(preset);
+
+  const found = getTunerPreset(preset);
+  if (!found) {
+    const available = listTunerPresets().map(p => p.name).join(', ');
+    throw new Error(`Unknown tuner preset "${preset}". Available: ${available}`);
+  }
+  // Fills dimensions registered after the preset
+  return normalizeTuners(found.tuners);
+}
+
+// =============================================================================
+// INTERPOLATION & BLENDING
+// =============================================================================
+
+/**
+ * Interpolate linearly between two presets (names or values).
+ * `factor` 0 returns `from`, 1 returns `to`.
+ *
+ * @example
+ * ```ts
+ * // Slider morphing from calm to expressive
+ * const tuners = interpolateTuners('calm', 'expressive', slider.value);
+ * ```
+ */
+export function interpolateTuners(
+  from: string | Partial<TunerValues>,
+  to: string | Partial<TunerValues>,
+  factor: number
+): AppliedTuners {
+  const a = resolvePreset(from);
+  const b = resolvePreset(to);
+  const t = Math.max(0, Math.min(1, factor));
+
+  const result = { ...a };
+  for (const key of Object.keys(a)) {
+    result[key] = a[key] + (b[key] - a[key]) * t;
+  }
+  return normalizeTuners(result);
+}
+
+/**
+ * Blend any number of presets by weight. Weights are relative and do not
+ * need to sum to 1.
+ *
+ * @throws {Error} if no weight is positive or a preset name is unknown
+ *
+ * @example
+ * ```ts
+ * blendTuners([
+ *   { preset: 'calm', weight: 2 },
+ *   { preset: 'expressive', weight: 1 },
+ * ]);
+ * ```
+ */
+export function blendTuners(entries: WeightedTuners[]): AppliedTuners {
+  const weighted = entries.filter(entry => entry.weight > 0);
+  const total = weighted.reduce((sum, entry) => sum + entry.weight, 0);
+  if (total === 0) {
+    throw new Error('blendTuners requires at least one preset with a positive weight');
+  }
+
+  const resolved = weighted.map(entry => ({ tuners: resolvePreset(entry.preset), weight: entry.weight / total }));
+  const result = normalizeTuners({});
+  for (const key of Object.keys(result)) {
+    result[key] = resolved.reduce((sum, entry) => sum + entry.tuners[key] * entry.weight, 0);
+  }
+  return normalizeTuners(result);
+}
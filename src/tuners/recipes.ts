@@ -0,0 +1,247 @@
+/**
+ * Tuned Recipes
+ *
+ * Applies tuner recipe overrides (table density, signal complexity, motif
+ * intensity, motion toggles, ...) to a theme's context recipes, so components
+ * read one set of recipes that already reflects the tuner positions.
+ *
+ * Neutral bands ('normal' table density, 'medium' complexity, 'normal'
+ * ribbon prominence) keep the theme's own choice. Recipe mappings of
+ * registered custom dimensions are applied last.
+ */
+
+import type {
+  ThemePack,
+  ThemeRecipes,
+  PageContext,
+  ProductRecipes,
+  MarketingRecipes,
+  ContextRecipes,
+  MotionRecipes,
+  MetricRibbonRecipe,
+} from '../core/types';
+import { normalizeThemePack } from '../core/engine';
+import type { AppliedTuners } from '../mcp/contract';
+import { generateRecipeOverrides } from './index';
+import type { TunerRecipeOverrides } from './index';
+import { listTunerDimensions } from './dimensions';
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Scale a CSS length (`'120px'`, `'5rem'`) by a factor.
+ * Values that are not a plain number + unit are returned unchanged.
+ */
+function scaleLength(value: string, factor: number): string {
+  const match = /^(-?\d*\.?\d+)([a-z%]*)$/.exec(value.trim());
+  if (!match) return value;
+  const scaled = parseFloat(match[1]) * factor;
+  const unit = match[2];
+  return unit === 'px'
+    ? `${Math.round(scaled)}px`
+    : `${Math.round(scaled * 100) / 100}${unit}`;
+}
+
+function tuneTableDensity(
+  density: 'compact' | 'comfortable',
+  overrides: TunerRecipeOverrides
+): 'compact' | 'comfortable' {
+  if (overrides.tableDensity === 'compact') return 'compact';
+  if (overrides.tableDensity === 'spacious') return 'comfortable';
+  return density;
+}
+
+/**
+ * Cap motif layers by the abstraction tuner; its neutral band ('medium'
+ * complexity) keeps every layer of the theme
+ */
+function tuneMotifLayers<T>(layers: T[], overrides: TunerRecipeOverrides): T[] {
+  if (overrides.signalComplexity === 'medium' || overrides.backgroundLayers === undefined) return layers;
+  return layers.slice(0, overrides.backgroundLayers);
+}
+
+/**
+ * Scale motif intensity by the abstraction tuner: below the neutral 0.5 it
+ * fades toward 0, above it moves toward 1 by the recipe's own headroom
+ */
+function tuneMotifIntensity(intensity: number, motifIntensity: number): number {
+  const tuned = motifIntensity <= 0.5
+    ? intensity * motifIntensity * 2
+    : intensity + (1 - intensity) * (motifIntensity - 0.5) * 2;
+  return Math.round(tuned * 100) / 100;
+}
+
+/**
+ * Disable motion behavior when the motion tuner is too low for path drawing
+ */
+function tuneMotion(motion: MotionRecipes, overrides: TunerRecipeOverrides): MotionRecipes {
+  if (overrides.pathDrawEnabled !== false) return motion;
+  return {
+    ...motion,
+    behavior: {
+      ...motion.behavior,
+      enabled: false,
+      entranceAnimation: 'none',
+      staggerDelay: 0,
+    },
+  };
+}
+
+/**
+ * Immutably set a dot-path value, copying every object along the path
+ */
+function setAtPath<T>(target: T, path: string, value: unknown): T {
+  const [head, ...rest] = path.split('.');
+  const source = (target ?? {}) as Record<string, unknown>;
+  return {
+    ...source,
+    [head]: rest.length === 0 ? value : setAtPath(source[head], rest.join('.'), value),
+  } as T;
+}
+
+/**
+ * Apply the recipe mappings declared by registered dimensions
+ */
+function applyDimensionMappings<T extends ContextRecipes>(
+  recipes: T,
+  context: PageContext,
+  tuners: AppliedTuners
+): T {
+  let result = recipes;
+  for (const dimension of listTunerDimensions()) {
+    const value = tuners[dimension.key] ?? dimension.default;
+    for (const mapping of dimension.recipes ?? []) {
+      if (mapping.context && mapping.context !== context) continue;
+      result = setAtPath(result, mapping.path, mapping.value(value));
+    }
+  }
+  return result;
+}
+
+const RIBBON_PROMINENCE: Record<'subtle' | 'prominent', Pick<MetricRibbonRecipe, 'background' | 'valueStyle'>> = {
+  subtle: { background: 'transparent', valueStyle: 'light' },
+  prominent: { background: 'accent-muted', valueStyle: 'bold' },
+};
+
+// =============================================================================
+// CONTEXT RESOLVERS
+// =============================================================================
+
+/**
+ * Apply tuner overrides to product recipes
+ */
+export function tuneProductRecipes(recipes: ProductRecipes, tuners: AppliedTuners): ProductRecipes {
+  const overrides = generateRecipeOverrides(tuners);
+
+  // Definitions may omit table recipes entirely
+  return {
+    ...recipes,
+    ...(recipes.DataTable ? {
+      DataTable: {
+        ...recipes.DataTable,
+        density: tuneTableDensity(recipes.DataTable.density, overrides),
+      },
+    } : {}),
+    ...(recipes.ActivityTable ? {
+      ActivityTable: {
+        ...recipes.ActivityTable,
+        density: tuneTableDensity(recipes.ActivityTable.density, overrides),
+      },
+    } : {}),
+    motion: tuneMotion(recipes.motion, overrides),
+  };
+}
+
+/**
+ * Apply tuner overrides to marketing recipes
+ */
+export function tuneMarketingRecipes(recipes: MarketingRecipes, tuners: AppliedTuners): MarketingRecipes {
+  const overrides = generateRecipeOverrides(tuners);
+  const { signatureBlocks, motionBindings } = recipes;
+
+  const motifIntensity = overrides.motifIntensity ?? 0.5;
+  const sectionGapMultiplier = overrides.sectionGapMultiplier ?? 1;
+  const heroHeightMultiplier = overrides.heroHeightMultiplier ?? 1;
+  const prominence = overrides.ribbonProminence;
+
+  return {
+    ...recipes,
+    Hero: {
+      ...recipes.Hero,
+      spacing: {
+        ...recipes.Hero.spacing,
+        paddingY: scaleLength(recipes.Hero.spacing.paddingY, heroHeightMultiplier),
+      },
+    },
+    FeatureCard: {
+      ...recipes.FeatureCard,
+      hoverEffect: recipes.FeatureCard.hoverEffect === 'glow' && !overrides.hoverGlowEnabled
+        ? 'lift'
+        : recipes.FeatureCard.hoverEffect,
+    },
+    LayoutRhythm: {
+      ...recipes.LayoutRhythm,
+      sectionGap: scaleLength(recipes.LayoutRhythm.sectionGap, sectionGapMultiplier),
+      heroBottomGap: scaleLength(recipes.LayoutRhythm.heroBottomGap, sectionGapMultiplier),
+    },
+    motion: tuneMotion(recipes.motion, overrides),
+    // Intensity is relative to the theme: the neutral tuner (0.5) keeps it
+    motifs: {
+      ...recipes.motifs,
+      intensity: tuneMotifIntensity(recipes.motifs.intensity, motifIntensity),
+      layers: tuneMotifLayers(recipes.motifs.layers, overrides),
+    },
+    signatureBlocks: {
+      ...signatureBlocks,
+      signalPathConfig: {
+        ...signatureBlocks.signalPathConfig,
+        complexity: overrides.signalComplexity && overrides.signalComplexity !== 'medium'
+          ? overrides.signalComplexity
+          : signatureBlocks.signalPathConfig.complexity,
+        animateOnScroll: signatureBlocks.signalPathConfig.animateOnScroll && overrides.pathDrawEnabled !== false,
+      },
+      stackedCardsConfig: {
+        ...signatureBlocks.stackedCardsConfig,
+        hoverEffect: overrides.cardExpansionEnabled === false ? 'none' : signatureBlocks.stackedCardsConfig.hoverEffect,
+      },
+      metricRibbonConfig: {
+        ...signatureBlocks.metricRibbonConfig,
+        ...(prominence === 'subtle' || prominence === 'prominent' ? RIBBON_PROMINENCE[prominence] : {}),
+      },
+    },
+    motionBindings: {
+      ...motionBindings,
+      signatureBlocks: {
+        ...motionBindings.signatureBlocks,
+        signalPath: overrides.pathDrawEnabled === false ? 'none' : motionBindings.signatureBlocks.signalPath,
+        stackedCards: overrides.cardExpansionEnabled === false ? 'none' : motionBindings.signatureBlocks.stackedCards,
+      },
+    },
+  };
+}
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Resolve a theme's recipes for a context with tuner effects applied.
+ *
+ * @example
+ * ```ts
+ * const recipes = resolveTunedRecipes(theme, 'product', normalizeTuners({ density: 0.9 }));
+ * recipes.DataTable.density; // 'compact'
+ * ```
+ */
+export function resolveTunedRecipes(theme: ThemePack, context: 'product', tuners: AppliedTuners): ProductRecipes;
+export function resolveTunedRecipes(theme: ThemePack, context: 'marketing', tuners: AppliedTuners): MarketingRecipes;
+export function resolveTunedRecipes(theme: ThemePack, context: PageContext, tuners: AppliedTuners): ContextRecipes;
+export function resolveTunedRecipes(theme: ThemePack, context: PageContext, tuners: AppliedTuners): ContextRecipes {
+  const recipes = normalizeThemePack(theme).recipes as ThemeRecipes;
+  const tuned = context === 'marketing'
+    ? tuneMarketingRecipes(recipes.marketing, tuners)
+    : tuneProductRecipes(recipes.product, tuners);
+  return applyDimensionMappings(tuned, context, tuners);
+}
@@ -0,0 +1,169 @@
+/**
+ * Tuner Scopes
+ *
+ * Scopes tuner overrides to an element subtree or a route, so a dense
+ * dashboard and a narrative landing page in the same app do not fight over
+ * the global `--tuner-*` variables. A scope inherits the tuners of its
+ * nearest scoped ancestor (or the page) and overrides some of them.
+ */
+
+import type { AppliedTuners, TunerValues } from '../mcp/contract';
+import {
+  normalizeTuners,
+  generateCSSOverrides,
+  applyCSSOverridesToElement,
+  removeCSSOverridesFromElement,
+} from './index';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Tuner overrides for routes matching `path`.
+ * String paths support `:param` segments and a trailing `*`.
+ */
+export interface TunerRoute {
+  path: string | RegExp;
+  tuners: Partial<TunerValues>;
+}
+
+/**
+ * State of a scoped element
+ */
+export interface TunerScopeState {
+  /** Overrides set on this scope */
+  overrides: Partial<TunerValues>;
+  /** Resolved tuners (inherited + overrides) */
+  tuners: AppliedTuners;
+}
+
+// =============================================================================
+// INHERITANCE
+// =============================================================================
+
+/**
+ * Layer overrides on top of inherited tuners
+ */
+export function inheritTuners(parent: Partial<TunerValues>, overrides: Partial<TunerValues>): AppliedTuners {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  ) as Partial<TunerValues>;
+  return normalizeTuners({ ...normalizeTuners(parent), ...defined });
+}
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+function routePatternToRegExp(pattern: string): RegExp {
+  const wildcard = pattern.endsWith('*');
+  const body = (wildcard ? pattern.slice(0, -1) : pattern).replace(/\/+$/, '');
+  const source = body
+    .split('/')
+    .map(segment => (segment.startsWith(':') ? '[^/]+' : segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('/');
+  return new RegExp(`^${source}${wildcard ? '(?:/.*)?' : '/?'}$`);
+}
+
+/**
+ * Check whether a pathname matches a route pattern
+ */
+export function matchTunerRoute(path: string | RegExp, pathname: string): boolean {
+  const regexp = typeof path === 'string' ? routePatternToRegExp(path) : path;
+  return regexp.test(pathname);
+}
+
+/**
+ * Resolve the tuners for a pathname. Every matching route is layered in
+ * declaration order, so list general patterns before specific ones.
+ *
+ * @example
+ * ```ts
+ * const routes: TunerRoute[] = [
+ *   { path: '/app/*', tuners: { density: 0.8, narrative: 0.2 } },
+ *   { path: '/app/reports/:id', tuners: { motion: 0.2 } },
+ *   { path: '/', tuners: { narrative: 0.9, abstraction: 0.7 } },
+ * ];
+ * resolveRouteTuners(routes, '/app/reports/42');
+ * // { density: 0.8, narrative: 0.2, motion: 0.2, ... }
+ * ```
+ */
+export function resolveRouteTuners(
+  routes: TunerRoute[],
+  pathname: string,
+  base: Partial<TunerValues> = {}
+): AppliedTuners {
+  return routes
+    .filter(route => matchTunerRoute(route.path, pathname))
+    .reduce<AppliedTuners>((tuners, route) => inheritTuners(tuners, route.tuners), normalizeTuners(base));
+}
+
+// =============================================================================
+// ELEMENT SCOPES
+// =============================================================================
+
+export const TUNER_SCOPE_ATTRIBUTE = 'data-tuner-scope';
+
+const scopes: WeakMap<HTMLElement, TunerScopeState> = new WeakMap();
+
+/**
+ * Get the tuners in effect for an element: those of its nearest scoped
+ * ancestor (including itself), or `fallback` outside any scope
+ */
+export function getElementTuners(
+  element: HTMLElement,
+  fallback: Partial<TunerValues> = {}
+): AppliedTuners {
+  let current: HTMLElement | null = element;
+  while (current) {
+    const state = scopes.get(current);
+    if (state) return state.tuners;
+    current = current.parentElement?.closest<HTMLElement>(`[${TUNER_SCOPE_ATTRIBUTE}]`) ?? null;
+  }
+  return normalizeTuners(fallback);
+}
+
+/**
+ * Apply tuner overrides to an element subtree. The scope inherits from its
+ * nearest scoped ancestor unless `parent` tuners are given.
+ *
+ * @returns The resolved tuners of the scope
+ */
+export function applyTunerScope(
+  element: HTMLElement,
+  overrides: Partial<TunerValues>,
+  parent?: Partial<TunerValues>
+): AppliedTuners {
+  const inherited = parent ?? (element.parentElement ? getElementTuners(element.parentElement) : {});
+  const tuners = inheritTuners(inherited, overrides);
+
+  const previous = scopes.get(element);
+  if (previous) {
+    removeCSSOverridesFromElement(element, generateCSSOverrides(previous.tuners));
+  }
+
+  scopes.set(element, { overrides, tuners });
+  element.setAttribute(TUNER_SCOPE_ATTRIBUTE, '');
+  applyCSSOverridesToElement(element, generateCSSOverrides(tuners));
+  return tuners;
+}
+
+/**
+ * Remove a tuner scope and its variables from an element
+ */
+export function removeTunerScope(element: HTMLElement): void {
+  const state = scopes.get(element);
+  if (!state) return;
+
+  scopes.delete(element);
+  element.removeAttribute(TUNER_SCOPE_ATTRIBUTE);
+  removeCSSOverridesFromElement(element, generateCSSOverrides(state.tuners));
+}
+
+/**
+ * Get the state of a scoped element
+ */
+export function getTunerScope(element: HTMLElement): TunerScopeState | null {
+  return scopes.get(element) ?? null;
+}
@@ -0,0 +1,252 @@
+/**
+ * Tuner Sensitivity
+ *
+ * Shows what each tuner axis actually moves: sweeps an axis across its
+ * bounds for a theme and context and reports every CSS variable and recipe
+ * field that changes, and diffs two tuner positions into an impact report
+ * (JSON or text) that the MCP server returns alongside `explain_taste`.
+ */
+
+import type { AppliedTuners, TunerValues } from '../mcp/contract';
+import type { ThemePack, PageContext } from '../core/types';
+import { isPlainObject } from '../core/merge';
+import { normalizeTuners, generateCSSOverrides } from './index';
+import { resolveTunedRecipes } from './recipes';
+import { listTunerDimensions, getTunerDimension, getTunerBounds } from './dimensions';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * A CSS variable (`--tuner-gap-base`) or recipe field (`DataTable.density`)
+ */
+export interface TunerField {
+  kind: 'css' | 'recipe';
+  path: string;
+}
+
+/**
+ * Values of one field across a sweep, in sample order
+ */
+export interface TunerFieldSweep extends TunerField {
+  values: unknown[];
+}
+
+/**
+ * Everything one axis moves
+ */
+export interface TunerSensitivity {
+  tuner: string;
+  name: string;
+  /** Tuner values sampled, low to high */
+  samples: number[];
+  /** Fields whose value differs between at least two samples */
+  fields: TunerFieldSweep[];
+}
+
+/**
+ * A field that differs between two tuner positions
+ */
+export interface TunerFieldChange extends TunerField {
+  before: unknown;
+  after: unknown;
+  /** Tuners that move this field on their own */
+  tuners: string[];
+}
+
+/**
+ * Impact of moving from `before` to `after` tuners
+ */
+export interface TunerImpactReport {
+  theme: string;
+  context: PageContext;
+  before: AppliedTuners;
+  after: AppliedTuners;
+  changes: TunerFieldChange[];
+}
+
+/**
+ * Options for sensitivity sweeps
+ */
+export interface TunerSensitivityOptions {
+  /** Values of the other tuners (default: neutral) */
+  base?: Partial<TunerValues>;
+  /** Samples per axis, including both bounds (default: 5) */
+  steps?: number;
+  /** Axes to sweep (default: every registered dimension) */
+  tuners?: string[];
+}
+
+// =============================================================================
+// SNAPSHOTS
+// =============================================================================
+
+type FieldValues = Map<string, { field: TunerField; value: unknown }>;
+
+function flatten(value: unknown, path: string, out: Record<string, unknown>): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flatten(item, path ? `${path}.${index}` : String(index), out));
+  } else if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, path ? `${path}.${key}` : key, out);
+    }
+  } else {
+    out[path] = value;
+  }
+}
+
+/**
+ * Every CSS variable and recipe leaf for a tuner position
+ */
+function snapshot(theme: ThemePack, context: PageContext, tuners: AppliedTuners): FieldValues {
+  const values: FieldValues = new Map();
+
+  for (const [path, value] of Object.entries(generateCSSOverrides(tuners))) {
+    values.set(`css:${path}`, { field: { kind: 'css', path }, value });
+  }
+
+  const recipes: Record<string, unknown> = {};
+  flatten(resolveTunedRecipes(theme, context, tuners), '', recipes);
+  for (const [path, value] of Object.entries(recipes)) {
+    values.set(`recipe:${path}`, { field: { kind: 'recipe', path }, value });
+  }
+
+  return values;
+}
+
+function changedKeys(a: FieldValues, b: FieldValues): string[] {
+  const keys = new Set([...a.keys(), ...b.keys()]);
+  return Array.from(keys).filter(key => a.get(key)?.value !== b.get(key)?.value);
+}
+
+// =============================================================================
+// SWEEPS
+// =============================================================================
+
+/**
+ * Sweep one axis across its bounds and report every field it moves
+ *
+ * @example
+ * ```ts
+ * const density = sweepTuner(opsCalm, 'product', 'density');
+ * density.fields.find(f => f.path === 'DataTable.density');
+ * // { kind: 'recipe', path: 'DataTable.density', values: ['comfortable', ..., 'compact'] }
+ * ```
+ */
+export function sweepTuner(
+  theme: ThemePack,
+  context: PageContext,
+  tuner: string,
+  options: Omit<TunerSensitivityOptions, 'tuners'> = {}
+): TunerSensitivity {
+  const dimension = getTunerDimension(tuner);
+  if (!dimension) {
+    const available = listTunerDimensions().map(d => d.key).join(', ');
+    throw new Error(`Unknown tuner "${tuner}". Available: ${available}`);
+  }
+
+  const { base = {}, steps = 5 } = options;
+  const { min, max } = getTunerBounds(dimension);
+  const count = Math.max(2, Math.round(steps));
+  const samples = Array.from({ length: count }, (_, i) => Math.round((min + ((max - min) * i) / (count - 1)) * 100) / 100);
+
+  const snapshots = samples.map(value => snapshot(theme, context, normalizeTuners({ ...base, [tuner]: value })));
+  const keys = new Set<string>();
+  for (let i = 1; i < snapshots.length; i++) {
+    changedKeys(snapshots[0], snapshots[i]).forEach(key => keys.add(key));
+  }
+
+  const fields = Array.from(keys).map(key => {
+    const field = snapshots.find(s => s.has(key))!.get(key)!.field;
+    return { ...field, values: snapshots.map(s => s.get(key)?.value) };
+  });
+
+  return { tuner, name: dimension.name, samples, fields };
+}
+
+/**
+ * Sweep every axis (or the given ones)
+ */
+export function exploreTunerSensitivity(
+  theme: ThemePack,
+  context: PageContext,
+  options: TunerSensitivityOptions = {}
+): TunerSensitivity[] {
+  const tuners = options.tuners ?? listTunerDimensions().map(d => d.key);
+  return tuners.map(tuner => sweepTuner(theme, context, tuner, options));
+}
+
+// =============================================================================
+// IMPACT REPORT
+// =============================================================================
+
+/**
+ * Diff two tuner positions (default `before`: neutral)
+ *
+ * @example
+ * ```ts
+ * const report = getTunerImpact(opsCalm, 'product', { density: 0.8 });
+ * console.log(formatTunerImpactReport(report));
+ * ```
+ */
+export function getTunerImpact(
+  theme: ThemePack,
+  context: PageContext,
+  after: Partial<TunerValues>,
+  before: Partial<TunerValues> = {}
+): TunerImpactReport {
+  const from = normalizeTuners(before);
+  const to = normalizeTuners({ ...from, ...after });
+  const start = snapshot(theme, context, from);
+  const end = snapshot(theme, context, to);
+
+  // Attribute each change to the tuners that move it on their own
+  const moved = Object.keys(to).filter(key => to[key] !== from[key]);
+  const solo = new Map(moved.map(key => [
+    key,
+    new Set(changedKeys(start, snapshot(theme, context, { ...from, [key]: to[key] }))),
+  ]));
+
+  const changes = changedKeys(start, end).map(key => ({
+    ...(start.get(key) ?? end.get(key))!.field,
+    before: start.get(key)?.value,
+    after: end.get(key)?.value,
+    tuners: moved.filter(tuner => solo.get(tuner)?.has(key)),
+  }));
+
+  return { theme: theme.name, context, before: from, after: to, changes };
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '(none)' : JSON.stringify(value);
+}
+
+/**
+ * Format an impact report as compact text, CSS variables first
+ */
+export function formatTunerImpactReport(report: TunerImpactReport): string {
+  const moved = Object.keys(report.after)
+    .filter(key => report.after[key] !== report.before[key])
+    .map(key => `${key} ${report.before[key]} -> ${report.after[key]}`);
+
+  const lines = [
+    `Tuner impact on "${report.theme}" (${report.context}): ${moved.length > 0 ? moved.join(', ') : 'no tuner moved'}`,
+  ];
+  if (report.changes.length === 0) {
+    lines.push('No CSS variables or recipe fields change.');
+    return lines.join('\n');
+  }
+
+  for (const kind of ['css', 'recipe'] as const) {
+    const changes = report.changes.filter(change => change.kind === kind);
+    if (changes.length === 0) continue;
+    lines.push('', kind === 'css' ? 'CSS variables:' : 'Recipe fields:');
+    for (const change of changes) {
+      const by = change.tuners.length > 0 ? ` [${change.tuners.join(', ')}]` : '';
+      lines.push(`- ${change.path}: ${formatValue(change.before)} -> ${formatValue(change.after)}${by}`);
+    }
+  }
+
+  return lines.join('\n');
+}
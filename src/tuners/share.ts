@@ -0,0 +1,131 @@
+/**
+ * Tuner Share Tokens
+ *
+ * Encodes tuners plus theme name and page context into one compact URL
+ * param (`?taste=...`) instead of one param per tuner. Per-key params are
+ * still read, so existing links keep working.
+ */
+
+import type { AppliedTuners, TunerValues } from '../mcp/contract';
+import type { PageContext } from '../core/types';
+import { normalizeTuners } from './index';
+import { listTunerDimensions } from './dimensions';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Everything needed to restore a tuned view
+ */
+export interface TunerShareState {
+  tuners: AppliedTuners;
+  /** Theme name */
+  theme?: string;
+  /** Page context */
+  context?: PageContext;
+}
+
+/**
+ * Wire format: short keys, tuners that differ from their default only
+ */
+interface ShareTokenPayload {
+  v: 1;
+  t: Record<string, number>;
+  th?: string;
+  cx?: 'p' | 'm';
+}
+
+/** URL param holding the share token */
+export const TUNER_SHARE_PARAM = 'taste';
+
+// =============================================================================
+// ENCODING
+// =============================================================================
+
+function toBase64URL(text: string): string {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64URL(token: string): string {
+  const binary = atob(token.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+/**
+ * Encode tuners, theme and context as a URL-safe token
+ *
+ * @example
+ * ```ts
+ * const token = encodeTunerShareToken({ tuners, theme: 'ops-calm', context: 'product' });
+ * const url = `${location.pathname}?taste=${token}`;
+ * ```
+ */
+export function encodeTunerShareToken(state: {
+  tuners: Partial<TunerValues>;
+  theme?: string;
+  context?: PageContext;
+}): string {
+  const tuners = normalizeTuners(state.tuners);
+  const payload: ShareTokenPayload = { v: 1, t: {} };
+
+  for (const dimension of listTunerDimensions()) {
+    const value = Math.round(tuners[dimension.key] * 100) / 100;
+    if (value !== dimension.default) payload.t[dimension.key] = value;
+  }
+  if (state.theme) payload.th = state.theme;
+  if (state.context) payload.cx = state.context === 'marketing' ? 'm' : 'p';
+
+  return toBase64URL(JSON.stringify(payload));
+}
+
+/**
+ * Decode a share token. Returns null for malformed tokens; unknown tuner
+ * keys are dropped and values are clamped to their bounds.
+ */
+export function decodeTunerShareToken(token: string): TunerShareState | null {
+  let payload: Partial<ShareTokenPayload>;
+  try {
+    payload = JSON.parse(fromBase64URL(token));
+  } catch {
+    return null;
+  }
+  if (!payload || payload.v !== 1 || typeof payload.t !== 'object' || payload.t === null) {
+    return null;
+  }
+
+  const tuners: Partial<TunerValues> = {};
+  for (const [key, value] of Object.entries(payload.t)) {
+    if (typeof value === 'number' && Number.isFinite(value)) tuners[key] = value;
+  }
+
+  return {
+    tuners: normalizeTuners(tuners),
+    ...(typeof payload.th === 'string' ? { theme: payload.th } : {}),
+    ...(payload.cx === 'p' || payload.cx === 'm' ? { context: payload.cx === 'm' ? 'marketing' : 'product' } : {}),
+  };
+}
+
+// =============================================================================
+// URL PARAMS
+// =============================================================================
+
+/**
+ * Read the share token from URL search params
+ */
+export function parseTunerShareFromURL(searchParams: URLSearchParams): TunerShareState | null {
+  const token = searchParams.get(TUNER_SHARE_PARAM);
+  return token ? decodeTunerShareToken(token) : null;
+}
+
+/**
+ * Serialize tuners, theme and context to a single URL param
+ */
+export function tunerShareToURLParams(state: {
+  tuners: Partial<TunerValues>;
+  theme?: string;
+  context?: PageContext;
+}): URLSearchParams {
+  return new URLSearchParams({ [TUNER_SHARE_PARAM]: encodeTunerShareToken(state) });
+}